@@ -3,6 +3,8 @@
 import { useEffect, useMemo, useRef, useState } from 'react'
 import { SkeletonViewer, DatasetPayload } from '../components/skeleton-viewer'
 import { SensorChart, SensorChartRef } from '@/components/sensor-chart'
+import { SpectrumChart, type SpectrumScale } from '@/components/spectrum-chart'
+import { GaitCycleChart } from '@/components/gait-cycle-chart'
 import { ErrorBoundary } from '@/components/error-boundary'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -10,23 +12,69 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Slider } from '@/components/ui/slider'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Play, Pause, RotateCcw, AlertCircle, Loader2 } from 'lucide-react'
-import { getCachedJson, prefetchJson } from '@/lib/utils'
-import { computeStats, movingAverageSmooth, normalizeSeries, type NormalizeMode } from '@/lib/processing'
+import { DATASET_FILE_ACCEPT, fetchDataset, prefetchDatasets, readDatasetFile, type LoadedDataset } from '@/lib/dataset-files'
+import { DatasetValidationError, formatValidationIssue, prepareDataset, validateDataset, type ValidationIssue } from '@/lib/dataset-schema'
+import { BINARY_DATASET_EXTENSION, encodeBinaryDataset } from '@/lib/binary-dataset'
+import { isChunkedIndex, openChunkedDataset, type ChunkedDatasetLoader, type FrameRange } from '@/lib/chunked-dataset'
+import { DATASET_MANIFEST_URL, loadDatasetManifest, summarizePayload, type DatasetEntry, type DatasetSummary } from '@/lib/dataset-manifest'
+import { DatasetLibrary } from '@/components/dataset-library'
+import { ExportPanel } from '@/components/export-panel'
+import { CsvImportDialog } from '@/components/csv-import-dialog'
+import { SeriesExportControls } from '@/components/series-export-controls'
+import { LiveStreamPanel } from '@/components/live-stream-panel'
+import { DataQualityPanel } from '@/components/data-quality-panel'
+import { GaitPanel } from '@/components/gait-panel'
+import { GaitMetricsPanel } from '@/components/gait-metrics-panel'
+import { isCsvFile } from '@/lib/csv-import'
+import type { Calibration } from '@/lib/dataset'
+import { downloadBlob, releaseCached, toFileStem } from '@/lib/utils'
+import { resolveNormalizeMode, validateFilter, welchPsd, type ButterworthFilter, type FilterKind, type NormalizeMode } from '@/lib/processing'
+import { computeCenteringOffsets, DEFAULT_CENTERING, type CenterAnchor } from '@/lib/centering'
+import { analyzeGaps, findSeriesGaps } from '@/lib/gaps'
+import { EULER_COMPONENTS, EULER_SEQUENCES, eulerSeries, type AngleUnit, type EulerSequence } from '@/lib/euler'
+import { JOINT_ANGLE_COMPONENTS, jointAngleForSegment, jointAngleSeries } from '@/lib/joint-angles'
+import { GAIT_SIDE_COLORS, GAIT_SIDES, gaitEventMarkers, type GaitEvents, type GaitSide } from '@/lib/gait'
+import { computeGaitMetrics, MAX_STRIDE_TIME_S } from '@/lib/gait-metrics'
+import { contralateralJoint, normalizeGaitCycles, type GaitCycleSet } from '@/lib/gait-cycles'
+import { useProcessedSeries } from '@/hooks/use-processed-series'
+import { useLiveStream } from '@/hooks/use-live-stream'
+import { recordingLabel } from '@/lib/live-recording'
 import { useMacCompatibility } from '@/hooks/use-mac-compatibility'
 import { usePerformanceMonitor } from '@/hooks/use-performance-monitor'
 import { SENSOR_NAMES, EDGES, exampleTPose, exampleStandingRest, validateSkeletonStructure } from '@/lib/skeleton-constants'
 
-const defaultDatasets = [
-  { id: '6km', label: '6 km/h Walking', path: '/datasets/speed6kmh.json' },
-  { id: '10km', label: '10 km/h Running', path: '/datasets/speed10kmh.json' },
-]
+const MAX_LISTED_ISSUES = 8
+const EULER_AXIS_NAMES = { x: 'Roll', y: 'Pitch', z: 'Yaw' }
+const JOINT_ANGLE_AXIS_NAMES = { x: 'Flexion', y: 'Abduction', z: 'Int. rotation' }
+
+// Error text for the error card; validation failures list their individual issues
+function describeLoadError(e: any, fallback: string): string {
+  if (e instanceof DatasetValidationError) {
+    const lines = e.report.errors.slice(0, MAX_LISTED_ISSUES).map(i => `• ${formatValidationIssue(i)}`)
+    if (e.report.errors.length > MAX_LISTED_ISSUES) lines.push(`• …and ${e.report.errors.length - MAX_LISTED_ISSUES} more`)
+    return [e.message, ...lines].join('\n')
+  }
+  return e?.message || fallback
+}
 
 export default function Page() {
   const [data, setData] = useState<DatasetPayload | null>(null)
   const [displayFrame, setDisplayFrame] = useState(0)
   const [isPlaying, setIsPlaying] = useState(false)
-  const [selectedDataset, setSelectedDataset] = useState<string>('6km')
+  const [selectedDataset, setSelectedDataset] = useState<string>('')
+  const [manifestDatasets, setManifestDatasets] = useState<DatasetEntry[]>([])
+  const [datasetSummaries, setDatasetSummaries] = useState<{ [id: string]: DatasetSummary }>({})
+  const [showLibrary, setShowLibrary] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  const [showLive, setShowLive] = useState(false)
+  const [showQuality, setShowQuality] = useState(false)
+  const [showGait, setShowGait] = useState(false)
+  // Detected and hand-corrected gait events of the current dataset (frame indices)
+  const [gaitEvents, setGaitEvents] = useState<GaitEvents | null>(null)
   const [error, setError] = useState<string | null>(null)
+  // Set when `error` comes from schema validation (the export hint does not apply then)
+  const [errorIsValidation, setErrorIsValidation] = useState(false)
+  const [datasetWarnings, setDatasetWarnings] = useState<ValidationIssue[]>([])
   const [showOrientation, setShowOrientation] = useState(false)
   const [showGyroscope, setShowGyroscope] = useState(false)
   const [showAccelerometer, setShowAccelerometer] = useState(false)
@@ -35,12 +83,37 @@ export default function Page() {
   const [selectedJoint, setSelectedJoint] = useState<string | null>(null)
   // Charts use a separate selection so 3D/calibration changes do not disrupt chart controls
   const [selectedChartJoint, setSelectedChartJoint] = useState<string | null>(null)
-  const [selectedSignal, setSelectedSignal] = useState<'orientation' | 'gyroscope' | 'accelerometer' | 'magnetometer' | null>(null)
+  // 'joint-angle': angles of the joint whose child segment is the chart joint (e.g. knee for lower_leg)
+  const [selectedSignal, setSelectedSignal] = useState<'orientation' | 'gyroscope' | 'accelerometer' | 'magnetometer' | 'joint-angle' | null>(null)
   const [showControls, setShowControls] = useState(true)
   const [showChart, setShowChart] = useState(true)
+  const [chartMode, setChartMode] = useState<'time' | 'spectrum' | 'cycle'>('time')
+  // Gait-cycle view: component of the chart series and whether single strides are drawn
+  const [cycleComponent, setCycleComponent] = useState(0)
+  const [showCycleStrides, setShowCycleStrides] = useState(true)
+  const [spectrumScale, setSpectrumScale] = useState<SpectrumScale>('magnitude')
+  // Orientation charts: raw quaternion components or Euler angles
+  const [orientationView, setOrientationView] = useState<'quaternion' | 'euler'>('quaternion')
+  const [eulerSequence, setEulerSequence] = useState<EulerSequence>('ZYX')
+  const [angleUnit, setAngleUnit] = useState<AngleUnit>('deg')
+  const [eulerUnwrap, setEulerUnwrap] = useState(true)
   const [targetFps, setTargetFps] = useState<number>(0) // 0 means dataset's frameRate
   const [seekFrame, setSeekFrame] = useState<number | null>(null)
   const [isSeeking, setIsSeeking] = useState(false)
+  // Datasets opened from local files for this session; payloads are kept outside React state
+  const [sessionDatasets, setSessionDatasets] = useState<DatasetEntry[]>([])
+  const sessionPayloadsRef = useRef<Map<string, LoadedDataset>>(new Map())
+  // Numbers each opened file or recording, so reopening one (or an edited copy) adds an entry
+  const sessionCounterRef = useRef(0)
+  const [csvImportFiles, setCsvImportFiles] = useState<File[] | null>(null)
+  const [isDraggingFile, setIsDraggingFile] = useState(false)
+  // Loaded frame ranges while a chunked dataset streams in (null once fully loaded)
+  const [bufferedRanges, setBufferedRanges] = useState<FrameRange[] | null>(null)
+  const chunkLoaderRef = useRef<ChunkedDatasetLoader | null>(null)
+  // Live WebSocket stream; its rolling window is shown as `data` while connected
+  const live = useLiveStream()
+  const isLiveData = !!data && data === live.payload
+  const isStreaming = isLiveData && live.status === 'open'
 
   // Mac compatibility and performance monitoring
   const macCompatibility = useMacCompatibility()
@@ -62,11 +135,20 @@ export default function Page() {
   const [orientationAxesVisible, setOrientationAxesVisible] = useState<{ w: boolean, x: boolean, y: boolean, z: boolean }>({ w: true, x: true, y: true, z: true })
 
   // Calibration: per-joint position offset [dx, dy, dz]
-  const [calibration, setCalibration] = useState<{ [joint: string]: { positionOffset?: [number, number, number] } }>({})
+  const [calibration, setCalibration] = useState<Calibration>({})
+
+  // View centering (exporter logic applied at draw time); 'off' shows positions as stored
+  const [centerMode, setCenterMode] = useState<'off' | CenterAnchor>('off')
+  const [centerAlpha, setCenterAlpha] = useState<number>(DEFAULT_CENTERING.emaAlpha)
+  const [centerVerticalLock, setCenterVerticalLock] = useState<boolean>(DEFAULT_CENTERING.verticalLock)
 
   // Analytics / processing controls
   const [normalizeMode, setNormalizeMode] = useState<NormalizeMode>('none')
   const [smoothWindow, setSmoothWindow] = useState<number>(1)
+  const [filterKind, setFilterKind] = useState<'none' | FilterKind>('none')
+  const [filterOrder, setFilterOrder] = useState<number>(4)
+  const [filterCutoff, setFilterCutoff] = useState<number>(6)
+  const [filterHighCutoff, setFilterHighCutoff] = useState<number>(15)
   const [showGrid, setShowGrid] = useState<boolean>(true)
   const [showLegend, setShowLegend] = useState<boolean>(true)
   const [showDots, setShowDots] = useState<boolean>(false)
@@ -86,9 +168,22 @@ export default function Page() {
     return out
   }, [calibration])
 
-  // Prefetch datasets on first mount for faster switching
+  // Load the dataset manifest on first mount and select its first entry
   useEffect(() => {
-    prefetchJson(defaultDatasets.map(d => d.path))
+    const abortController = new AbortController()
+    loadDatasetManifest(DATASET_MANIFEST_URL, { signal: abortController.signal })
+      .then(entries => {
+        setManifestDatasets(entries)
+        setSelectedDataset(prev => prev || (entries[0]?.id ?? ''))
+        // Prefetch the first few datasets for faster switching
+        prefetchDatasets(entries.slice(0, 2).flatMap(d => d.path ? [d.path] : []))
+      })
+      .catch((e: any) => {
+        if (e?.name === 'AbortError') return
+        console.error('Failed to load dataset manifest:', e)
+        setError(`${e?.message || 'Failed to load dataset manifest'}. Add ${DATASET_MANIFEST_URL} listing your exported datasets.`)
+      })
+    return () => abortController.abort()
   }, [])
 
   // Make skeleton constants available globally for testing
@@ -123,6 +218,7 @@ export default function Page() {
     if (!isSeeking) setIsSeeking(true)
     setDisplayFrame(frame)
     setSeekFrame(frame)
+    chunkLoaderRef.current?.prioritize(frame)
   }
 
   const handleSliderCommit = () => {
@@ -131,51 +227,150 @@ export default function Page() {
     // by setting seekFrame to null after a short delay.
     window.setTimeout(() => setSeekFrame(null), 100)
   }
+
+  // Jump to a frame from a panel (e.g. a gap in the quality report)
+  const seekTo = (frame: number) => {
+    setIsPlaying(false)
+    handleSliderChange([frame])
+    handleSliderCommit()
+  }
   
+  // Install a freshly loaded payload and reset playback/chart selections
+  const applyPayload = (payload: DatasetPayload) => {
+    console.log('Loaded dataset:', {
+      frames: payload.numFrames,
+      sensors: payload.numSensors,
+      frameRate: payload.frameRate
+    })
+
+    setData(payload)
+    setGaitEvents(null)
+    setDisplayFrame(0)
+    setSeekFrame(0) // Reset skeleton to frame 0
+    setIsPlaying(true)
+
+    // Reset seek frame after a short delay to allow autoplay to start
+    window.setTimeout(() => setSeekFrame(null), 100)
+
+    // Initialize selections: do not auto-select any joint for calibration
+    setSelectedJoint(null)
+    if (payload.rawSensorData) {
+      const joints = Object.keys(payload.rawSensorData)
+      if (joints.length > 0) {
+        setSelectedChartJoint(joints[0])
+        const first = payload.rawSensorData[joints[0]]
+        const sig = first.orientation ? 'orientation' : first.gyroscope ? 'gyroscope' : first.accelerometer ? 'accelerometer' : first.magnetometer ? 'magnetometer' : null
+        setSelectedSignal(sig)
+      } else {
+        setSelectedChartJoint(payload.sensorNames[0] ?? null)
+        setSelectedSignal(null)
+      }
+    } else {
+      setSelectedChartJoint(payload.sensorNames[0] ?? null)
+      setSelectedSignal(null)
+    }
+  }
+
+  const datasetOptions = useMemo(() => [...manifestDatasets, ...sessionDatasets], [manifestDatasets, sessionDatasets])
+
+  // Register a payload as a session dataset and (unless `select` is false) switch to it
+  const addSessionDataset = (label: string, payload: DatasetPayload, report = validateDataset(payload, payload.version), select = true) => {
+    const id = `local:${label}:${++sessionCounterRef.current}`
+    sessionPayloadsRef.current.set(id, { payload, report })
+    setSessionDatasets(prev => [...prev, { id, label }])
+    if (select) setSelectedDataset(id)
+  }
+
+  // Open local dataset files (JSON export or .h5 recording) from the picker or a drop
+  const handleOpenFiles = async (files: FileList | File[]) => {
+    const all = Array.from(files)
+    // Per-sensor CSV files need a column mapping first
+    const csv = all.filter(isCsvFile)
+    if (csv.length > 0) setCsvImportFiles(csv)
+    const list = all.filter(f => !isCsvFile(f))
+    if (list.length === 0) return
+    setError(null)
+    setIsLoading(true)
+    const errors: string[] = []
+    let allValidation = true
+    for (const file of list) {
+      try {
+        const { payload, report } = await readDatasetFile(file)
+        addSessionDataset(file.name.replace(/\.[^.]+$/, ''), payload, report)
+      } catch (e: any) {
+        console.error('Failed to open dataset file:', e)
+        errors.push(describeLoadError(e, `${file.name}: failed to open file`))
+        if (!(e instanceof DatasetValidationError)) allValidation = false
+      }
+    }
+    if (errors.length > 0) {
+      setError(errors.join('\n'))
+      setErrorIsValidation(allValidation)
+    }
+    setIsLoading(false)
+  }
+
   useEffect(() => {
-    const meta = defaultDatasets.find(d => d.id === selectedDataset)
+    const meta = datasetOptions.find(d => d.id === selectedDataset)
     if (!meta) return
+    live.disconnect()
 
     const abortController = new AbortController()
 
     async function doFetch() {
       setError(null)
+      setErrorIsValidation(false)
+      setDatasetWarnings([])
       setIsLoading(true)
       setIsPlaying(false)
       
       try {
-        const payload = (await getCachedJson(meta!.path, { signal: abortController.signal })) as DatasetPayload
-        console.log('Loaded dataset:', {
-          frames: payload.numFrames,
-          sensors: payload.numSensors,
-          frameRate: payload.frameRate
-        })
-
-        setData(payload)
-        setDisplayFrame(0)
-        setSeekFrame(0) // Reset skeleton to frame 0
-        setIsPlaying(true)
-
-        // Reset seek frame after a short delay to allow autoplay to start
-        window.setTimeout(() => setSeekFrame(null), 100)
-
-        // Initialize selections: do not auto-select any joint for calibration
-        setSelectedJoint(null)
-        if (payload.rawSensorData) {
-          const joints = Object.keys(payload.rawSensorData)
-          if (joints.length > 0) {
-            setSelectedChartJoint(joints[0])
-            const first = payload.rawSensorData[joints[0]]
-            const sig = first.orientation ? 'orientation' : first.gyroscope ? 'gyroscope' : first.accelerometer ? 'accelerometer' : first.magnetometer ? 'magnetometer' : null
-            setSelectedSignal(sig)
+        const session = sessionPayloadsRef.current.get(meta!.id)
+        let payload = session?.payload
+        let warnings = session?.report.warnings ?? []
+        chunkLoaderRef.current = null
+        setBufferedRanges(null)
+        if (!payload) {
+          const fetched: unknown = await fetchDataset(meta!.path!, { signal: abortController.signal })
+          if (isChunkedIndex(fetched)) {
+            // Chunked dataset: start playback on the first chunk, keep loading the rest
+            const loader = await openChunkedDataset(meta!.path!, fetched, {
+              signal: abortController.signal,
+              // Every chunk is migrated and validated on its own, then copied into the loader's
+              // packed arrays, so the cache does not keep the parsed file as well
+              fetchChunk: async (url, init) => {
+                const chunk = prepareDataset(await fetchDataset(url, init), url).payload
+                releaseCached(url)
+                return chunk
+              },
+              onProgress: (ranges) => {
+                if (!abortController.signal.aborted) setBufferedRanges(ranges)
+              },
+            })
+            chunkLoaderRef.current = loader
+            loader.done
+              .then(() => {
+                if (abortController.signal.aborted) return
+                setBufferedRanges(null)
+                setDatasetSummaries(prev => ({ ...prev, [meta!.id]: summarizePayload(loader.payload) }))
+              })
+              .catch((e: any) => {
+                console.error('Failed to load dataset chunk:', e)
+                if (abortController.signal.aborted) return
+                setError(describeLoadError(e, 'Failed to load dataset chunk'))
+                setErrorIsValidation(e instanceof DatasetValidationError)
+              })
+            payload = loader.payload
           } else {
-            setSelectedChartJoint(payload.sensorNames[0] ?? null)
-            setSelectedSignal(null)
+            const prepared = prepareDataset(fetched, meta!.path!)
+            payload = prepared.payload
+            warnings = prepared.report.warnings
           }
-        } else {
-          setSelectedChartJoint(payload.sensorNames[0] ?? null)
-          setSelectedSignal(null)
         }
+        if (abortController.signal.aborted) return
+        applyPayload(payload)
+        setDatasetWarnings(warnings)
+        setDatasetSummaries(prev => ({ ...prev, [meta!.id]: summarizePayload(payload) }))
 
         // Load persisted calibration for this dataset if available
         try {
@@ -185,7 +380,8 @@ export default function Page() {
             const parsed = JSON.parse(saved)
             if (parsed && typeof parsed === 'object') setCalibration(parsed)
           } else {
-            setCalibration({})
+            // Fall back to the calibration saved in the file (e.g. a trimmed export)
+            setCalibration(payload.calibration ?? {})
           }
         } catch (e) {
           console.warn('Failed to load persisted calibration:', e)
@@ -195,6 +391,11 @@ export default function Page() {
         if (e.name === 'AbortError') return
         console.error('Failed to load dataset:', e)
         // More specific error message for mobile
+        if (e instanceof DatasetValidationError) {
+          setError(describeLoadError(e, ''))
+          setErrorIsValidation(true)
+          return
+        }
         const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent)
         const errorMsg = isMobile 
           ? 'Failed to load dataset on mobile. Please check your internet connection and try again.'
@@ -210,17 +411,44 @@ export default function Page() {
     return () => abortController.abort()
   }, [selectedDataset])
 
+  // Show a live stream as soon as the sender announces it (replacing the selected dataset)
+  useEffect(() => {
+    if (!live.payload) return
+    setSelectedDataset('')
+    chunkLoaderRef.current = null
+    setBufferedRanges(null)
+    setError(null)
+    setErrorIsValidation(false)
+    setDatasetWarnings([])
+    setCalibration({})
+    applyPayload(live.payload)
+    setIsPlaying(false)
+  }, [live.payload])
+
+  // Follow the newest streamed frame; playback controls take over once the stream stops
+  useEffect(() => {
+    if (!live.payload || data !== live.payload) return
+    if (live.status === 'open') setSeekFrame(Math.max(0, live.payload.numFrames - 1))
+    else setSeekFrame(null)
+  }, [live.version, live.status])
+
+  // Recordings join the dataset list; switching to one would end a stream that is still running
+  useEffect(() => {
+    if (!live.lastRecording) return
+    addSessionDataset(recordingLabel(live.lastRecording), live.lastRecording, undefined, live.status !== 'open')
+  }, [live.lastRecording])
+
   // Persist calibration whenever it changes for the active dataset
   useEffect(() => {
     try {
-      const meta = defaultDatasets.find(d => d.id === selectedDataset)
+      const meta = datasetOptions.find(d => d.id === selectedDataset)
       if (!meta) return
       const storageKey = `pj_calibration_${meta.id}`
       localStorage.setItem(storageKey, JSON.stringify(calibration))
     } catch (e) {
       // ignore persistence errors
     }
-  }, [calibration, selectedDataset])
+  }, [calibration, selectedDataset, datasetOptions])
 
   const chartableJoints = useMemo(() => {
     if (!data) return [] as string[]
@@ -241,20 +469,30 @@ export default function Page() {
     if (!selectedChartJoint || !chartableJoints.includes(selectedChartJoint)) setSelectedChartJoint(chartableJoints[0] ?? null)
   }, [data, chartableJoints, selectedChartJoint])
 
+  const chartJointAngle = useMemo(() => (data && selectedChartJoint ? jointAngleForSegment(data, selectedChartJoint) : null), [data, selectedChartJoint])
+
   const chartableSignals = useMemo(() => {
-    if (!data || !selectedChartJoint || !data.rawSensorData) return [] as Array<'orientation'|'gyroscope'|'accelerometer'|'magnetometer'>
+    if (!data || !selectedChartJoint || !data.rawSensorData) return [] as Array<'orientation'|'gyroscope'|'accelerometer'|'magnetometer'|'joint-angle'>
     const entry = data.rawSensorData[selectedChartJoint]
     if (!entry) return []
-    const out: Array<'orientation'|'gyroscope'|'accelerometer'|'magnetometer'> = []
+    const out: Array<'orientation'|'gyroscope'|'accelerometer'|'magnetometer'|'joint-angle'> = []
     if (entry.orientation) out.push('orientation')
     if (entry.gyroscope) out.push('gyroscope')
     if (entry.accelerometer) out.push('accelerometer')
     if (entry.magnetometer) out.push('magnetometer')
+    if (chartJointAngle) out.push('joint-angle')
     return out
-  }, [data, selectedChartJoint])
+  }, [data, selectedChartJoint, chartJointAngle])
+
+  // Chunks (bufferedRanges) and live frames (liveVersion) fill `data` in place, so memos over
+  // its contents take both as inputs
+  const liveVersion = isLiveData ? live.version : undefined
 
   const chartSeries = useMemo(() => {
     if (!data || !selectedChartJoint || !selectedSignal) return null
+    if (selectedSignal === 'joint-angle') {
+      return chartJointAngle ? jointAngleSeries(data, chartJointAngle, { unit: angleUnit, unwrap: eulerUnwrap }) : null
+    }
     const entry = data.rawSensorData?.[selectedChartJoint]
     if (!entry) return null
     if (selectedSignal === 'orientation') return entry.orientation ?? null
@@ -262,7 +500,8 @@ export default function Page() {
     if (selectedSignal === 'accelerometer') return entry.accelerometer ?? null
     if (selectedSignal === 'magnetometer') return entry.magnetometer ?? null
     return null
-  }, [data, selectedChartJoint, selectedSignal])
+    // Joint angles are derived, so recompute as orientations fill in place
+  }, [data, selectedChartJoint, selectedSignal, chartJointAngle, angleUnit, eulerUnwrap, bufferedRanges, liveVersion])
 
   // Keep selectedSignal valid when selectedChartJoint changes
   useEffect(() => {
@@ -276,22 +515,90 @@ export default function Page() {
     else if (selectedSignal === 'gyroscope' && !entry.gyroscope) setSelectedSignal(null)
     else if (selectedSignal === 'accelerometer' && !entry.accelerometer) setSelectedSignal(null)
     else if (selectedSignal === 'magnetometer' && !entry.magnetometer) setSelectedSignal(null)
-  }, [data, selectedChartJoint])
-
-  const processedSeries = useMemo(() => {
-    if (!chartSeries) return null as number[][] | null
-    let s = chartSeries
-    const autoMode: NormalizeMode = selectedSignal === 'orientation' ? 'quaternion-unit' : 'none'
-    const modeToUse = normalizeMode === 'none' ? autoMode : normalizeMode
-    s = normalizeSeries(s, modeToUse)
-    s = movingAverageSmooth(s, smoothWindow)
-    return s
-  }, [chartSeries, normalizeMode, smoothWindow, selectedSignal])
-
-  const seriesStats = useMemo(() => {
-    if (!processedSeries) return null
-    return computeStats(processedSeries)
-  }, [processedSeries])
+    else if (selectedSignal === 'joint-angle' && !chartJointAngle) setSelectedSignal(null)
+  }, [data, selectedChartJoint, chartJointAngle])
+
+  // Gap report only while the quality panel is open; chart highlights for the charted series
+  const gapReport = useMemo(() => (showQuality && data ? analyzeGaps(data) : null),
+    [showQuality, data, bufferedRanges, liveVersion])
+  const gaitMarkers = useMemo(() => (gaitEvents ? gaitEventMarkers(gaitEvents) : undefined), [gaitEvents])
+  const gaitMetrics = useMemo(() => (gaitEvents && data ? computeGaitMetrics(gaitEvents, data.frameRate) : null), [gaitEvents, data?.frameRate])
+  // Joint angles are exactly 0 at the neutral frame, which is not a dropout
+  const chartGaps = useMemo(() => (chartSeries ? findSeriesGaps(chartSeries, { zeroDropouts: selectedSignal !== 'joint-angle' }) : undefined), [chartSeries, selectedSignal, bufferedRanges, liveVersion])
+
+  // Euler angles replace the quaternion as the analysed series (filter, stats, spectrum, export)
+  const isEulerView = selectedSignal === 'orientation' && orientationView === 'euler'
+  const eulerChartSeries = useMemo(() => (
+    isEulerView && chartSeries ? eulerSeries(chartSeries, { sequence: eulerSequence, unit: angleUnit, unwrap: eulerUnwrap }) : null
+  ), [isEulerView, chartSeries, eulerSequence, angleUnit, eulerUnwrap, bufferedRanges, liveVersion])
+  const chartAxisNames = isEulerView ? EULER_AXIS_NAMES : selectedSignal === 'joint-angle' ? JOINT_ANGLE_AXIS_NAMES : undefined
+
+  const centeringOffsets = useMemo(() => {
+    if (!data || centerMode === 'off') return null
+    return computeCenteringOffsets(data.frames, data.sensorNames, { anchor: centerMode, emaAlpha: centerAlpha, verticalLock: centerVerticalLock })
+  }, [data, centerMode, centerAlpha, centerVerticalLock, bufferedRanges, liveVersion])
+
+  // Butterworth settings for the dataset's frame rate; not applied while invalid (e.g. cutoff above Nyquist)
+  const filterSettings = useMemo<ButterworthFilter | null>(() => (
+    filterKind === 'none' ? null : { kind: filterKind, order: filterOrder, cutoffHz: filterCutoff, highCutoffHz: filterKind === 'bandpass' ? filterHighCutoff : undefined }
+  ), [filterKind, filterOrder, filterCutoff, filterHighCutoff])
+  const filterError = filterSettings && data ? validateFilter(filterSettings, data.frameRate) : null
+  const chartFilter = filterError ? null : filterSettings
+
+  // Filtering, normalization, smoothing and stats run in a worker so playback stays smooth
+  const { series: processedSeries, stats: seriesStats, isProcessing } = useProcessedSeries(isEulerView ? eulerChartSeries : chartSeries, {
+    normalizeMode: resolveNormalizeMode(normalizeMode, isEulerView ? null : selectedSignal),
+    smoothWindow,
+    filter: chartFilter,
+    frameRate: data?.frameRate,
+    bufferedRanges,
+    version: liveVersion,
+  })
+
+  // Welch PSD of the processed series: spectrum chart mode and the peak frequency next to the stats
+  const spectrum = useMemo(() => (processedSeries && data ? welchPsd(processedSeries, data.frameRate) : null), [processedSeries, data?.frameRate])
+
+  // Cycle view: the same signal on the contralateral joint (e.g. lower_leg_right for
+  // lower_leg_left), processed in its own worker only while this view is shown
+  const contralateralRawSeries = useMemo(() => {
+    if (chartMode !== 'cycle' || !data || !selectedChartJoint || !selectedSignal) return null
+    const joint = contralateralJoint(selectedChartJoint)
+    if (!joint) return null
+    if (selectedSignal === 'joint-angle') {
+      const def = jointAngleForSegment(data, joint)
+      return def ? jointAngleSeries(data, def, { unit: angleUnit, unwrap: eulerUnwrap }) : null
+    }
+    const series = data.rawSensorData?.[joint]?.[selectedSignal] ?? null
+    if (series && isEulerView) return eulerSeries(series, { sequence: eulerSequence, unit: angleUnit, unwrap: eulerUnwrap })
+    return series
+  }, [chartMode, data, selectedChartJoint, selectedSignal, isEulerView, eulerSequence, angleUnit, eulerUnwrap, bufferedRanges, liveVersion])
+  const { series: contralateralSeries, isProcessing: isContralateralProcessing } = useProcessedSeries(contralateralRawSeries, {
+    normalizeMode: resolveNormalizeMode(normalizeMode, isEulerView ? null : selectedSignal),
+    smoothWindow,
+    filter: chartFilter,
+    frameRate: data?.frameRate,
+    bufferedRanges,
+    version: liveVersion,
+  })
+
+  // Strides of each side cut at its heel strikes; a midline joint's series is cut for both sides
+  const cycleDims = processedSeries?.dims ?? 0
+  const gaitCycles = useMemo(() => {
+    if (chartMode !== 'cycle' || !gaitEvents || !processedSeries || !data || !selectedChartJoint) return null
+    const chartSide: GaitSide | null = selectedChartJoint.endsWith('_left') ? 'left' : selectedChartJoint.endsWith('_right') ? 'right' : null
+    const component = Math.min(cycleComponent, Math.max(0, cycleDims - 1))
+    const out: Partial<Record<GaitSide, GaitCycleSet>> = {}
+    for (const side of GAIT_SIDES) {
+      const series = chartSide === null || side === chartSide ? processedSeries : contralateralSeries
+      if (!series) continue
+      out[side] = normalizeGaitCycles(series, gaitEvents[side].heelStrike, component, { maxStrideFrames: MAX_STRIDE_TIME_S * data.frameRate })
+    }
+    return out
+  }, [chartMode, gaitEvents, processedSeries, contralateralSeries, data, selectedChartJoint, cycleComponent, cycleDims])
+  const cycleToeOff = useMemo(() => (gaitMetrics ? {
+    left: gaitMetrics.summary.stancePercent.left.mean,
+    right: gaitMetrics.summary.stancePercent.right.mean,
+  } : undefined), [gaitMetrics])
 
   // Sync chart frame when chart series changes (not on every displayFrame change!)
   useEffect(() => {
@@ -300,10 +607,10 @@ export default function Page() {
     }
   }, [chartSeries])
 
-  const currentFrameProgress = data ? ((displayFrame + 1) / data.numFrames) * 100 : 0
+  const currentFrameProgress = data && data.numFrames > 0 ? ((displayFrame + 1) / data.numFrames) * 100 : 0
   
   const visibleAxesForChart = useMemo(() => {
-    if (selectedSignal === 'orientation') {
+    if (selectedSignal === 'orientation' && !isEulerView) {
       return {
         w: orientationAxesVisible.w,
         x: sensorAxesVisible.x,
@@ -316,10 +623,47 @@ export default function Page() {
       y: sensorAxesVisible.y,
       z: sensorAxesVisible.z,
     }
-  }, [selectedSignal, sensorAxesVisible, orientationAxesVisible])
+  }, [selectedSignal, isEulerView, sensorAxesVisible, orientationAxesVisible])
 
   return (
-    <div className="relative h-screen w-screen overflow-hidden bg-slate-950 text-slate-100">
+    <div
+      className="relative h-screen w-screen overflow-hidden bg-slate-950 text-slate-100"
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return
+        e.preventDefault()
+        if (!isDraggingFile) setIsDraggingFile(true)
+      }}
+      onDragLeave={(e) => {
+        // Only clear when leaving the window, not when moving between children
+        if (e.relatedTarget === null) setIsDraggingFile(false)
+      }}
+      onDrop={(e) => {
+        e.preventDefault()
+        setIsDraggingFile(false)
+        handleOpenFiles(e.dataTransfer.files)
+      }}
+    >
+      {csvImportFiles && (
+        <CsvImportDialog
+          files={csvImportFiles}
+          onCancel={() => setCsvImportFiles(null)}
+          onImport={(built, label) => {
+            let prepared: LoadedDataset
+            try {
+              prepared = prepareDataset(built, label)
+            } catch (e: any) {
+              throw new Error(describeLoadError(e, 'Imported data failed validation'))
+            }
+            addSessionDataset(label, prepared.payload, prepared.report)
+            setCsvImportFiles(null)
+          }}
+        />
+      )}
+      {isDraggingFile && (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-slate-950/80 border-4 border-dashed border-blue-500 pointer-events-none">
+          <div className="text-lg text-slate-100">Drop a dataset file (.json, .h5, .pjds, .csv) to open it</div>
+        </div>
+      )}
       {/* Header Controls (overlay) */}
       <Card className="absolute top-2 left-2 right-2 md:top-4 md:left-4 md:right-4 bg-slate-900 border-slate-800 z-20">
         <CardHeader className="pb-2 md:pb-4">
@@ -336,13 +680,41 @@ export default function Page() {
                   <SelectValue placeholder="Select dataset" />
                 </SelectTrigger>
                 <SelectContent className="bg-slate-800 border-slate-700">
-                  {defaultDatasets.map(d => (
+                  {datasetOptions.map(d => (
                     <SelectItem key={d.id} value={d.id} className="text-slate-100 hover:bg-slate-700">
                       {d.label}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              <label className="w-full md:w-auto text-center text-xs md:text-sm text-slate-300 cursor-pointer">
+                <input
+                  type="file"
+                  accept={DATASET_FILE_ACCEPT}
+                  multiple
+                  className="hidden"
+                  onChange={async (e) => {
+                    const inputEl = e.currentTarget
+                    const files = inputEl?.files ? Array.from(inputEl.files) : []
+                    if (inputEl) inputEl.value = ''
+                    await handleOpenFiles(files)
+                  }}
+                />
+                <span className="block border border-slate-600 rounded px-3 py-2 hover:bg-slate-800 whitespace-nowrap">Open File</span>
+              </label>
+              <Button
+                variant="outline"
+                className="w-full md:w-auto border-slate-600 text-slate-300 hover:bg-slate-800 text-xs md:text-sm"
+                disabled={!data}
+                title="Download the current dataset in the compact binary format"
+                onClick={() => {
+                  if (!data) return
+                  const blob = new Blob([encodeBinaryDataset(data)], { type: 'application/octet-stream' })
+                  downloadBlob(blob, `${toFileStem(selectedDataset)}${BINARY_DATASET_EXTENSION}`)
+                }}
+              >
+                Save {BINARY_DATASET_EXTENSION}
+              </Button>
               <div className="flex items-center gap-2 md:gap-3 w-full md:w-[320px]">
                 <span className="text-xs md:text-sm text-slate-300 whitespace-nowrap">FPS</span>
                 <div className="flex-1">
@@ -367,6 +739,21 @@ export default function Page() {
                 />
               </div>
               <div className="flex gap-2 w-full md:w-auto">
+                <Button variant="outline" className="flex-1 md:flex-none border-slate-600 text-slate-300 hover:bg-slate-800 text-xs md:text-sm" onClick={() => setShowLibrary(v => !v)}>
+                  {showLibrary ? 'Hide Library' : 'Library'}
+                </Button>
+                <Button variant="outline" className="flex-1 md:flex-none border-slate-600 text-slate-300 hover:bg-slate-800 text-xs md:text-sm" onClick={() => setShowLive(v => !v)}>
+                  {showLive ? 'Hide Live' : 'Live'}
+                </Button>
+                <Button variant="outline" className="flex-1 md:flex-none border-slate-600 text-slate-300 hover:bg-slate-800 text-xs md:text-sm" disabled={!data || isStreaming} onClick={() => setShowExport(v => !v)}>
+                  {showExport ? 'Hide Export' : 'Export'}
+                </Button>
+                <Button variant="outline" className="flex-1 md:flex-none border-slate-600 text-slate-300 hover:bg-slate-800 text-xs md:text-sm" disabled={!data} onClick={() => setShowQuality(v => !v)}>
+                  {showQuality ? 'Hide Quality' : 'Quality'}
+                </Button>
+                <Button variant="outline" className="flex-1 md:flex-none border-slate-600 text-slate-300 hover:bg-slate-800 text-xs md:text-sm" disabled={!data || isStreaming} onClick={() => setShowGait(v => !v)}>
+                  {showGait ? 'Hide Gait' : 'Gait'}
+                </Button>
                 <Button variant="outline" className="flex-1 md:flex-none border-slate-600 text-slate-300 hover:bg-slate-800 text-xs md:text-sm" onClick={() => setShowControls(v => !v)}>
                   {showControls ? 'Hide Controls' : 'Show Controls'}
                 </Button>
@@ -378,13 +765,94 @@ export default function Page() {
           </div>
         </CardHeader>
 
+        {showLibrary && (
+          <CardContent className="pt-0">
+            <DatasetLibrary
+              entries={datasetOptions}
+              summaries={datasetSummaries}
+              selectedId={selectedDataset}
+              onSelect={(id) => setSelectedDataset(id)}
+            />
+          </CardContent>
+        )}
+
+        {showLive && (
+          <CardContent className="pt-0">
+            <LiveStreamPanel
+              status={live.status}
+              error={live.error}
+              stats={live.stats}
+              onConnect={live.connect}
+              onDisconnect={live.disconnect}
+              isRecording={live.isRecording}
+              recordingProgress={live.recordingProgress}
+              lastRecording={live.lastRecording}
+              onStartRecording={live.startRecording}
+              onStopRecording={live.stopRecording}
+            />
+          </CardContent>
+        )}
+
+        {showExport && data && !isStreaming && (
+          <CardContent className="pt-0">
+            <ExportPanel
+              data={data}
+              calibration={calibration}
+              datasetId={selectedDataset}
+              datasetLabel={datasetOptions.find(d => d.id === selectedDataset)?.label ?? selectedDataset}
+              currentFrame={displayFrame}
+              onAddToSession={(payload, label) => addSessionDataset(label, payload)}
+            />
+          </CardContent>
+        )}
+
+        {showQuality && data && gapReport && (
+          <CardContent className="pt-0">
+            <DataQualityPanel
+              data={data}
+              report={gapReport}
+              datasetLabel={datasetOptions.find(d => d.id === selectedDataset)?.label ?? (selectedDataset || 'Live window')}
+              canRepair={!isStreaming && !bufferedRanges}
+              onSeek={seekTo}
+              onSelectSignal={(joint, signal) => {
+                setSelectedChartJoint(joint)
+                setSelectedSignal(signal)
+                setShowChart(true)
+              }}
+              onAddToSession={(payload, label) => addSessionDataset(label, payload)}
+            />
+          </CardContent>
+        )}
+
+        {showGait && data && !isStreaming && (
+          <CardContent className="pt-0">
+            <GaitPanel
+              data={data}
+              events={gaitEvents}
+              onChange={setGaitEvents}
+              currentFrame={displayFrame}
+              onSeek={seekTo}
+            />
+            {gaitMetrics && (
+              <div className="mt-3">
+                <GaitMetricsPanel
+                  report={gaitMetrics}
+                  datasetLabel={datasetOptions.find(d => d.id === selectedDataset)?.label ?? (selectedDataset || 'Live window')}
+                  frameRate={data.frameRate}
+                  onSeek={seekTo}
+                />
+              </div>
+            )}
+          </CardContent>
+        )}
+
         {showControls && (
         <CardContent className="space-y-4 md:space-y-6">
           {/* Playback Controls */}
           <div className="flex flex-col md:flex-row items-center gap-2 md:gap-4">
             <Button
               onClick={() => setIsPlaying(p => !p)}
-              disabled={!data}
+              disabled={!data || isStreaming}
               className="bg-blue-600 hover:bg-blue-700"
             >
               {isPlaying ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
@@ -397,7 +865,7 @@ export default function Page() {
                 setSeekFrame(0)
                 setIsPlaying(true)
               }}
-              disabled={!data}
+              disabled={!data || isStreaming}
               variant="outline"
               className="border-slate-600 text-slate-300 hover:bg-slate-800"
             >
@@ -415,17 +883,43 @@ export default function Page() {
                   value={[displayFrame]}
                   onValueChange={handleSliderChange}
                   onValueCommit={handleSliderCommit}
-                  max={data.numFrames - 1}
+                  max={Math.max(0, data.numFrames - 1)}
                   step={1}
+                  disabled={isStreaming}
                   className="w-full"
                 />
+                {gaitMarkers && gaitMarkers.length > 0 && (
+                  <div className="relative h-2 mt-2" title="Gait events: heel strike (full), toe off (half height)">
+                    {gaitMarkers.map(e => (
+                      <div
+                        key={`${e.side}-${e.kind}-${e.frame}`}
+                        className={`absolute w-px ${e.kind === 'heelStrike' ? 'inset-y-0' : 'bottom-0 h-1/2'}`}
+                        style={{ left: `${(e.frame / Math.max(1, data.numFrames - 1)) * 100}%`, backgroundColor: GAIT_SIDE_COLORS[e.side] }}
+                      />
+                    ))}
+                  </div>
+                )}
+                {bufferedRanges && (
+                  <div className="relative h-1 mt-2 bg-slate-800 rounded" title="Loaded ranges">
+                    {bufferedRanges.map(([a, b]) => (
+                      <div
+                        key={a}
+                        className="absolute inset-y-0 bg-blue-500/70 rounded"
+                        style={{ left: `${(a / data.numFrames) * 100}%`, width: `${((b - a) / data.numFrames) * 100}%` }}
+                      />
+                    ))}
+                  </div>
+                )}
               </div>
             )}
           </div>
 
           {/* Analytics / Processing */}
           <div className="space-y-3">
-            <h3 className="text-sm font-medium text-slate-300">Analytics</h3>
+            <h3 className="text-sm font-medium text-slate-300 flex items-center gap-2">
+              Analytics
+              {isProcessing && <Loader2 className="w-3 h-3 animate-spin text-slate-500" />}
+            </h3>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-2 md:gap-4">
               <div className="flex items-center gap-3">
                 <span className="text-sm text-slate-300 whitespace-nowrap">Normalize</span>
@@ -473,6 +967,46 @@ export default function Page() {
               </div>
             </div>
 
+            <div className="flex flex-wrap items-center gap-2 md:gap-3">
+              <span className="text-sm text-slate-300 whitespace-nowrap">Filter</span>
+              <Select value={filterKind} onValueChange={(v) => setFilterKind(v as 'none' | FilterKind)}>
+                <SelectTrigger className="w-36 bg-slate-800 border-slate-700 text-slate-100">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  <SelectItem value="none" className="text-slate-100 hover:bg-slate-700">Off</SelectItem>
+                  <SelectItem value="lowpass" className="text-slate-100 hover:bg-slate-700">Low-pass</SelectItem>
+                  <SelectItem value="highpass" className="text-slate-100 hover:bg-slate-700">High-pass</SelectItem>
+                  <SelectItem value="bandpass" className="text-slate-100 hover:bg-slate-700">Band-pass</SelectItem>
+                </SelectContent>
+              </Select>
+              {filterKind !== 'none' && (
+                <>
+                  <label className="text-xs text-slate-400">Order</label>
+                  <input type="number" min={1} max={8} value={filterOrder}
+                    onChange={(e) => setFilterOrder(Math.min(8, Math.max(1, Math.round(Number(e.target.value)) || 1)))}
+                    className="w-14 bg-slate-800 border border-slate-700 text-slate-100 rounded px-2 py-1 text-xs md:text-sm" />
+                  <label className="text-xs text-slate-400">{filterKind === 'bandpass' ? 'Band (Hz)' : 'Cutoff (Hz)'}</label>
+                  <input type="number" min={0.01} step="any" value={filterCutoff}
+                    onChange={(e) => setFilterCutoff(Math.max(0.01, Number(e.target.value) || 0.01))}
+                    className="w-20 bg-slate-800 border border-slate-700 text-slate-100 rounded px-2 py-1 text-xs md:text-sm" />
+                  {filterKind === 'bandpass' && (
+                    <>
+                      <span className="text-xs text-slate-400">to</span>
+                      <input type="number" min={0.01} step="any" value={filterHighCutoff}
+                        onChange={(e) => setFilterHighCutoff(Math.max(0.01, Number(e.target.value) || 0.01))}
+                        className="w-20 bg-slate-800 border border-slate-700 text-slate-100 rounded px-2 py-1 text-xs md:text-sm" />
+                    </>
+                  )}
+                  {data && (
+                    <span className={`text-xs ${filterError ? 'text-red-400' : 'text-slate-500'}`}>
+                      {filterError ?? `${(filterCutoff / data.frameRate).toFixed(3)}${filterKind === 'bandpass' ? `–${(filterHighCutoff / data.frameRate).toFixed(3)}` : ''} × frame rate (${data.frameRate} Hz, Nyquist ${data.frameRate / 2} Hz) · zero-phase`}
+                    </span>
+                  )}
+                </>
+              )}
+            </div>
+
             {seriesStats && (
               <div className="text-xs text-slate-400 grid grid-cols-1 md:grid-cols-2 gap-2">
                 <div>
@@ -483,8 +1017,73 @@ export default function Page() {
                   <div>Mean: {seriesStats.mean.map(v => v.toFixed(3)).join(', ')}</div>
                   <div>Std: {seriesStats.std.map(v => v.toFixed(3)).join(', ')}</div>
                 </div>
+                {spectrum && (
+                  <div>
+                    Peak frequency: {spectrum.peakHz.map(v => (Number.isFinite(v) ? v.toFixed(2) : '–')).join(', ')} Hz
+                    <span className="text-slate-500"> (Welch, {spectrum.segmentLength}-sample segments, resolution {spectrum.frequencies[1].toFixed(2)} Hz)</span>
+                  </div>
+                )}
               </div>
             )}
+
+            {data && (
+              <SeriesExportControls
+                data={data}
+                datasetId={selectedDataset}
+                joint={selectedChartJoint}
+                signal={selectedSignal}
+                processedSeries={processedSeries}
+                stats={seriesStats}
+                isProcessing={isProcessing}
+                normalizeMode={normalizeMode}
+                smoothWindow={smoothWindow}
+                filter={chartFilter}
+                channel={isEulerView ? { name: `euler_${eulerSequence.toLowerCase()}_${angleUnit}`, components: EULER_COMPONENTS }
+                  : selectedSignal === 'joint-angle' && chartJointAngle ? { joint: chartJointAngle.name, name: `angle_${angleUnit}`, components: JOINT_ANGLE_COMPONENTS }
+                  : null}
+              />
+            )}
+          </div>
+
+          {/* View centering */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-slate-300">Centering</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 md:gap-4">
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-slate-300 whitespace-nowrap">Anchor</span>
+                <Select value={centerMode} onValueChange={(v) => setCenterMode(v as 'off' | CenterAnchor)} disabled={!data}>
+                  <SelectTrigger className="w-full md:w-48 bg-slate-800 border-slate-700 text-slate-100">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    <SelectItem value="off" className="text-slate-100 hover:bg-slate-700">As stored</SelectItem>
+                    <SelectItem value="lumbar" className="text-slate-100 hover:bg-slate-700">Lumbar</SelectItem>
+                    <SelectItem value="bbox" className="text-slate-100 hover:bg-slate-700">Bounding box</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-slate-300 whitespace-nowrap">EMA alpha</span>
+                <div className="flex-1">
+                  <Slider
+                    value={[centerAlpha]}
+                    onValueChange={(vals) => setCenterAlpha(Math.min(1, Math.max(0.01, vals[0])))}
+                    min={0.01}
+                    max={1}
+                    step={0.01}
+                    disabled={centerMode === 'off'}
+                  />
+                </div>
+                <div className="w-10 text-right text-xs text-slate-300">{centerAlpha.toFixed(2)}</div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox id="opt-vertical-lock" checked={centerVerticalLock} disabled={centerMode === 'off'}
+                  onCheckedChange={(c) => setCenterVerticalLock(c === true)} />
+                <label htmlFor="opt-vertical-lock" className="text-xs text-slate-300 cursor-pointer">Vertical lock (ground from first frame)</label>
+              </div>
+            </div>
           </div>
 
           {/* Calibration */}
@@ -690,14 +1289,41 @@ export default function Page() {
                 <AlertCircle className="w-5 h-5 text-red-400 mt-0.5 flex-shrink-0" />
                 <div>
                   <h3 className="font-medium text-red-100">Error Loading Dataset</h3>
-                  <p className="text-red-300 mt-1">{error}</p>
-                  <p className="text-red-400 text-sm mt-2">
-                    Make sure you have exported the data from the H5 files:
-                  </p>
-                  <code className="block bg-red-900/50 p-2 rounded text-xs mt-2 font-mono">
-                    python export_web_dataset.py --input speed6kmh/... --output web/public/datasets/speed6kmh.json
-                  </code>
+                  <p className="text-red-300 mt-1 whitespace-pre-line">{error}</p>
+                  {!errorIsValidation && (
+                    <>
+                      <p className="text-red-400 text-sm mt-2">
+                        Make sure you have exported the data from the H5 files:
+                      </p>
+                      <code className="block bg-red-900/50 p-2 rounded text-xs mt-2 font-mono">
+                        python export_web_dataset.py --input speed6kmh/... --output web/public/datasets/speed6kmh.json
+                      </code>
+                    </>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Non-fatal validation findings for the loaded dataset */}
+        {!error && datasetWarnings.length > 0 && (
+          <Card className="absolute top-4 left-4 right-4 bg-yellow-950 border-yellow-800 text-yellow-100 z-10">
+            <CardContent className="pt-4">
+              <div className="flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-yellow-400 mt-0.5 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-medium text-yellow-100">Dataset Warnings</h3>
+                  <ul className="text-yellow-300 mt-1 text-sm list-disc pl-4">
+                    {datasetWarnings.slice(0, MAX_LISTED_ISSUES).map((w, i) => (
+                      <li key={i}>{formatValidationIssue(w)}</li>
+                    ))}
+                    {datasetWarnings.length > MAX_LISTED_ISSUES && <li>…and {datasetWarnings.length - MAX_LISTED_ISSUES} more</li>}
+                  </ul>
                 </div>
+                <Button size="sm" variant="ghost" className="text-yellow-200" onClick={() => setDatasetWarnings([])}>
+                  Dismiss
+                </Button>
               </div>
             </CardContent>
           </Card>
@@ -771,6 +1397,9 @@ export default function Page() {
               setCalibration(prev => ({ ...prev, [joint]: { ...(prev[joint]||{}), positionOffset: offset } }))
             }}
             onSelectJoint={(joint) => setSelectedJoint(joint)}
+            bufferedRanges={bufferedRanges}
+            dataVersion={liveVersion}
+            frameOffsets={centeringOffsets}
           />
           </ErrorBoundary>
         ) : !isLoading && !error ? (
@@ -787,7 +1416,9 @@ export default function Page() {
               <div className="text-center md:text-left">
                 <CardTitle className="text-lg md:text-xl text-slate-100">Sensor Data Chart</CardTitle>
                 <CardDescription className="text-xs md:text-sm text-slate-400">
-                  View raw sensor streams over time, synced with playback.
+                  {chartMode === 'spectrum' ? 'Frequency content of the processed signal (Welch PSD).'
+                    : chartMode === 'cycle' ? 'Processed signal over the gait cycle (heel strike to heel strike), mean ± SD per side.'
+                    : 'View raw sensor streams over time, synced with playback.'}
                 </CardDescription>
               </div>
               <div className="flex flex-col md:flex-row items-center gap-2 md:gap-4">
@@ -819,15 +1450,57 @@ export default function Page() {
                   <SelectContent className="bg-slate-800 border-slate-700">
                     {chartableSignals.map(sig => (
                       <SelectItem key={sig} value={sig} className="text-slate-100 hover:bg-slate-700 capitalize">
-                        {sig}
+                        {sig === 'joint-angle' && chartJointAngle ? `${chartJointAngle.label} angle` : sig}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
 
+                <Select value={chartMode} onValueChange={(v) => setChartMode(v as 'time' | 'spectrum' | 'cycle')}>
+                  <SelectTrigger className="w-full md:w-32 bg-slate-800 border-slate-700 text-slate-100">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    <SelectItem value="time" className="text-slate-100 hover:bg-slate-700">Time</SelectItem>
+                    <SelectItem value="spectrum" className="text-slate-100 hover:bg-slate-700">Spectrum</SelectItem>
+                    <SelectItem value="cycle" className="text-slate-100 hover:bg-slate-700">Gait cycle</SelectItem>
+                  </SelectContent>
+                </Select>
+                {chartMode === 'cycle' && (
+                  <>
+                    <Select value={String(Math.min(cycleComponent, Math.max(0, cycleDims - 1)))} onValueChange={(v) => setCycleComponent(Number(v))} disabled={cycleDims === 0}>
+                      <SelectTrigger className="w-full md:w-36 bg-slate-800 border-slate-700 text-slate-100">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 border-slate-700">
+                        {(cycleDims === 4 ? ['w', 'x', 'y', 'z'] as const : ['x', 'y', 'z'] as const).slice(0, cycleDims).map((key, d) => (
+                          <SelectItem key={key} value={String(d)} className="text-slate-100 hover:bg-slate-700">
+                            {chartAxisNames?.[key as 'x' | 'y' | 'z'] ?? key.toUpperCase()}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox id="cycle-strides" checked={showCycleStrides} onCheckedChange={(c) => setShowCycleStrides(c === true)} />
+                      <label htmlFor="cycle-strides" className="text-xs text-slate-300 cursor-pointer">Strides</label>
+                    </div>
+                  </>
+                )}
+                {chartMode === 'spectrum' && (
+                  <Select value={spectrumScale} onValueChange={(v) => setSpectrumScale(v as SpectrumScale)}>
+                    <SelectTrigger className="w-full md:w-36 bg-slate-800 border-slate-700 text-slate-100">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      <SelectItem value="magnitude" className="text-slate-100 hover:bg-slate-700">Magnitude (√PSD)</SelectItem>
+                      <SelectItem value="power" className="text-slate-100 hover:bg-slate-700">Power (PSD)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+
                 {/* Axes toggles: show W when orientation selected */}
                 <div className="flex md:hidden items-center gap-2 flex-wrap">
-                  {selectedSignal === 'orientation' && (
+                  {selectedSignal === 'orientation' && !isEulerView && (
                     <div className="flex items-center space-x-2">
                       <Checkbox id="hdr-sensor-w-mobile" checked={orientationAxesVisible.w} onCheckedChange={(c) => setOrientationAxesVisible(v => ({ ...v, w: c === true }))} />
                       <label htmlFor="hdr-sensor-w-mobile" className="text-xs text-slate-300 cursor-pointer">W</label>
@@ -835,20 +1508,20 @@ export default function Page() {
                   )}
                   <div className="flex items-center space-x-2">
                     <Checkbox id="hdr-sensor-x-mobile" checked={sensorAxesVisible.x} onCheckedChange={(c) => setSensorAxesVisible(v => ({ ...v, x: c === true }))} />
-                    <label htmlFor="hdr-sensor-x-mobile" className="text-xs text-slate-300 cursor-pointer">X</label>
+                    <label htmlFor="hdr-sensor-x-mobile" className="text-xs text-slate-300 cursor-pointer">{chartAxisNames?.x ?? 'X'}</label>
                   </div>
                   <div className="flex items-center space-x-2">
                     <Checkbox id="hdr-sensor-y-mobile" checked={sensorAxesVisible.y} onCheckedChange={(c) => setSensorAxesVisible(v => ({ ...v, y: c === true }))} />
-                    <label htmlFor="hdr-sensor-y-mobile" className="text-xs text-slate-300 cursor-pointer">Y</label>
+                    <label htmlFor="hdr-sensor-y-mobile" className="text-xs text-slate-300 cursor-pointer">{chartAxisNames?.y ?? 'Y'}</label>
                   </div>
                   <div className="flex items-center space-x-2">
                     <Checkbox id="hdr-sensor-z-mobile" checked={sensorAxesVisible.z} onCheckedChange={(c) => setSensorAxesVisible(v => ({ ...v, z: c === true }))} />
-                    <label htmlFor="hdr-sensor-z-mobile" className="text-xs text-slate-300 cursor-pointer">Z</label>
+                    <label htmlFor="hdr-sensor-z-mobile" className="text-xs text-slate-300 cursor-pointer">{chartAxisNames?.z ?? 'Z'}</label>
                   </div>
                 </div>
                 {/* Desktop axes toggles */}
                 <div className="hidden md:flex items-center gap-2">
-                  {selectedSignal === 'orientation' && (
+                  {selectedSignal === 'orientation' && !isEulerView && (
                     <div className="flex items-center space-x-2">
                       <Checkbox id="hdr-sensor-w" checked={orientationAxesVisible.w} onCheckedChange={(c) => setOrientationAxesVisible(v => ({ ...v, w: c === true }))} />
                       <label htmlFor="hdr-sensor-w" className="text-xs text-slate-300 cursor-pointer">W</label>
@@ -856,30 +1529,109 @@ export default function Page() {
                   )}
                   <div className="flex items-center space-x-2">
                     <Checkbox id="hdr-sensor-x" checked={sensorAxesVisible.x} onCheckedChange={(c) => setSensorAxesVisible(v => ({ ...v, x: c === true }))} />
-                    <label htmlFor="hdr-sensor-x" className="text-xs text-slate-300 cursor-pointer">X</label>
+                    <label htmlFor="hdr-sensor-x" className="text-xs text-slate-300 cursor-pointer">{chartAxisNames?.x ?? 'X'}</label>
                   </div>
                   <div className="flex items-center space-x-2">
                     <Checkbox id="hdr-sensor-y" checked={sensorAxesVisible.y} onCheckedChange={(c) => setSensorAxesVisible(v => ({ ...v, y: c === true }))} />
-                    <label htmlFor="hdr-sensor-y" className="text-xs text-slate-300 cursor-pointer">Y</label>
+                    <label htmlFor="hdr-sensor-y" className="text-xs text-slate-300 cursor-pointer">{chartAxisNames?.y ?? 'Y'}</label>
                   </div>
                   <div className="flex items-center space-x-2">
                     <Checkbox id="hdr-sensor-z" checked={sensorAxesVisible.z} onCheckedChange={(c) => setSensorAxesVisible(v => ({ ...v, z: c === true }))} />
-                    <label htmlFor="hdr-sensor-z" className="text-xs text-slate-300 cursor-pointer">Z</label>
+                    <label htmlFor="hdr-sensor-z" className="text-xs text-slate-300 cursor-pointer">{chartAxisNames?.z ?? 'Z'}</label>
                   </div>
                 </div>
               </div>
             </div>
           </CardHeader>
           <CardContent>
-            {processedSeries && selectedSignal ? (
+            {(selectedSignal === 'orientation' || selectedSignal === 'joint-angle') && (
+              <div className="flex flex-wrap items-center gap-2 mb-2 text-xs text-slate-300">
+                {selectedSignal === 'orientation' && (
+                <Select value={orientationView} onValueChange={(v) => setOrientationView(v as 'quaternion' | 'euler')}>
+                  <SelectTrigger className="w-32 h-8 bg-slate-800 border-slate-700 text-slate-100 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    <SelectItem value="quaternion" className="text-slate-100 hover:bg-slate-700">Quaternion</SelectItem>
+                    <SelectItem value="euler" className="text-slate-100 hover:bg-slate-700">Euler angles</SelectItem>
+                  </SelectContent>
+                </Select>
+                )}
+                {isEulerView && (
+                  <Select value={eulerSequence} onValueChange={(v) => setEulerSequence(v as EulerSequence)}>
+                    <SelectTrigger className="w-24 h-8 bg-slate-800 border-slate-700 text-slate-100 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      {EULER_SEQUENCES.map(seq => (
+                        <SelectItem key={seq} value={seq} className="text-slate-100 hover:bg-slate-700">{seq}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {(isEulerView || selectedSignal === 'joint-angle') && (
+                  <>
+                    <Select value={angleUnit} onValueChange={(v) => setAngleUnit(v as AngleUnit)}>
+                      <SelectTrigger className="w-24 h-8 bg-slate-800 border-slate-700 text-slate-100 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 border-slate-700">
+                        <SelectItem value="deg" className="text-slate-100 hover:bg-slate-700">Degrees</SelectItem>
+                        <SelectItem value="rad" className="text-slate-100 hover:bg-slate-700">Radians</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox id="euler-unwrap" checked={eulerUnwrap} onCheckedChange={(c) => setEulerUnwrap(c === true)} />
+                      <label htmlFor="euler-unwrap" className="cursor-pointer">Unwrap</label>
+                    </div>
+                  </>
+                )}
+                {isEulerView && (
+                  <span className="text-slate-500">Intrinsic {eulerSequence.split('').join('→')}; angles near ±90° on the middle axis are ill-defined (gimbal lock).</span>
+                )}
+                {selectedSignal === 'joint-angle' && chartJointAngle && (
+                  <span className="text-slate-500">
+                    {chartJointAngle.label}: {chartJointAngle.child.replace(/_/g, ' ')} relative to {chartJointAngle.parent.replace(/_/g, ' ')}, zero at the first frame.
+                  </span>
+                )}
+              </div>
+            )}
+            {processedSeries && selectedSignal && chartMode === 'cycle' && (isProcessing || isContralateralProcessing) ? (
+              <div className="flex items-center justify-center h-[200px] text-slate-500 bg-slate-800/50 rounded-md">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" /> Processing strides…
+              </div>
+            ) : processedSeries && selectedSignal && chartMode === 'cycle' ? (
+              <GaitCycleChart
+                cycles={gaitCycles ?? {}}
+                toeOffPercent={cycleToeOff}
+                showStrides={showCycleStrides}
+                showGrid={showGrid}
+                showLegend={showLegend}
+              />
+            ) : processedSeries && selectedSignal && chartMode === 'spectrum' ? (
+              <SpectrumChart
+                spectrum={spectrum}
+                scale={spectrumScale}
+                visibleAxes={visibleAxesForChart}
+                axisNames={chartAxisNames}
+                showGrid={showGrid}
+                showLegend={showLegend}
+              />
+            ) : processedSeries && selectedSignal ? (
               <SensorChart
                 ref={chartRef}
                 series={processedSeries}
+                dataVersion={liveVersion}
                 frameRate={data.frameRate}
+                timeOffset={isLiveData ? live.windowStartTime : 0}
+                followLatest={isStreaming}
                 visibleAxes={visibleAxesForChart as any}
+                axisNames={chartAxisNames}
                 showGrid={showGrid}
                 showLegend={showLegend}
                 showDots={showDots}
+                gaps={chartGaps}
+                events={gaitMarkers}
               />
             ) : (
               <div className="flex items-center justify-center h-[200px] text-slate-500 bg-slate-800/50 rounded-md">
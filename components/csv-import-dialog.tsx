@@ -0,0 +1,177 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { SIGNAL_COMPONENTS, SIGNAL_NAMES, type DatasetPayload, type SignalName } from '@/lib/dataset'
+import {
+  buildDatasetFromCsv,
+  createCsvSource,
+  estimateSampleRate,
+  type CsvSensorSource,
+  type CsvTimeUnit,
+} from '@/lib/csv-import'
+import { SENSOR_NAMES } from '@/lib/skeleton-constants'
+
+interface CsvImportDialogProps {
+  files: File[]
+  /** Receives the built payload; may throw (e.g. validation) to keep the dialog open with the error */
+  onImport: (payload: DatasetPayload, label: string) => void
+  onCancel: () => void
+}
+
+const nativeSelect = 'bg-slate-800 border border-slate-700 text-slate-100 rounded px-1 py-0.5 text-xs'
+
+/**
+ * Column-mapping dialog for per-sensor CSV files: assign each file to a joint, check the
+ * guessed timestamp and signal columns, choose the output frame rate, then import.
+ */
+export function CsvImportDialog({ files, onImport, onCancel }: CsvImportDialogProps) {
+  const [sources, setSources] = useState<CsvSensorSource[]>([])
+  const [parseErrors, setParseErrors] = useState<string[]>([])
+  const [isParsing, setIsParsing] = useState(true)
+  const [frameRate, setFrameRate] = useState<string>('')
+  const [importError, setImportError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsParsing(true)
+    Promise.all(files.map(async file => {
+      try {
+        return { source: createCsvSource(file.name, await file.text()) }
+      } catch (e: any) {
+        return { error: `${file.name}: ${e?.message || 'could not read CSV'}` }
+      }
+    })).then(results => {
+      if (cancelled) return
+      setSources(results.flatMap(r => r.source ? [r.source] : []))
+      setParseErrors(results.flatMap(r => r.error ? [r.error] : []))
+      setIsParsing(false)
+    })
+    return () => { cancelled = true }
+  }, [files])
+
+  const rates = useMemo(() => sources.map(s => estimateSampleRate(s)), [sources])
+
+  const update = (index: number, change: (s: CsvSensorSource) => CsvSensorSource) => {
+    setImportError(null)
+    setSources(prev => prev.map((s, i) => (i === index ? change(s) : s)))
+  }
+
+  const setSignalColumn = (index: number, signal: SignalName, component: number, column: number) => {
+    update(index, s => {
+      const columns = [...(s.mapping.signals[signal] ?? SIGNAL_COMPONENTS[signal].map(() => -1))]
+      columns[component] = column
+      return { ...s, mapping: { ...s.mapping, signals: { ...s.mapping.signals, [signal]: columns } } }
+    })
+  }
+
+  const handleImport = () => {
+    setImportError(null)
+    try {
+      const rate = Number(frameRate)
+      const payload = buildDatasetFromCsv(sources, { frameRate: frameRate && rate > 0 ? rate : undefined })
+      const label = sources.length === 1 ? sources[0].fileName.replace(/\.[^.]+$/, '') : `CSV import (${sources.filter(s => s.joint).length} sensors)`
+      onImport(payload, label)
+    } catch (e: any) {
+      console.error('CSV import failed:', e)
+      setImportError(e?.message || 'CSV import failed')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 p-4">
+      <Card className="w-full max-w-5xl max-h-full overflow-auto bg-slate-900 border-slate-700 text-slate-100">
+        <CardHeader>
+          <CardTitle>Import CSV sensor data</CardTitle>
+          <CardDescription className="text-slate-400">
+            One file per sensor. Assign each file to a joint and check the column mapping; all sensors are
+            resampled onto a common frame clock over the time span they share.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          {isParsing && (
+            <div className="flex items-center gap-2 text-slate-400"><Loader2 className="w-4 h-4 animate-spin" /> Reading files…</div>
+          )}
+          {parseErrors.length > 0 && <div className="text-red-400 whitespace-pre-line">{parseErrors.join('\n')}</div>}
+
+          {sources.map((source, index) => {
+            const columnOptions = source.table.headers.map((h, c) => <option key={c} value={c}>{h}</option>)
+            return (
+              <div key={source.fileName} className="border border-slate-700 rounded p-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="font-medium">{source.fileName}</span>
+                  <span className="text-slate-500">
+                    {source.table.rowCount} rows{Number.isFinite(rates[index]) ? ` · ${rates[index].toFixed(1)} Hz` : ''}
+                  </span>
+                  <label className="flex items-center gap-1">
+                    Joint
+                    <select className={nativeSelect} value={source.joint ?? ''}
+                      onChange={(e) => update(index, s => ({ ...s, joint: e.target.value || null }))}>
+                      <option value="">(skip file)</option>
+                      {SENSOR_NAMES.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1">
+                    Time
+                    <select className={nativeSelect} value={source.mapping.time ?? -1}
+                      onChange={(e) => {
+                        const c = Number(e.target.value)
+                        update(index, s => ({ ...s, mapping: { ...s.mapping, time: c >= 0 ? c : null } }))
+                      }}>
+                      <option value={-1}>(none: 128 Hz)</option>
+                      {columnOptions}
+                    </select>
+                    <select className={nativeSelect} value={source.mapping.timeUnit} disabled={source.mapping.time === null}
+                      onChange={(e) => update(index, s => ({ ...s, mapping: { ...s.mapping, timeUnit: e.target.value as CsvTimeUnit } }))}>
+                      <option value="s">s</option>
+                      <option value="ms">ms</option>
+                      <option value="us">µs</option>
+                    </select>
+                  </label>
+                </div>
+                <table className="text-xs">
+                  <tbody>
+                    {SIGNAL_NAMES.map(signal => (
+                      <tr key={signal}>
+                        <td className="pr-3 py-0.5 text-slate-400 capitalize">{signal}</td>
+                        {SIGNAL_COMPONENTS[signal].map((component, k) => (
+                          <td key={component} className="pr-2 py-0.5">
+                            <span className="text-slate-500 mr-1">{component}</span>
+                            <select className={nativeSelect} value={source.mapping.signals[signal]?.[k] ?? -1}
+                              onChange={(e) => setSignalColumn(index, signal, k, Number(e.target.value))}>
+                              <option value={-1}>—</option>
+                              {columnOptions}
+                            </select>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )
+          })}
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2">
+              Output frame rate (Hz)
+              <input type="number" min={1} value={frameRate} placeholder="auto"
+                onChange={(e) => setFrameRate(e.target.value)}
+                className="w-24 bg-slate-800 border border-slate-700 text-slate-100 rounded px-2 py-1" />
+            </label>
+            <div className="flex-1" />
+            <Button variant="ghost" className="border border-slate-600 text-slate-300 hover:bg-slate-800" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button className="bg-blue-600 hover:bg-blue-700" disabled={isParsing || sources.length === 0} onClick={handleImport}>
+              Import
+            </Button>
+          </div>
+          {importError && <div className="text-red-400 whitespace-pre-line">{importError}</div>}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
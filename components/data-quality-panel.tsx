@@ -0,0 +1,122 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { DatasetPayload, SignalName } from '@/lib/dataset'
+import { repairGaps, type GapFillMethod, type GapReport, type GapRepairResult } from '@/lib/gaps'
+
+interface DataQualityPanelProps {
+  data: DatasetPayload
+  report: GapReport
+  datasetLabel: string
+  /** Repair is disabled while the data is still changing (live stream) */
+  canRepair: boolean
+  onSeek: (frame: number) => void
+  onSelectSignal: (joint: string, signal: SignalName) => void
+  /** Register the repaired copy as a session dataset */
+  onAddToSession: (payload: DatasetPayload, label: string) => void
+}
+
+const inputClass = 'w-20 bg-slate-800 border border-slate-700 text-slate-100 rounded px-2 py-1 text-sm'
+const buttonClass = 'border border-slate-600 text-slate-300 hover:bg-slate-800'
+// Runs listed per channel before collapsing into "+N more"
+const MAX_LISTED_RUNS = 6
+
+/**
+ * Gap report (missing and all-zero samples per joint and signal) with repair by interpolation.
+ * Frame numbers are 1-based like the timeline.
+ */
+export function DataQualityPanel({ data, report, datasetLabel, canRepair, onSeek, onSelectSignal, onAddToSession }: DataQualityPanelProps) {
+  const [method, setMethod] = useState<GapFillMethod>('linear')
+  const [maxGap, setMaxGap] = useState(10)
+  const [lastRepair, setLastRepair] = useState<Omit<GapRepairResult, 'payload'> | null>(null)
+
+  const totalSamples = report.entries.reduce((n, e) => n + e.samples, 0)
+
+  const repair = () => {
+    const { payload, ...counts } = repairGaps(data, { method, maxGap })
+    setLastRepair(counts)
+    if (counts.filledRuns > 0) onAddToSession(payload, `${datasetLabel} (gaps filled)`)
+  }
+
+  return (
+    <div className="space-y-3 text-sm text-slate-300">
+      <div className="text-slate-400">
+        {report.entries.length === 0
+          ? 'No missing or zero samples found.'
+          : `${report.entries.length} channels with gaps · ${totalSamples} samples over ${report.numFrames} frames`}
+      </div>
+
+      {report.entries.length > 0 && (
+        <div className="max-h-48 overflow-y-auto border border-slate-800 rounded">
+          <table className="w-full text-xs">
+            <thead className="text-slate-500 text-left">
+              <tr>
+                <th className="px-2 py-1 font-normal">Joint</th>
+                <th className="px-2 py-1 font-normal">Channel</th>
+                <th className="px-2 py-1 font-normal text-right">Samples</th>
+                <th className="px-2 py-1 font-normal text-right">Longest</th>
+                <th className="px-2 py-1 font-normal">Runs (frames)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.entries.map(e => (
+                <tr key={`${e.joint}-${e.channel}`} className="border-t border-slate-800">
+                  <td className="px-2 py-1 capitalize">{e.joint.replace(/_/g, ' ')}</td>
+                  <td className="px-2 py-1">
+                    {e.channel === 'position' ? 'position' : (
+                      <button className="underline decoration-dotted hover:text-slate-100" title="Show in chart"
+                        onClick={() => onSelectSignal(e.joint, e.channel as SignalName)}>
+                        {e.channel}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-2 py-1 text-right">{e.samples}</td>
+                  <td className="px-2 py-1 text-right">{e.longest}</td>
+                  <td className="px-2 py-1">
+                    <div className="flex flex-wrap gap-1">
+                      {e.runs.slice(0, MAX_LISTED_RUNS).map(r => (
+                        <button key={r.start} title={r.kind === 'missing' ? 'Missing samples' : 'All-zero samples'}
+                          className={`px-1 rounded hover:bg-slate-700 ${r.kind === 'missing' ? 'text-red-300' : 'text-orange-300'}`}
+                          onClick={() => onSeek(r.start)}>
+                          {r.end - r.start === 1 ? r.start + 1 : `${r.start + 1}–${r.end}`}
+                        </button>
+                      ))}
+                      {e.runs.length > MAX_LISTED_RUNS && <span className="text-slate-500">+{e.runs.length - MAX_LISTED_RUNS} more</span>}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-24">Fill gaps</span>
+        <Select value={method} onValueChange={(v) => setMethod(v as GapFillMethod)}>
+          <SelectTrigger className="w-32 bg-slate-800 border-slate-700 text-slate-100 text-sm"><SelectValue /></SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            <SelectItem value="linear" className="text-slate-100">Linear</SelectItem>
+            <SelectItem value="cubic" className="text-slate-100">Cubic</SelectItem>
+          </SelectContent>
+        </Select>
+        <span>up to</span>
+        <input type="number" min={1} max={10000} value={maxGap} className={inputClass}
+          onChange={(e) => setMaxGap(Math.min(10000, Math.max(1, Math.round(Number(e.target.value)) || 1)))} />
+        <span>frames</span>
+        <Button variant="ghost" size="sm" className={buttonClass} disabled={!canRepair || report.entries.length === 0} onClick={repair}>
+          Repair and add to session
+        </Button>
+        <span className="text-xs text-slate-500">Orientations use slerp; gaps at the start or end are not extrapolated.</span>
+      </div>
+
+      {lastRepair && (
+        <div className="text-xs text-slate-400">
+          Filled {lastRepair.filledRuns} gaps ({lastRepair.filledSamples} samples){lastRepair.skippedRuns > 0 ? `, left ${lastRepair.skippedRuns} longer or open-ended gaps` : ''}.
+        </div>
+      )}
+    </div>
+  )
+}
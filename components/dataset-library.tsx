@@ -0,0 +1,130 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import {
+  collectTags,
+  filterDatasetEntries,
+  summarizeEntry,
+  type DatasetEntry,
+  type DatasetSummary,
+} from '@/lib/dataset-manifest'
+import { SENSOR_NAMES } from '@/lib/skeleton-constants'
+
+interface DatasetLibraryProps {
+  entries: DatasetEntry[]
+  summaries: { [id: string]: DatasetSummary }
+  selectedId: string
+  onSelect: (id: string) => void
+}
+
+function formatDuration(sec: number): string {
+  const m = Math.floor(sec / 60)
+  const s = Math.round(sec % 60)
+  return m > 0 ? `${m}m ${s.toString().padStart(2, '0')}s` : `${s}s`
+}
+
+export function DatasetLibrary({ entries, summaries, selectedId, onSelect }: DatasetLibraryProps) {
+  const [query, setQuery] = useState('')
+  const [tags, setTags] = useState<string[]>([])
+
+  const allTags = useMemo(() => collectTags(entries), [entries])
+  const visible = useMemo(() => filterDatasetEntries(entries, { query, tags }), [entries, query, tags])
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col md:flex-row md:items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 absolute left-2 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search label, subject, date, speed or tag"
+            className="w-full bg-slate-800 border border-slate-700 text-slate-100 rounded pl-8 pr-2 py-1 text-sm"
+          />
+        </div>
+        {allTags.length > 0 && (
+          <div className="flex items-center gap-1 flex-wrap">
+            {allTags.map(tag => {
+              const active = tags.includes(tag)
+              return (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => setTags(prev => active ? prev.filter(t => t !== tag) : [...prev, tag])}
+                  className={cn(
+                    'px-2 py-0.5 rounded-full text-xs border',
+                    active ? 'bg-blue-600 border-blue-500 text-white' : 'border-slate-600 text-slate-300 hover:bg-slate-800'
+                  )}
+                >
+                  {tag}
+                </button>
+              )
+            })}
+            {tags.length > 0 && (
+              <Button variant="ghost" className="h-6 px-2 text-xs text-slate-400" onClick={() => setTags([])}>
+                Clear
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="max-h-64 overflow-auto border border-slate-700 rounded">
+        <table className="w-full text-xs text-slate-300">
+          <thead className="bg-slate-800 text-slate-400 sticky top-0">
+            <tr>
+              <th className="text-left px-2 py-1 font-medium">Dataset</th>
+              <th className="text-left px-2 py-1 font-medium hidden md:table-cell">Subject</th>
+              <th className="text-left px-2 py-1 font-medium hidden md:table-cell">Date</th>
+              <th className="text-right px-2 py-1 font-medium">Speed</th>
+              <th className="text-right px-2 py-1 font-medium">Frames</th>
+              <th className="text-right px-2 py-1 font-medium">Duration</th>
+              <th className="text-right px-2 py-1 font-medium">Sensors</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(entry => {
+              const summary = summaries[entry.id] ?? summarizeEntry(entry)
+              return (
+                <tr
+                  key={entry.id}
+                  onClick={() => onSelect(entry.id)}
+                  className={cn(
+                    'cursor-pointer border-t border-slate-800 hover:bg-slate-800',
+                    entry.id === selectedId && 'bg-slate-800 text-slate-100'
+                  )}
+                >
+                  <td className="px-2 py-1">
+                    <div>{entry.label}</div>
+                    {entry.tags && entry.tags.length > 0 && (
+                      <div className="text-slate-500">{entry.tags.join(', ')}</div>
+                    )}
+                  </td>
+                  <td className="px-2 py-1 hidden md:table-cell">{entry.subject ?? '—'}</td>
+                  <td className="px-2 py-1 hidden md:table-cell">{entry.date ?? '—'}</td>
+                  <td className="px-2 py-1 text-right">{entry.speed !== undefined ? `${entry.speed} km/h` : '—'}</td>
+                  <td className="px-2 py-1 text-right">{summary ? summary.numFrames : '—'}</td>
+                  <td className="px-2 py-1 text-right">{summary ? formatDuration(summary.durationSec) : '—'}</td>
+                  <td className="px-2 py-1 text-right" title={summary ? `${Math.round(summary.sensorCoverage * 100)}% coverage` : 'Load dataset to compute'}>
+                    {summary ? `${summary.sensorsWithData}/${SENSOR_NAMES.length}` : '—'}
+                  </td>
+                </tr>
+              )
+            })}
+            {visible.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-2 py-4 text-center text-slate-500">
+                  {entries.length === 0 ? 'No datasets in the manifest.' : 'No datasets match the current filter.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,182 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toNestedDataset, trimDataset, type Calibration, type DatasetPayload } from '@/lib/dataset'
+import { BINARY_DATASET_EXTENSION, encodeBinaryDataset } from '@/lib/binary-dataset'
+import type { FrameRange } from '@/lib/chunked-dataset'
+import { exportBvh, type BvhChannelLayout, type BvhRestPose } from '@/lib/bvh-export'
+import { exportGlb } from '@/lib/gltf-export'
+import { resampleDataset, resampledLength } from '@/lib/resample'
+import { downloadBlob, toFileStem } from '@/lib/utils'
+
+interface ExportPanelProps {
+  data: DatasetPayload
+  calibration: Calibration
+  datasetId: string
+  datasetLabel: string
+  currentFrame: number
+  /** Register a trimmed or resampled copy as a session dataset */
+  onAddToSession: (payload: DatasetPayload, label: string) => void
+}
+
+const inputClass = 'w-20 bg-slate-800 border border-slate-700 text-slate-100 rounded px-2 py-1 text-sm'
+const selectClass = 'w-40 bg-slate-800 border-slate-700 text-slate-100 text-sm'
+
+/**
+ * Motion export: frame range shared by every format, plus per-format options.
+ * Frame numbers are shown 1-based like the timeline; the range is inclusive in the UI.
+ */
+export function ExportPanel({ data, calibration, datasetId, datasetLabel, currentFrame, onAddToSession }: ExportPanelProps) {
+  const [startFrame, setStartFrame] = useState(1)
+  const [endFrame, setEndFrame] = useState(data.numFrames)
+  const [restPose, setRestPose] = useState<BvhRestPose>('first-frame')
+  const [bvhChannels, setBvhChannels] = useState<BvhChannelLayout>('rotations')
+  const [glbAxes, setGlbAxes] = useState(false)
+  const [targetRate, setTargetRate] = useState(60)
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  // New dataset: export everything by default
+  useEffect(() => {
+    setStartFrame(1)
+    setEndFrame(data.numFrames)
+  }, [data])
+
+  const clampFrame = (v: number) => Math.min(data.numFrames, Math.max(1, Math.round(v) || 1))
+  const range: FrameRange = [Math.min(startFrame, endFrame) - 1, Math.max(startFrame, endFrame)]
+  const rangeLabel = range[0] === 0 && range[1] === data.numFrames ? '' : `_${range[0] + 1}-${range[1]}`
+
+  const trimmed = () => trimDataset(data, range[0], range[1], { calibration, source: datasetLabel })
+  const rateLabel = `${Number(targetRate.toFixed(3))}Hz`
+  const resampled = () => resampleDataset(trimmed(), targetRate)
+
+  const runExport = async (build: () => Blob | Promise<Blob>, extension: string) => {
+    setExportError(null)
+    setIsExporting(true)
+    try {
+      downloadBlob(await build(), `${toFileStem(datasetId)}${rangeLabel}${extension}`)
+    } catch (e: any) {
+      console.error('Export failed:', e)
+      setExportError(e?.message || 'Export failed')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3 text-sm text-slate-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-24">Frame range</span>
+        <input type="number" min={1} max={data.numFrames} value={startFrame} className={inputClass}
+          onChange={(e) => setStartFrame(clampFrame(Number(e.target.value)))} />
+        <span>to</span>
+        <input type="number" min={1} max={data.numFrames} value={endFrame} className={inputClass}
+          onChange={(e) => setEndFrame(clampFrame(Number(e.target.value)))} />
+        <Button variant="ghost" size="sm" className="border border-slate-600 text-slate-300 hover:bg-slate-800"
+          onClick={() => setStartFrame(currentFrame + 1)}>Start at current</Button>
+        <Button variant="ghost" size="sm" className="border border-slate-600 text-slate-300 hover:bg-slate-800"
+          onClick={() => setEndFrame(currentFrame + 1)}>End at current</Button>
+        <Button variant="ghost" size="sm" className="border border-slate-600 text-slate-300 hover:bg-slate-800"
+          onClick={() => { setStartFrame(1); setEndFrame(data.numFrames) }}>All</Button>
+        <span className="text-slate-500">
+          {range[1] - range[0]} frames · {((range[1] - range[0]) / data.frameRate).toFixed(2)}s
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-24">BVH</span>
+        <Select value={restPose} onValueChange={(v) => setRestPose(v as BvhRestPose)}>
+          <SelectTrigger className={selectClass}><SelectValue /></SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            <SelectItem value="first-frame" className="text-slate-100">Rest: first frame</SelectItem>
+            <SelectItem value="tpose" className="text-slate-100">Rest: T-pose</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={bvhChannels} onValueChange={(v) => setBvhChannels(v as BvhChannelLayout)}>
+          <SelectTrigger className={selectClass}><SelectValue /></SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            <SelectItem value="rotations" className="text-slate-100">Joint rotations</SelectItem>
+            <SelectItem value="positions" className="text-slate-100">Joint positions</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="sm" className="border border-slate-600 text-slate-300 hover:bg-slate-800" disabled={isExporting}
+          onClick={() => runExport(
+            () => new Blob([exportBvh(data, { calibration, range, restPose, channels: bvhChannels })], { type: 'text/plain' }),
+            '.bvh',
+          )}>
+          Export BVH
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-24">GLB</span>
+        <label className="flex items-center gap-2">
+          <Checkbox checked={glbAxes} onCheckedChange={(v) => setGlbAxes(v === true)} disabled={!data.rawSensorData} />
+          Orientation axes
+        </label>
+        <Button variant="ghost" size="sm" className="border border-slate-600 text-slate-300 hover:bg-slate-800" disabled={isExporting}
+          onClick={() => runExport(
+            async () => new Blob([await exportGlb(data, { calibration, range, includeAxes: glbAxes })], { type: 'model/gltf-binary' }),
+            '.glb',
+          )}>
+          Export GLB
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-24">Trimmed dataset</span>
+        <Button variant="ghost" size="sm" className="border border-slate-600 text-slate-300 hover:bg-slate-800" disabled={isExporting}
+          onClick={() => runExport(
+            () => new Blob([encodeBinaryDataset(trimmed())], { type: 'application/octet-stream' }),
+            BINARY_DATASET_EXTENSION,
+          )}>
+          Save {BINARY_DATASET_EXTENSION}
+        </Button>
+        <Button variant="ghost" size="sm" className="border border-slate-600 text-slate-300 hover:bg-slate-800" disabled={isExporting}
+          onClick={() => runExport(
+            () => new Blob([JSON.stringify(toNestedDataset(trimmed()))], { type: 'application/json' }),
+            '.json',
+          )}>
+          Save JSON
+        </Button>
+        <Button variant="ghost" size="sm" className="border border-slate-600 text-slate-300 hover:bg-slate-800"
+          onClick={() => onAddToSession(trimmed(), `${datasetLabel} [${range[0] + 1}-${range[1]}]`)}>
+          Add to session
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-24">Resampled</span>
+        <input type="number" min={1} max={1000} step="any" value={targetRate} className={inputClass}
+          onChange={(e) => setTargetRate(Math.min(1000, Math.max(1, Number(e.target.value) || 1)))} />
+        <span>Hz</span>
+        <Button variant="ghost" size="sm" className="border border-slate-600 text-slate-300 hover:bg-slate-800" disabled={isExporting}
+          onClick={() => runExport(
+            () => new Blob([encodeBinaryDataset(resampled())], { type: 'application/octet-stream' }),
+            `_${rateLabel}${BINARY_DATASET_EXTENSION}`,
+          )}>
+          Save {BINARY_DATASET_EXTENSION}
+        </Button>
+        <Button variant="ghost" size="sm" className="border border-slate-600 text-slate-300 hover:bg-slate-800" disabled={isExporting}
+          onClick={() => runExport(
+            () => new Blob([JSON.stringify(toNestedDataset(resampled()))], { type: 'application/json' }),
+            `_${rateLabel}.json`,
+          )}>
+          Save JSON
+        </Button>
+        <Button variant="ghost" size="sm" className="border border-slate-600 text-slate-300 hover:bg-slate-800"
+          onClick={() => onAddToSession(resampled(), `${datasetLabel} [${range[0] + 1}-${range[1]}] @ ${rateLabel}`)}>
+          Add to session
+        </Button>
+        <span className="text-slate-500">
+          {data.frameRate} → {targetRate} Hz · {resampledLength(range[1] - range[0], data.frameRate, targetRate)} frames
+        </span>
+      </div>
+
+      {exportError && <div className="text-red-400">{exportError}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import { memo, useMemo } from 'react'
+import { Area, CartesianGrid, ComposedChart, Legend, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { GAIT_SIDE_COLORS, GAIT_SIDES, type GaitSide } from '@/lib/gait'
+import { CYCLE_POINTS, type GaitCycleSet } from '@/lib/gait-cycles'
+
+export interface GaitCycleChartProps {
+  /** Normalized strides per side; a side without events is left out */
+  cycles: Partial<Record<GaitSide, GaitCycleSet>>
+  /** Mean toe-off position (% of cycle) per side, drawn as a dashed line */
+  toeOffPercent?: Partial<Record<GaitSide, number>>
+  /** Draw individual strides under the mean ± SD band */
+  showStrides?: boolean
+  showGrid?: boolean
+  showLegend?: boolean
+}
+
+type CyclePoint = Record<string, number | [number, number] | null>
+
+// Individual strides drawn per side; more are still included in the mean and SD
+const MAX_OVERLAID_STRIDES = 60
+
+const finite = (v: number) => (Number.isFinite(v) ? v : null)
+
+/** One component of a signal over the gait cycle (0–100%), left and right overlaid. */
+export const GaitCycleChart = memo(function GaitCycleChart({ cycles, toeOffPercent, showStrides = true, showGrid = true, showLegend = true }: GaitCycleChartProps) {
+  const sides = GAIT_SIDES.filter(side => cycles[side] && cycles[side]!.strides.length > 0)
+
+  const data = useMemo(() => {
+    const out: CyclePoint[] = []
+    for (let p = 0; p < CYCLE_POINTS; p++) {
+      const point: CyclePoint = { pct: (p * 100) / (CYCLE_POINTS - 1) }
+      for (const side of GAIT_SIDES) {
+        const set = cycles[side]
+        if (!set) continue
+        const mean = set.mean[p]
+        const sd = set.sd[p]
+        point[`${side}_mean`] = finite(mean)
+        point[`${side}_band`] = Number.isFinite(mean) && Number.isFinite(sd) ? [mean - sd, mean + sd] : null
+        set.strides.slice(0, MAX_OVERLAID_STRIDES).forEach((s, k) => { point[`${side}_${k}`] = finite(s.values[p]) })
+      }
+      out.push(point)
+    }
+    return out
+  }, [cycles])
+
+  if (sides.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-[280px] text-slate-500 bg-slate-800/50 rounded-md">
+        Detect gait events (Gait panel) to cut this signal into strides.
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full h-[280px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} margin={{ top: 8, right: 16, bottom: 8, left: 0 }}>
+          {showGrid && <CartesianGrid strokeDasharray="3 3" stroke="#334155" />}
+          <XAxis dataKey="pct" type="number" domain={[0, 100]} stroke="#94a3b8" tickFormatter={(p) => `${p}%`} />
+          <YAxis stroke="#94a3b8" tickFormatter={(v) => Number(v).toPrecision(3)} />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #334155', color: '#e2e8f0' }}
+            labelFormatter={(p) => `${Number(p).toFixed(0)}% of cycle`}
+            formatter={(v) => (Array.isArray(v) ? v.map(x => Number(x).toFixed(3)).join(' – ') : Number(v).toFixed(3))}
+            filterNull
+          />
+          {showLegend && <Legend />}
+          {sides.map(side => (
+            <Area key={`${side}-band`} dataKey={`${side}_band`} name={`${side} ± SD`} stroke="none" fill={GAIT_SIDE_COLORS[side]} fillOpacity={0.2} isAnimationActive={false} legendType="none" />
+          ))}
+          {showStrides && sides.flatMap(side => cycles[side]!.strides.slice(0, MAX_OVERLAID_STRIDES).map((_, k) => (
+            <Line key={`${side}-${k}`} dataKey={`${side}_${k}`} stroke={GAIT_SIDE_COLORS[side]} strokeOpacity={0.25} strokeWidth={1} dot={false} isAnimationActive={false} legendType="none" tooltipType="none" />
+          )))}
+          {sides.map(side => (
+            <Line key={`${side}-mean`} dataKey={`${side}_mean`} name={`${side} mean (${cycles[side]!.strides.length} strides)`} stroke={GAIT_SIDE_COLORS[side]} strokeWidth={2.5} dot={false} isAnimationActive={false} />
+          ))}
+          {sides.map(side => (toeOffPercent?.[side] !== undefined && Number.isFinite(toeOffPercent[side]) ? (
+            <ReferenceLine key={`${side}-toe-off`} x={toeOffPercent[side]} stroke={GAIT_SIDE_COLORS[side]} strokeDasharray="4 3" ifOverflow="hidden"
+              label={{ value: 'TO', position: 'top', fill: GAIT_SIDE_COLORS[side], fontSize: 10 }} />
+          ) : null))}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  )
+})
@@ -0,0 +1,122 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { GAIT_SIDE_COLORS } from '@/lib/gait'
+import { GAIT_METRICS, gaitMetricsToCsv, type GaitMetricsReport, type MetricSummary } from '@/lib/gait-metrics'
+import { downloadBlob, toFileStem } from '@/lib/utils'
+
+interface GaitMetricsPanelProps {
+  report: GaitMetricsReport
+  /** Names the CSV (session datasets and live windows have no stable id) */
+  datasetLabel: string
+  frameRate: number
+  onSeek: (frame: number) => void
+}
+
+const buttonClass = 'border border-slate-600 text-slate-300 hover:bg-slate-800'
+
+function formatNumber(v: number, digits: number): string {
+  return Number.isFinite(v) ? v.toFixed(digits) : '–'
+}
+
+function formatSummary(s: MetricSummary, digits: number): string {
+  if (s.n === 0) return '–'
+  return `${formatNumber(s.mean, digits)} ± ${formatNumber(s.sd, digits)} (${formatNumber(s.cv, 1)}%)`
+}
+
+/** Gait metrics summary (mean ± SD, CV) per side with symmetry indices, and the per-stride table. */
+export function GaitMetricsPanel({ report, datasetLabel, frameRate, onSeek }: GaitMetricsPanelProps) {
+  const [showStrides, setShowStrides] = useState(false)
+
+  const exportCsv = () => {
+    const text = gaitMetricsToCsv(report, { dataset: datasetLabel, frameRate })
+    downloadBlob(new Blob([text], { type: 'text/csv' }), `${toFileStem(datasetLabel)}_gait_metrics.csv`)
+  }
+
+  const counts = { left: report.summary.strideTime.left.n, right: report.summary.strideTime.right.n }
+
+  return (
+    <div className="space-y-3 text-sm text-slate-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-slate-400">
+          {counts.left} left and {counts.right} right strides
+          {report.skippedStrides > 0 ? ` (${report.skippedStrides} longer strides skipped)` : ''}
+        </span>
+        <Button variant="ghost" size="sm" className={buttonClass} disabled={report.strides.length === 0} onClick={() => setShowStrides(v => !v)}>
+          {showStrides ? 'Hide strides' : 'Show strides'}
+        </Button>
+        <Button variant="ghost" size="sm" className={buttonClass} disabled={report.strides.length === 0} onClick={exportCsv}>
+          Export CSV
+        </Button>
+      </div>
+
+      {report.strides.length > 0 && (
+        <div className="overflow-x-auto border border-slate-800 rounded">
+          <table className="w-full text-xs">
+            <thead className="text-slate-500 text-left">
+              <tr>
+                <th className="px-2 py-1 font-normal">Metric</th>
+                <th className="px-2 py-1 font-normal" style={{ color: GAIT_SIDE_COLORS.left }}>Left mean ± SD (CV)</th>
+                <th className="px-2 py-1 font-normal" style={{ color: GAIT_SIDE_COLORS.right }}>Right mean ± SD (CV)</th>
+                <th className="px-2 py-1 font-normal">Both</th>
+                <th className="px-2 py-1 font-normal text-right" title="(left − right) / mean × 100">Symmetry</th>
+              </tr>
+            </thead>
+            <tbody>
+              {GAIT_METRICS.map(({ key, label, unit }) => {
+                const digits = unit === 's' ? 3 : 1
+                return (
+                  <tr key={key} className="border-t border-slate-800">
+                    <td className="px-2 py-1 whitespace-nowrap">{label} <span className="text-slate-500">({unit})</span></td>
+                    <td className="px-2 py-1 whitespace-nowrap">{formatSummary(report.summary[key].left, digits)}</td>
+                    <td className="px-2 py-1 whitespace-nowrap">{formatSummary(report.summary[key].right, digits)}</td>
+                    <td className="px-2 py-1 whitespace-nowrap">{formatSummary(report.summary[key].both, digits)}</td>
+                    <td className="px-2 py-1 whitespace-nowrap text-right">{formatNumber(report.symmetry[key], 1)}%</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showStrides && (
+        <div className="max-h-56 overflow-auto border border-slate-800 rounded">
+          <table className="w-full text-xs">
+            <thead className="text-slate-500 text-left sticky top-0 bg-slate-900">
+              <tr>
+                <th className="px-2 py-1 font-normal">Side</th>
+                <th className="px-2 py-1 font-normal text-right">#</th>
+                <th className="px-2 py-1 font-normal text-right">HS frame</th>
+                <th className="px-2 py-1 font-normal text-right">Stride (s)</th>
+                <th className="px-2 py-1 font-normal text-right">Step (s)</th>
+                <th className="px-2 py-1 font-normal text-right">Stance (%)</th>
+                <th className="px-2 py-1 font-normal text-right">Swing (%)</th>
+                <th className="px-2 py-1 font-normal text-right">Double support (%)</th>
+                <th className="px-2 py-1 font-normal text-right">Cadence</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.strides.map(s => (
+                <tr key={`${s.side}-${s.index}`} className="border-t border-slate-800">
+                  <td className="px-2 py-1 capitalize" style={{ color: GAIT_SIDE_COLORS[s.side] }}>{s.side}</td>
+                  <td className="px-2 py-1 text-right">{s.index}</td>
+                  <td className="px-2 py-1 text-right">
+                    <button className="underline decoration-dotted hover:text-slate-100" onClick={() => onSeek(s.heelStrike)}>{s.heelStrike + 1}</button>
+                  </td>
+                  <td className="px-2 py-1 text-right">{formatNumber(s.strideTime, 3)}</td>
+                  <td className="px-2 py-1 text-right">{formatNumber(s.stepTime, 3)}</td>
+                  <td className="px-2 py-1 text-right">{formatNumber(s.stancePercent, 1)}</td>
+                  <td className="px-2 py-1 text-right">{formatNumber(s.swingPercent, 1)}</td>
+                  <td className="px-2 py-1 text-right">{formatNumber(s.doubleSupportPercent, 1)}</td>
+                  <td className="px-2 py-1 text-right">{formatNumber(s.cadence, 1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
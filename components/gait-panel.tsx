@@ -0,0 +1,174 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { DatasetPayload } from '@/lib/dataset'
+import {
+  addGaitEvent,
+  availableGaitSegments,
+  detectGaitEvents,
+  emptyGaitEvents,
+  GAIT_SIDE_COLORS,
+  GAIT_SIDES,
+  moveGaitEvent,
+  removeGaitEvent,
+  type GaitEventKind,
+  type GaitEventMarker,
+  type GaitEvents,
+  type GaitSegment,
+  type GaitSideDetection,
+  type GaitSide,
+} from '@/lib/gait'
+
+interface GaitPanelProps {
+  data: DatasetPayload
+  /** Current events (null before detection); edits are reported through `onChange` */
+  events: GaitEvents | null
+  onChange: (events: GaitEvents | null) => void
+  currentFrame: number
+  onSeek: (frame: number) => void
+}
+
+const buttonClass = 'border border-slate-600 text-slate-300 hover:bg-slate-800'
+const KIND_LABELS: Record<GaitEventKind, string> = { heelStrike: 'Heel strike', toeOff: 'Toe off' }
+const SEGMENT_LABELS: Record<GaitSegment, string> = { foot: 'Foot', lower_leg: 'Shank (lower leg)' }
+
+/**
+ * Heel-strike and toe-off detection with manual correction: click an event to select it and
+ * jump to it, then delete it or move it to the current frame; add missed events at the current
+ * frame. Frame numbers are 1-based like the timeline.
+ */
+export function GaitPanel({ data, events, onChange, currentFrame, onSeek }: GaitPanelProps) {
+  const segments = availableGaitSegments(data)
+  const [segment, setSegment] = useState<GaitSegment>(segments[0] ?? 'foot')
+  const [useAccelerometer, setUseAccelerometer] = useState(true)
+  const [detection, setDetection] = useState<Record<GaitSide, GaitSideDetection> | null>(null)
+  const [selected, setSelected] = useState<GaitEventMarker | null>(null)
+
+  // Selection and detection notes belong to the events they were made for
+  useEffect(() => {
+    setSelected(null)
+    setDetection(null)
+    setSegment(availableGaitSegments(data)[0] ?? 'foot')
+  }, [data])
+
+  const detect = () => {
+    const result = detectGaitEvents(data, { segment, useAccelerometer })
+    setDetection(result.sides)
+    setSelected(null)
+    onChange(result.events)
+  }
+
+  const select = (marker: GaitEventMarker) => {
+    setSelected(marker)
+    onSeek(marker.frame)
+  }
+
+  const add = (side: GaitSide, kind: GaitEventKind) => {
+    onChange(addGaitEvent(events ?? emptyGaitEvents(), side, kind, currentFrame))
+    setSelected({ side, kind, frame: currentFrame })
+  }
+
+  const moveSelected = () => {
+    if (!events || !selected) return
+    onChange(moveGaitEvent(events, selected.side, selected.kind, selected.frame, currentFrame))
+    setSelected({ ...selected, frame: currentFrame })
+  }
+
+  const deleteSelected = () => {
+    if (!events || !selected) return
+    onChange(removeGaitEvent(events, selected.side, selected.kind, selected.frame))
+    setSelected(null)
+  }
+
+  const isSelected = (side: GaitSide, kind: GaitEventKind, frame: number) =>
+    selected?.side === side && selected.kind === kind && selected.frame === frame
+
+  return (
+    <div className="space-y-3 text-sm text-slate-300">
+      {segments.length === 0 ? (
+        <div className="text-slate-400">Gait events need a gyroscope on foot_left/right or lower_leg_left/right.</div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-24">Detect from</span>
+          <Select value={segment} onValueChange={(v) => setSegment(v as GaitSegment)}>
+            <SelectTrigger className="w-44 bg-slate-800 border-slate-700 text-slate-100 text-sm"><SelectValue /></SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {segments.map(s => (
+                <SelectItem key={s} value={s} className="text-slate-100">{SEGMENT_LABELS[s]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center space-x-2">
+            <Checkbox id="gait-accelerometer" checked={useAccelerometer} onCheckedChange={(c) => setUseAccelerometer(c === true)} />
+            <label htmlFor="gait-accelerometer" className="cursor-pointer">Refine heel strikes with accelerometer</label>
+          </div>
+          <Button variant="ghost" size="sm" className={buttonClass} onClick={detect}>
+            {events ? 'Detect again' : 'Detect events'}
+          </Button>
+          {events && (
+            <Button variant="ghost" size="sm" className={buttonClass} onClick={() => { setSelected(null); onChange(null) }}>
+              Clear
+            </Button>
+          )}
+        </div>
+      )}
+
+      {detection && (
+        <div className="text-xs text-slate-500">
+          {GAIT_SIDES.map(side => {
+            const d = detection[side]
+            return d.joint
+              ? `${side}: ${d.joint} gyroscope ${'xyz'[d.axis] ?? d.axis}${d.inverted ? ' (inverted)' : ''}`
+              : `${side}: no gyroscope on ${segment}_${side}`
+          }).join(' · ')}
+        </div>
+      )}
+
+      {events && (
+        <div className="max-h-48 overflow-y-auto border border-slate-800 rounded">
+          <table className="w-full text-xs">
+            <tbody>
+              {GAIT_SIDES.flatMap(side => (['heelStrike', 'toeOff'] as GaitEventKind[]).map(kind => (
+                <tr key={`${side}-${kind}`} className="border-t border-slate-800 first:border-t-0 align-top">
+                  <td className="px-2 py-1 whitespace-nowrap capitalize" style={{ color: GAIT_SIDE_COLORS[side] }}>{side}</td>
+                  <td className="px-2 py-1 whitespace-nowrap">{KIND_LABELS[kind]} ({events[side][kind].length})</td>
+                  <td className="px-2 py-1">
+                    <div className="flex flex-wrap gap-1">
+                      {events[side][kind].map(frame => (
+                        <button key={frame}
+                          className={`px-1 rounded hover:bg-slate-700 ${isSelected(side, kind, frame) ? 'bg-slate-600 text-slate-100' : ''}`}
+                          onClick={() => select({ side, kind, frame })}>
+                          {frame + 1}
+                        </button>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              )))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {segments.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-24">Frame {currentFrame + 1}</span>
+          {GAIT_SIDES.flatMap(side => (['heelStrike', 'toeOff'] as GaitEventKind[]).map(kind => (
+            <Button key={`${side}-${kind}`} variant="ghost" size="sm" className={buttonClass} onClick={() => add(side, kind)}>
+              + {kind === 'heelStrike' ? 'HS' : 'TO'} {side}
+            </Button>
+          )))}
+          <Button variant="ghost" size="sm" className={buttonClass} disabled={!selected} onClick={moveSelected}>
+            Move selected here
+          </Button>
+          <Button variant="ghost" size="sm" className={buttonClass} disabled={!selected} onClick={deleteSelected}>
+            Delete selected
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
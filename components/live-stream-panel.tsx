@@ -0,0 +1,173 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Circle, Loader2, Square } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { BINARY_DATASET_EXTENSION, encodeBinaryDataset } from '@/lib/binary-dataset'
+import { toNestedDataset, type DatasetPayload } from '@/lib/dataset'
+import type { LiveStreamStats } from '@/lib/live-stream'
+import { recordingLabel, type RecordingProgress } from '@/lib/live-recording'
+import { downloadBlob, toFileStem } from '@/lib/utils'
+import type { LiveStreamStatus } from '@/hooks/use-live-stream'
+
+interface LiveStreamPanelProps {
+  status: LiveStreamStatus
+  error: string | null
+  stats: LiveStreamStats | null
+  onConnect: (url: string, windowSeconds: number) => void
+  onDisconnect: () => void
+  isRecording: boolean
+  recordingProgress: RecordingProgress | null
+  /** Most recent recording (already added to the dataset list) */
+  lastRecording: DatasetPayload | null
+  onStartRecording: () => void
+  onStopRecording: () => void
+}
+
+const DEFAULT_URL = 'ws://localhost:8765'
+const URL_STORAGE_KEY = 'pj_live_url'
+const WINDOW_OPTIONS = [5, 10, 30, 60]
+
+const inputClass = 'w-64 bg-slate-800 border border-slate-700 text-slate-100 rounded px-2 py-1 text-sm'
+
+const STATUS_LABELS: Record<LiveStreamStatus, string> = {
+  idle: 'Not connected',
+  connecting: 'Connecting…',
+  open: 'Streaming',
+  closed: 'Disconnected',
+  error: 'Connection failed',
+}
+
+function formatMs(v: number): string {
+  return Number.isFinite(v) ? `${v.toFixed(1)} ms` : '–'
+}
+
+const buttonClass = 'border border-slate-600 text-slate-300 hover:bg-slate-800'
+
+/**
+ * Live mode controls: sender URL, rolling window length, connect/disconnect, stream stats and
+ * recording. The window length applies on the next connect.
+ */
+export function LiveStreamPanel({
+  status,
+  error,
+  stats,
+  onConnect,
+  onDisconnect,
+  isRecording,
+  recordingProgress,
+  lastRecording,
+  onStartRecording,
+  onStopRecording,
+}: LiveStreamPanelProps) {
+  const [url, setUrl] = useState(DEFAULT_URL)
+  const [windowSeconds, setWindowSeconds] = useState(10)
+  const isActive = status === 'connecting' || status === 'open'
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(URL_STORAGE_KEY)
+      if (saved) setUrl(saved)
+    } catch {
+      // ignore persistence errors
+    }
+  }, [])
+
+  const connect = () => {
+    try {
+      localStorage.setItem(URL_STORAGE_KEY, url)
+    } catch {
+      // ignore persistence errors
+    }
+    onConnect(url.trim(), windowSeconds)
+  }
+
+  const dropPercent = stats && stats.received + stats.dropped > 0 ? (stats.dropped / (stats.received + stats.dropped)) * 100 : 0
+
+  return (
+    <div className="space-y-3 text-sm text-slate-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-24">Sender</span>
+        <input type="text" value={url} disabled={isActive} className={inputClass} spellCheck={false}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && !isActive) connect() }} />
+        <Select value={String(windowSeconds)} onValueChange={(v) => setWindowSeconds(Number(v))} disabled={isActive}>
+          <SelectTrigger className="w-32 bg-slate-800 border-slate-700 text-slate-100 text-sm"><SelectValue /></SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            {WINDOW_OPTIONS.map(s => (
+              <SelectItem key={s} value={String(s)} className="text-slate-100">{s}s window</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isActive ? (
+          <Button variant="ghost" size="sm" className={buttonClass} onClick={onDisconnect}>
+            Disconnect
+          </Button>
+        ) : (
+          <Button size="sm" className="bg-blue-600 hover:bg-blue-700" disabled={!url.trim()} onClick={connect}>
+            Connect
+          </Button>
+        )}
+        <span className="flex items-center gap-1 text-slate-400">
+          {status === 'connecting' && <Loader2 className="w-3 h-3 animate-spin" />}
+          {STATUS_LABELS[status]}
+        </span>
+      </div>
+
+      {stats && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-xs text-slate-400">
+          <div>Rate: {Number.isFinite(stats.rateHz) ? `${stats.rateHz.toFixed(1)} Hz` : '–'}</div>
+          <div>Received: {stats.received}</div>
+          <div>Dropped: {stats.dropped} ({dropPercent.toFixed(1)}%){stats.discarded > 0 ? ` · discarded ${stats.discarded}` : ''}</div>
+          <div>Latency: {formatMs(stats.latencyMs.last)} (mean {formatMs(stats.latencyMs.mean)}, max {formatMs(stats.latencyMs.max)})</div>
+          <div>Window: {stats.buffered} frames</div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-24">Recording</span>
+        {isRecording ? (
+          <Button size="sm" className="bg-red-600 hover:bg-red-700" onClick={onStopRecording}>
+            <Square className="w-3 h-3 mr-2" /> Stop
+          </Button>
+        ) : (
+          <Button variant="ghost" size="sm" className={buttonClass} disabled={status !== 'open'} onClick={onStartRecording}>
+            <Circle className="w-3 h-3 mr-2 text-red-500" /> Record
+          </Button>
+        )}
+        {recordingProgress && (
+          <span className={isRecording ? 'text-red-300' : 'text-slate-400'}>
+            {recordingProgress.frames} frames · {recordingProgress.durationSec.toFixed(1)}s · {recordingProgress.droppedFrames} dropped
+          </span>
+        )}
+        {lastRecording && !isRecording && (
+          <>
+            <span className="text-slate-500">{recordingLabel(lastRecording)} added to the dataset list</span>
+            <Button variant="ghost" size="sm" className={buttonClass}
+              onClick={() => downloadBlob(
+                new Blob([encodeBinaryDataset(lastRecording)], { type: 'application/octet-stream' }),
+                `${toFileStem(recordingLabel(lastRecording))}${BINARY_DATASET_EXTENSION}`,
+              )}>
+              Save {BINARY_DATASET_EXTENSION}
+            </Button>
+            <Button variant="ghost" size="sm" className={buttonClass}
+              onClick={() => downloadBlob(
+                new Blob([JSON.stringify(toNestedDataset(lastRecording))], { type: 'application/json' }),
+                `${toFileStem(recordingLabel(lastRecording))}.json`,
+              )}>
+              Save JSON
+            </Button>
+          </>
+        )}
+      </div>
+
+      {error && <div className="text-red-400">{error}</div>}
+      {!isActive && !stats && (
+        <div className="text-xs text-slate-500">
+          No hardware? Replay a dataset with <code>npm run mock-stream -- public/datasets/speed6kmh.json</code> and connect to {DEFAULT_URL}.
+        </div>
+      )}
+    </div>
+  )
+}
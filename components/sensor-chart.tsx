@@ -11,25 +11,42 @@ import {
   Tooltip,
   Legend,
   ReferenceLine,
+  ReferenceArea,
   ResponsiveContainer,
   ReferenceDot,
 } from 'recharts'
+import { seriesDims, seriesLength, seriesRow, seriesValue, type Series } from '@/lib/series'
+import type { GapRun } from '@/lib/gaps'
+import { GAIT_SIDE_COLORS, type GaitEventMarker } from '@/lib/gait'
 
 export interface SensorChartProps {
-  series: number[][] | null
+  series: Series | null
+  /** Change to force a re-read when `series` is filled in place (chunked loading) */
+  dataVersion?: number
   frameRate: number
+  /** Seconds added to the time axis (stream time of the first sample of a live window) */
+  timeOffset?: number
+  /** Keep the playhead on the last sample (live rolling window) */
+  followLatest?: boolean
   title?: string
   visibleAxes?: { w?: boolean, x: boolean, y: boolean, z: boolean }
+  /** Legend names per axis (defaults to W/X/Y/Z) */
+  axisNames?: { w?: string, x?: string, y?: string, z?: string }
   showGrid?: boolean
   showLegend?: boolean
   showDots?: boolean
+  /** Frame runs to highlight (missing or invalid samples) */
+  gaps?: GapRun[]
+  /** Gait events drawn as vertical lines: solid for heel strike, dashed for toe off */
+  events?: GaitEventMarker[]
 }
 
 export interface SensorChartRef {
   setFrame: (frame: number) => void
 }
 
-interface ChartPoint { t: number, w?: number, x?: number, y?: number, z?: number }
+// null values break the line, so missing samples show as gaps instead of drops to 0
+interface ChartPoint { t: number, w?: number | null, x?: number | null, y?: number | null, z?: number | null }
 interface ChartCoreProps { data: ChartPoint[] }
 
 const ChartCore = memo(({ data }: ChartCoreProps) => {
@@ -64,7 +81,7 @@ const ChartCore = memo(({ data }: ChartCoreProps) => {
 ChartCore.displayName = 'ChartCore'
 
 
-const SensorChartImpl = forwardRef<SensorChartRef, SensorChartProps>(({ series, frameRate, title, visibleAxes, showGrid = true, showLegend = true, showDots = false }, ref) => {
+const SensorChartImpl = forwardRef<SensorChartRef, SensorChartProps>(({ series, dataVersion, frameRate, timeOffset = 0, followLatest = false, title, visibleAxes, axisNames, showGrid = true, showLegend = true, showDots = false, gaps, events }, ref) => {
   const [currentFrame, setCurrentFrame] = useState(0)
 
   useImperativeHandle(ref, () => ({
@@ -80,33 +97,38 @@ const SensorChartImpl = forwardRef<SensorChartRef, SensorChartProps>(({ series,
 
   // Chart data should not depend on currentFrame to avoid re-rendering the whole chart each tick
   const data = useMemo(() => {
-    if (!series || series.length === 0) return [] as ChartPoint[]
-    const len = series.length
+    if (!series || seriesLength(series) === 0) return [] as ChartPoint[]
+    const len = seriesLength(series)
     const MAX_POINTS = 2000
     const stride = Math.max(1, Math.ceil(len / MAX_POINTS))
     const out: ChartPoint[] = []
     const denom = Math.max(frameRate, 1)
-    for (let i = 0; i < len; i += stride) {
-      const p = series[i]
-      // Support 3-axis [x,y,z] or quaternion [w,x,y,z]
-      if (p.length === 4) out.push({ t: i / denom, w: p[0] ?? 0, x: p[1] ?? 0, y: p[2] ?? 0, z: p[3] ?? 0 })
-      else out.push({ t: i / denom, x: p[0] ?? 0, y: p[1] ?? 0, z: p[2] ?? 0 })
-    }
-    if ((len - 1) % stride !== 0) {
-      const p = series[len - 1]
-      if (p.length === 4) out.push({ t: (len - 1) / denom, w: p[0] ?? 0, x: p[1] ?? 0, y: p[2] ?? 0, z: p[3] ?? 0 })
-      else out.push({ t: (len - 1) / denom, x: p[0] ?? 0, y: p[1] ?? 0, z: p[2] ?? 0 })
+    // Support 3-axis [x,y,z] or quaternion [w,x,y,z]
+    const isQuat = seriesDims(series) === 4
+    const point = (i: number): ChartPoint => {
+      const v = (d: number) => {
+        const value = seriesValue(series, i, d)
+        return typeof value === 'number' && Number.isFinite(value) ? value : null
+      }
+      return isQuat
+        ? { t: timeOffset + i / denom, w: v(0), x: v(1), y: v(2), z: v(3) }
+        : { t: timeOffset + i / denom, x: v(0), y: v(1), z: v(2) }
     }
+    for (let i = 0; i < len; i += stride) out.push(point(i))
+    if ((len - 1) % stride !== 0) out.push(point(len - 1))
     return out
-  }, [series, frameRate])
+  }, [series, frameRate, timeOffset, dataVersion])
 
-  const currentTime = currentFrame / Math.max(frameRate, 1)
+  const playheadFrame = followLatest && series ? Math.max(0, seriesLength(series) - 1) : currentFrame
+  const currentTime = timeOffset + playheadFrame / Math.max(frameRate, 1)
   // Avoid deriving y from original high-res series (not aligned with downsample); use linear interpolation on downsampled data for dots
   const currentDataPoint = useMemo(() => {
-    if (!series || series.length === 0) return null as number[] | null
-    const idx = Math.min(currentFrame, series.length - 1)
-    return series[idx]
-  }, [series, currentFrame])
+    if (!series || seriesLength(series) === 0) return null as number[] | null
+    const idx = Math.min(playheadFrame, seriesLength(series) - 1)
+    const row = seriesRow(series, idx)
+    // No dots while the playhead is inside a gap
+    return row && row.every(Number.isFinite) ? row : null
+  }, [series, playheadFrame, dataVersion])
 
   return (
     <div className="w-full h-[280px]">
@@ -116,17 +138,38 @@ const SensorChartImpl = forwardRef<SensorChartRef, SensorChartProps>(({ series,
           <ChartCore data={data} />
           {showLegend && <Legend />}
           {(visibleAxes?.w ?? false) && (
-            <Line type="monotone" dataKey="w" stroke="#f59e0b" dot={showDots} name="W" isAnimationActive={false} />
+            <Line type="monotone" dataKey="w" stroke="#f59e0b" dot={showDots} name={axisNames?.w ?? 'W'} isAnimationActive={false} />
           )}
           {(visibleAxes?.x ?? true) && (
-            <Line type="monotone" dataKey="x" stroke="#60a5fa" dot={showDots} name="X" isAnimationActive={false} />
+            <Line type="monotone" dataKey="x" stroke="#60a5fa" dot={showDots} name={axisNames?.x ?? 'X'} isAnimationActive={false} />
           )}
           {(visibleAxes?.y ?? true) && (
-            <Line type="monotone" dataKey="y" stroke="#34d399" dot={showDots} name="Y" isAnimationActive={false} />
+            <Line type="monotone" dataKey="y" stroke="#34d399" dot={showDots} name={axisNames?.y ?? 'Y'} isAnimationActive={false} />
           )}
           {(visibleAxes?.z ?? true) && (
-            <Line type="monotone" dataKey="z" stroke="#f472b6" dot={showDots} name="Z" isAnimationActive={false} />
+            <Line type="monotone" dataKey="z" stroke="#f472b6" dot={showDots} name={axisNames?.z ?? 'Z'} isAnimationActive={false} />
           )}
+          {gaps?.map(g => (
+            <ReferenceArea
+              key={`${g.start}-${g.end}`}
+              x1={timeOffset + (g.start - 0.5) / Math.max(frameRate, 1)}
+              x2={timeOffset + (g.end - 0.5) / Math.max(frameRate, 1)}
+              fill={g.kind === 'missing' ? '#ef4444' : '#f97316'}
+              fillOpacity={0.2}
+              strokeOpacity={0}
+              ifOverflow="hidden"
+            />
+          ))}
+          {events?.map(e => (
+            <ReferenceLine
+              key={`${e.side}-${e.kind}-${e.frame}`}
+              x={timeOffset + e.frame / Math.max(frameRate, 1)}
+              stroke={GAIT_SIDE_COLORS[e.side]}
+              strokeDasharray={e.kind === 'toeOff' ? '4 3' : undefined}
+              strokeOpacity={0.8}
+              ifOverflow="hidden"
+            />
+          ))}
           <ReferenceLine 
             x={currentTime} 
             stroke="#f59e0b" 
@@ -0,0 +1,132 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { DatasetPayload } from '@/lib/dataset'
+import { resolveNormalizeMode, type ButterworthFilter, type NormalizeMode, type Stats } from '@/lib/processing'
+import { ProcessingService } from '@/lib/processing-service'
+import {
+  processAllSeries,
+  processedSeriesToCsv,
+  processedSeriesToJson,
+  type ProcessedSeriesExport,
+} from '@/lib/series-export'
+import type { Series } from '@/lib/series'
+import { downloadBlob, toFileStem } from '@/lib/utils'
+
+interface SeriesExportControlsProps {
+  data: DatasetPayload
+  datasetId: string
+  joint: string | null
+  /** Chart signal; raw signals are named after `SIGNAL_COMPONENTS` keys */
+  signal: string | null
+  processedSeries: Series | null
+  stats: Stats | null
+  /** True while `processedSeries` and `stats` still belong to the previous chart inputs */
+  isProcessing: boolean
+  /** Mode selected in the Analytics panel (before per-signal resolution) */
+  normalizeMode: NormalizeMode
+  smoothWindow: number
+  /** Filter applied to the chart series (null when off) */
+  filter: ButterworthFilter | null
+  /** Set when the chart shows a derived channel (Euler or joint angles); `joint` overrides the chart joint */
+  channel?: { joint?: string, name: string, components: string[] } | null
+}
+
+type ExportFormat = 'csv' | 'json'
+
+const buttonClass = 'border border-slate-600 text-slate-300 hover:bg-slate-800 text-xs'
+
+export function SeriesExportControls({ data, datasetId, joint, signal, processedSeries, stats, isProcessing, normalizeMode, smoothWindow, filter, channel }: SeriesExportControlsProps) {
+  const [batchProgress, setBatchProgress] = useState<string | null>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const save = (exp: ProcessedSeriesExport, format: ExportFormat, suffix: string) => {
+    const text = format === 'csv' ? processedSeriesToCsv(exp) : processedSeriesToJson(exp)
+    const type = format === 'csv' ? 'text/csv' : 'application/json'
+    downloadBlob(new Blob([text], { type }), `${toFileStem(datasetId)}_${suffix}.${format}`)
+  }
+
+  const exportCurrent = (format: ExportFormat) => {
+    if (!joint || !signal || !processedSeries || !stats || isProcessing) return
+    setExportError(null)
+    const name = channel?.name ?? signal
+    const entryJoint = channel?.joint ?? joint
+    save({
+      dataset: datasetId,
+      frameRate: data.frameRate,
+      filter,
+      smoothWindow,
+      entries: [{
+        joint: entryJoint,
+        signal: name,
+        components: channel?.components,
+        normalizeMode: resolveNormalizeMode(normalizeMode, channel ? null : signal),
+        series: processedSeries,
+        stats,
+      }],
+    }, format, `${entryJoint}_${name}`)
+  }
+
+  const exportAll = async (format: ExportFormat) => {
+    abortRef.current?.abort()
+    const abort = new AbortController()
+    abortRef.current = abort
+    const service = new ProcessingService()
+    setExportError(null)
+    setBatchProgress('Processing…')
+    try {
+      const entries = await processAllSeries(service, data, {
+        normalizeMode,
+        smoothWindow,
+        filter,
+        signal: abort.signal,
+        onProgress: (done, total) => setBatchProgress(`Processing ${done}/${total}…`),
+      })
+      if (entries.length === 0) throw new Error('This dataset has no raw sensor series')
+      save({ dataset: datasetId, frameRate: data.frameRate, filter, smoothWindow, entries }, format, 'all_series')
+    } catch (e: any) {
+      if (e?.name === 'AbortError') return
+      console.error('Series export failed:', e)
+      setExportError(e?.message || 'Series export failed')
+    } finally {
+      service.dispose()
+      if (abortRef.current === abort) {
+        abortRef.current = null
+        setBatchProgress(null)
+      }
+    }
+  }
+
+  const canExportCurrent = !!(joint && signal && processedSeries && stats) && !isProcessing
+  const isBatchRunning = batchProgress !== null
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap text-xs text-slate-400">
+      <span>Export</span>
+      <Button variant="ghost" size="sm" className={buttonClass} disabled={!canExportCurrent} onClick={() => exportCurrent('csv')}>
+        Series CSV
+      </Button>
+      <Button variant="ghost" size="sm" className={buttonClass} disabled={!canExportCurrent} onClick={() => exportCurrent('json')}>
+        Series JSON
+      </Button>
+      <Button variant="ghost" size="sm" className={buttonClass} disabled={isBatchRunning || !data.rawSensorData} onClick={() => exportAll('csv')}>
+        All joints CSV
+      </Button>
+      <Button variant="ghost" size="sm" className={buttonClass} disabled={isBatchRunning || !data.rawSensorData} onClick={() => exportAll('json')}>
+        All joints JSON
+      </Button>
+      {isBatchRunning && (
+        <span className="flex items-center gap-1">
+          <Loader2 className="w-3 h-3 animate-spin" /> {batchProgress}
+          <button type="button" className="underline ml-1" onClick={() => abortRef.current?.abort()}>cancel</button>
+        </span>
+      )}
+      {exportError && <span className="text-red-400">{exportError}</span>}
+    </div>
+  )
+}
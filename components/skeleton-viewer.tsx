@@ -5,23 +5,11 @@ import * as THREE from 'three'
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
 import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js'
 import { SENSOR_NAMES, EDGES, validateSkeletonStructure } from '@/lib/skeleton-constants'
+import type { DatasetPayload } from '@/lib/dataset'
+import { readFramePosition, readSeriesRow } from '@/lib/series'
+import { isFrameInRanges, type FrameRange } from '@/lib/chunked-dataset'
 
-export interface DatasetPayload {
-  frameRate: number
-  sensorNames: string[]
-  edges: [string, string][]
-  numFrames: number
-  numSensors: number
-  frames: number[][][]
-  rawSensorData?: {
-    [jointName: string]: {
-      orientation?: number[][]
-      gyroscope?: number[][]
-      accelerometer?: number[][]
-      magnetometer?: number[][]
-    }
-  }
-}
+export type { DatasetPayload } from '@/lib/dataset'
 
 interface SkeletonViewerProps {
   data: DatasetPayload | null
@@ -37,6 +25,12 @@ interface SkeletonViewerProps {
   selectedJoint?: string | null
   onCalibrationChange?: (jointName: string, positionOffset: [number, number, number]) => void
   onSelectJoint?: (jointName: string | null) => void
+  /** Loaded frame ranges while a chunked dataset streams in; null/undefined when fully loaded */
+  bufferedRanges?: FrameRange[] | null
+  /** Change to redraw the seek frame when `data` is refilled in place (live streaming) */
+  dataVersion?: number
+  /** Per-frame translation [f * 3 + axis] (cm) subtracted from every joint, e.g. view centering */
+  frameOffsets?: Float64Array | null
 }
 
 const JOINT_RADIUS = 0.04
@@ -56,6 +50,9 @@ export function SkeletonViewer({
   selectedJoint,
   onCalibrationChange,
   onSelectJoint,
+  bufferedRanges,
+  dataVersion,
+  frameOffsets,
 }: SkeletonViewerProps) {
   const mountRef = useRef<HTMLDivElement>(null)
   const sceneRef = useRef<THREE.Scene | null>(null)
@@ -75,11 +72,16 @@ export function SkeletonViewer({
   const isSeekingRef = useRef(false)
   const selectedJointRef = useRef<string | null>(null)
   const calibrationRef = useRef<{ [jointName: string]: { positionOffset?: [number, number, number] } }>({})
+  const bufferedRangesRef = useRef<FrameRange[] | null>(null)
+  const frameOffsetsRef = useRef<Float64Array | null>(null)
+  const jointValidRef = useRef<boolean[]>([])
   const tempVecRef = useRef<{ a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3 }>({
     a: new THREE.Vector3(),
     b: new THREE.Vector3(),
     c: new THREE.Vector3(),
   })
+  // Scratch rows for reading packed or nested samples without allocating per frame
+  const scratchRef = useRef<{ pos: number[], row: number[] }>({ pos: [0, 0, 0], row: [0, 0, 0, 0] })
   
   const rawDataVizRef = useRef<{
     [jointName: string]: {
@@ -133,10 +135,10 @@ export function SkeletonViewer({
   function getBasePositionForJoint(jointIndex: number, frameIndex: number): THREE.Vector3 {
     const base = new THREE.Vector3()
     if (!data) return base
-    const f = data.frames[frameIndex]
-    const p = f?.[jointIndex]
-    if (!p) return base
-    base.set((p[0] ?? 0) * SCALE_FACTOR, (p[1] ?? 0) * SCALE_FACTOR, (p[2] ?? 0) * SCALE_FACTOR)
+    const p = scratchRef.current.pos
+    if (!readFramePosition(data.frames, frameIndex, jointIndex, p)) return base
+    subtractFrameOffset(frameIndex, p)
+    base.set(p[0] * SCALE_FACTOR, p[1] * SCALE_FACTOR, p[2] * SCALE_FACTOR)
     return base
   }
 
@@ -192,9 +194,15 @@ export function SkeletonViewer({
       // Advance simulation in fixed steps to honor target FPS exactly
       let framesToUpdate = 0
       while (accumulator >= intervalMs && framesToUpdate < maxFrameSkip) {
+        const nextFrame = (currentFrameRef.current + 1) % data.numFrames
+        // Stall at the edge of the loaded range until the next chunk arrives
+        if (bufferedRangesRef.current && !isFrameInRanges(bufferedRangesRef.current, nextFrame)) {
+          accumulator = 0
+          break
+        }
         accumulator -= intervalMs
         framesToUpdate++
-        currentFrameRef.current = (currentFrameRef.current + 1) % data.numFrames
+        currentFrameRef.current = nextFrame
         updateSkeleton(currentFrameRef.current)
         if (onFrameChange) onFrameChange(currentFrameRef.current)
       }
@@ -218,6 +226,16 @@ export function SkeletonViewer({
   useEffect(() => { isPlayingRef.current = isPlaying }, [isPlaying])
   useEffect(() => { selectedJointRef.current = selectedJoint ?? null }, [selectedJoint])
   useEffect(() => { calibrationRef.current = calibration ?? {} }, [calibration])
+  useEffect(() => { bufferedRangesRef.current = bufferedRanges ?? null }, [bufferedRanges])
+  useEffect(() => { frameOffsetsRef.current = frameOffsets ?? null }, [frameOffsets])
+
+  function subtractFrameOffset(frameIndex: number, p: number[] | Float32Array) {
+    const offsets = frameOffsetsRef.current
+    if (!offsets || frameIndex * 3 + 2 >= offsets.length) return
+    p[0] -= offsets[frameIndex * 3]
+    p[1] -= offsets[frameIndex * 3 + 1]
+    p[2] -= offsets[frameIndex * 3 + 2]
+  }
   
   // Handle seeking
   useEffect(() => {
@@ -232,24 +250,31 @@ export function SkeletonViewer({
     } else {
       isSeekingRef.current = false
     }
-  }, [seekFrame, data, onFrameChange])
+  }, [seekFrame, data, dataVersion, onFrameChange])
 
   // Update skeleton positions per frame - separated for direct calls
   const updateSkeleton = (frameIndex: number) => {
     if (!data || !cameraRef.current) return
     if (jointsRef.current.length === 0 || bonesRef.current.length === 0) return
 
-    const frame = data.frames[frameIndex]
-    if (!frame) return
+    const p = scratchRef.current.pos
+    if (bufferedRangesRef.current && !isFrameInRanges(bufferedRangesRef.current, frameIndex)) return
+    if (!readFramePosition(data.frames, frameIndex, 0, p)) return
 
     // Update joint positions
     const jointPositions = jointPositionsRef.current
     const cal = calibrationRef.current
     const selectedIdx = selectedJointRef.current ? data.sensorNames.indexOf(selectedJointRef.current) : -1
     
+    const jointValid = jointValidRef.current
     for (let i = 0; i < data.numSensors; i++) {
-      const p = frame[i]
       const pos = jointPositions[i]
+      // Missing samples (dropped frames, gaps): hide the joint instead of drawing it at NaN
+      const valid = readFramePosition(data.frames, frameIndex, i, p) && Number.isFinite(p[0]) && Number.isFinite(p[1]) && Number.isFinite(p[2])
+      jointValid[i] = valid
+      jointsRef.current[i].visible = valid
+      if (!valid) continue
+      subtractFrameOffset(frameIndex, p)
       pos.set(p[0] * SCALE_FACTOR, p[1] * SCALE_FACTOR, p[2] * SCALE_FACTOR)
 
       // Apply per-joint calibration position offsets if provided
@@ -276,6 +301,8 @@ export function SkeletonViewer({
       const pb = jointPositions[b]
 
       const line = bonesRef.current[i]
+      line.visible = jointValid[a] && jointValid[b]
+      if (!line.visible) continue
       const positions = line.geometry.attributes.position.array as Float32Array
       positions[0] = pa.x
       positions[1] = pa.y
@@ -318,17 +345,19 @@ export function SkeletonViewer({
         const viz = rawDataVizRef.current[jointName]
         const jointPos = jointPositions[index]
         const jointRawData = data.rawSensorData[jointName]
+        const row = scratchRef.current.row
 
         if (viz.orientation && jointRawData.orientation) {
-          const quatData = jointRawData.orientation[frameIndex]
-          if (quatData) {
+          if (readSeriesRow(jointRawData.orientation, frameIndex, row)) {
+            const quatData = row
             viz.orientation.position.copy(jointPos)
-            viz.orientation.quaternion.set(quatData[0], quatData[1], quatData[2], quatData[3])
+            // Series are [w, x, y, z]; three.js takes (x, y, z, w), as in the glTF export
+            viz.orientation.quaternion.set(quatData[1], quatData[2], quatData[3], quatData[0])
           }
         }
         if (viz.gyroscope && jointRawData.gyroscope) {
-          const gyroData = jointRawData.gyroscope[frameIndex]
-          if (gyroData) {
+          if (readSeriesRow(jointRawData.gyroscope, frameIndex, row)) {
+            const gyroData = row
             const dir = tempVecRef.current.a.set(gyroData[0], gyroData[1], gyroData[2])
             const len = Math.max(dir.length() * 0.1, 0.05)
             dir.normalize()
@@ -338,8 +367,8 @@ export function SkeletonViewer({
           }
         }
         if (viz.accelerometer && jointRawData.accelerometer) {
-          const accelData = jointRawData.accelerometer[frameIndex]
-          if (accelData) {
+          if (readSeriesRow(jointRawData.accelerometer, frameIndex, row)) {
+            const accelData = row
             const dir = tempVecRef.current.b.set(accelData[0], accelData[1], accelData[2])
             const len = Math.max(dir.length() * 0.01, 0.03)
             dir.normalize()
@@ -349,8 +378,8 @@ export function SkeletonViewer({
           }
         }
         if (viz.magnetometer && jointRawData.magnetometer) {
-          const magnetData = jointRawData.magnetometer[frameIndex]
-          if (magnetData) {
+          if (readSeriesRow(jointRawData.magnetometer, frameIndex, row)) {
+            const magnetData = row
             const dir = tempVecRef.current.c.set(magnetData[0], magnetData[1], magnetData[2])
             const len = Math.max(dir.length() * 0.001, 0.02)
             dir.normalize()
@@ -882,11 +911,11 @@ export function SkeletonViewer({
     tControls.visible = true
   }, [data, selectedJoint])
 
-  // Re-apply skeleton pose immediately when calibration changes (even if paused)
+  // Re-apply skeleton pose immediately when calibration or centering changes (even if paused)
   useEffect(() => {
     if (!data || isDraggingRef.current) return
     updateSkeleton(currentFrameRef.current)
-  }, [calibration, data])
+  }, [calibration, frameOffsets, data])
 
   // Update raw data visibility
   useEffect(() => {
@@ -0,0 +1,82 @@
+"use client"
+
+import { memo, useMemo } from 'react'
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import type { Spectrum } from '@/lib/processing'
+
+export type SpectrumScale = 'magnitude' | 'power'
+
+export interface SpectrumChartProps {
+  spectrum: Spectrum | null
+  /** `magnitude`: √PSD (units/√Hz); `power`: PSD (units²/Hz) */
+  scale?: SpectrumScale
+  visibleAxes?: { w?: boolean, x: boolean, y: boolean, z: boolean }
+  /** Legend names per axis (defaults to W/X/Y/Z) */
+  axisNames?: { w?: string, x?: string, y?: string, z?: string }
+  showGrid?: boolean
+  showLegend?: boolean
+}
+
+interface SpectrumPoint { f: number, w?: number, x?: number, y?: number, z?: number }
+
+const AXIS_COLORS = { w: '#f59e0b', x: '#60a5fa', y: '#34d399', z: '#f472b6' } as const
+
+/** Per-axis spectrum of the charted series versus frequency, with the peak of each axis marked. */
+export const SpectrumChart = memo(function SpectrumChart({ spectrum, scale = 'magnitude', visibleAxes, axisNames, showGrid = true, showLegend = true }: SpectrumChartProps) {
+  // Component order matches SensorChart: [w, x, y, z] for quaternions, [x, y, z] otherwise
+  const keys = useMemo(() => (spectrum?.psd.length === 4 ? ['w', 'x', 'y', 'z'] : ['x', 'y', 'z']) as (keyof typeof AXIS_COLORS)[], [spectrum])
+
+  const data = useMemo(() => {
+    if (!spectrum) return [] as SpectrumPoint[]
+    const out: SpectrumPoint[] = new Array(spectrum.frequencies.length)
+    for (let k = 0; k < spectrum.frequencies.length; k++) {
+      const point: SpectrumPoint = { f: spectrum.frequencies[k] }
+      keys.forEach((key, d) => {
+        const p = spectrum.psd[d]?.[k]
+        if (p !== undefined) point[key] = scale === 'magnitude' ? Math.sqrt(p) : p
+      })
+      out[k] = point
+    }
+    return out
+  }, [spectrum, scale, keys])
+
+  const isVisible = (key: keyof typeof AXIS_COLORS) => key === 'w' ? (visibleAxes?.w ?? false) : (visibleAxes?.[key] ?? true)
+
+  if (!spectrum) {
+    return (
+      <div className="flex items-center justify-center h-[280px] text-slate-500 bg-slate-800/50 rounded-md">
+        Not enough contiguous samples for a spectrum.
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full h-[280px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 8, right: 16, bottom: 8, left: 0 }}>
+          {showGrid && <CartesianGrid strokeDasharray="3 3" stroke="#334155" />}
+          <XAxis
+            dataKey="f"
+            type="number"
+            stroke="#94a3b8"
+            domain={[0, spectrum.frequencies[spectrum.frequencies.length - 1]]}
+            tickFormatter={(f) => `${Number(f).toFixed(1)} Hz`}
+          />
+          <YAxis stroke="#94a3b8" tickFormatter={(v) => Number(v).toPrecision(2)} />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #334155', color: '#e2e8f0' }}
+            labelFormatter={(f) => `${Number(f).toFixed(2)} Hz`}
+            formatter={(v) => Number(v).toPrecision(4)}
+          />
+          {showLegend && <Legend />}
+          {keys.filter(isVisible).map(key => (
+            <Line key={key} type="linear" dataKey={key} stroke={AXIS_COLORS[key]} dot={false} name={axisNames?.[key] ?? key.toUpperCase()} isAnimationActive={false} />
+          ))}
+          {keys.map((key, d) => (isVisible(key) && Number.isFinite(spectrum.peakHz[d]) ? (
+            <ReferenceLine key={`peak-${key}`} x={spectrum.peakHz[d]} stroke={AXIS_COLORS[key]} strokeDasharray="4 4" strokeOpacity={0.7} />
+          ) : null))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  )
+})
@@ -0,0 +1,151 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { DatasetPayload } from '@/lib/dataset'
+import { connectLiveStream, LiveFrameBuffer, type LiveConnection, type LiveHelloMessage, type LiveStreamStats } from '@/lib/live-stream'
+import { LiveRecorder, type RecordingProgress } from '@/lib/live-recording'
+
+export type LiveStreamStatus = 'idle' | 'connecting' | 'open' | 'closed' | 'error'
+
+// Frames arrive at the sensor rate; the viewer, charts and stats are refreshed at most this often
+const PUBLISH_INTERVAL_MS = 100
+
+/**
+ * WebSocket live stream into a rolling frame buffer. `payload` is created on the sender's hello
+ * and refilled in place; `version` bumps after each refill so consumers re-read it.
+ * While recording, every accepted frame is also appended to a recorder; stopping (or the stream
+ * ending or restarting) publishes the recorded dataset as `lastRecording`.
+ */
+export function useLiveStream() {
+  const connectionRef = useRef<LiveConnection | null>(null)
+  const bufferRef = useRef<LiveFrameBuffer | null>(null)
+  const dirtyRef = useRef(false)
+  const helloRef = useRef<{ hello: LiveHelloMessage, url: string } | null>(null)
+  const recorderRef = useRef<LiveRecorder | null>(null)
+  const [status, setStatus] = useState<LiveStreamStatus>('idle')
+  const [error, setError] = useState<string | null>(null)
+  const [payload, setPayload] = useState<DatasetPayload | null>(null)
+  const [version, setVersion] = useState(0)
+  const [stats, setStats] = useState<LiveStreamStats | null>(null)
+  const [windowStartTime, setWindowStartTime] = useState(0)
+  const [isRecording, setIsRecording] = useState(false)
+  const [recordingProgress, setRecordingProgress] = useState<RecordingProgress | null>(null)
+  const [lastRecording, setLastRecording] = useState<DatasetPayload | null>(null)
+
+  // Publish frames received since the last refill
+  const flush = useCallback(() => {
+    const buffer = bufferRef.current
+    if (!buffer || !dirtyRef.current) return
+    dirtyRef.current = false
+    buffer.publish()
+    setWindowStartTime(buffer.windowStartTime())
+    setStats(buffer.stats())
+    setVersion(v => v + 1)
+    if (recorderRef.current) setRecordingProgress(recorderRef.current.progress())
+  }, [])
+
+  const stopRecording = useCallback(() => {
+    const recorder = recorderRef.current
+    if (!recorder) return
+    recorderRef.current = null
+    setIsRecording(false)
+    setRecordingProgress(recorder.progress())
+    const recorded = recorder.finish()
+    if (recorded) setLastRecording(recorded)
+  }, [])
+
+  const startRecording = useCallback(() => {
+    const current = helloRef.current
+    if (!current || !connectionRef.current || recorderRef.current) return
+    recorderRef.current = new LiveRecorder(current.hello, current.url)
+    setRecordingProgress(recorderRef.current.progress())
+    setIsRecording(true)
+  }, [])
+
+  const disconnect = useCallback(() => {
+    const connection = connectionRef.current
+    if (!connection) return
+    connectionRef.current = null
+    connection.close()
+    flush()
+    stopRecording()
+    setStatus('closed')
+  }, [flush, stopRecording])
+
+  const connect = useCallback((url: string, windowSeconds: number) => {
+    disconnect()
+    bufferRef.current = null
+    helloRef.current = null
+    dirtyRef.current = false
+    setError(null)
+    setStats(null)
+    setStatus('connecting')
+    let connection: LiveConnection
+    // Malformed frames are counted as discarded; only the first one is reported
+    let invalidReported = false
+    try {
+      connection = connectLiveStream(url, {
+        onOpen: () => setStatus('open'),
+        onHello: (hello) => {
+          // A restarted stream may change its layout; close the recording made so far
+          stopRecording()
+          helloRef.current = { hello, url }
+          const buffer = new LiveFrameBuffer(hello, windowSeconds)
+          bufferRef.current = buffer
+          setPayload(buffer.payload)
+        },
+        onFrame: (frame, receivedAt) => {
+          if (!bufferRef.current?.push(frame, receivedAt)) return
+          dirtyRef.current = true
+          recorderRef.current?.push(frame)
+        },
+        onInvalidMessage: (e) => {
+          bufferRef.current?.markDiscarded()
+          if (invalidReported) return
+          invalidReported = true
+          console.warn('Invalid live message:', e)
+          setError(`Invalid live message (further ones are counted as discarded): ${e.message}`)
+        },
+        onClose: (e) => {
+          if (connectionRef.current !== connection) return
+          connectionRef.current = null
+          flush()
+          stopRecording()
+          setStatus(e ? 'error' : 'closed')
+          if (e) setError(e.message)
+        },
+      })
+    } catch (e: any) {
+      // e.g. a malformed URL
+      setStatus('error')
+      setError(e?.message || 'Could not open the live stream')
+      return
+    }
+    connectionRef.current = connection
+  }, [disconnect, flush, stopRecording])
+
+  // Copy new frames into the payload on a fixed cadence rather than per message
+  useEffect(() => {
+    if (status !== 'open') return
+    const id = window.setInterval(flush, PUBLISH_INTERVAL_MS)
+    return () => window.clearInterval(id)
+  }, [status, flush])
+
+  useEffect(() => disconnect, [disconnect])
+
+  return {
+    status,
+    error,
+    payload,
+    version,
+    stats,
+    windowStartTime,
+    connect,
+    disconnect,
+    isRecording,
+    recordingProgress,
+    lastRecording,
+    startRecording,
+    stopRecording,
+  }
+}
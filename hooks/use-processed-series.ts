@@ -0,0 +1,76 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { ProcessingService } from '@/lib/processing-service'
+import type { ButterworthFilter, NormalizeMode, Stats } from '@/lib/processing'
+import type { FrameRange } from '@/lib/chunked-dataset'
+import type { PackedSeries, Series } from '@/lib/series'
+
+interface UseProcessedSeriesOptions {
+  normalizeMode: NormalizeMode
+  smoothWindow: number
+  /** Zero-phase Butterworth filter applied before normalization, at `frameRate` */
+  filter?: ButterworthFilter | null
+  frameRate?: number
+  /** Loaded chunk ranges; a change means `series` was filled in place (chunked loading) */
+  bufferedRanges?: FrameRange[] | null
+  /** Bump to recompute when `series` is mutated in place (live stream) */
+  version?: number
+}
+
+/**
+ * Normalize/smooth a chart series and compute its stats off the main thread.
+ * A selection change while a job is running cancels it. A different input clears the result
+ * so it is never shown under the new selection; refills and option changes keep the last
+ * result visible until the new one arrives. A new `series` arriving together with new
+ * `bufferedRanges` or `version` is a refill (derived series are rebuilt on every refill).
+ */
+export function useProcessedSeries(series: Series | null, { normalizeMode, smoothWindow, filter = null, frameRate, bufferedRanges = null, version }: UseProcessedSeriesOptions) {
+  const serviceRef = useRef<ProcessingService | null>(null)
+  const [result, setResult] = useState<{ series: PackedSeries, stats: Stats } | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [input, setInput] = useState({ series, bufferedRanges, version })
+
+  if (input.series !== series || input.bufferedRanges !== bufferedRanges || input.version !== version) {
+    const isRefill = input.bufferedRanges !== bufferedRanges || input.version !== version
+    if (input.series !== series && !isRefill) setResult(null)
+    setInput({ series, bufferedRanges, version })
+  }
+
+  useEffect(() => {
+    serviceRef.current = new ProcessingService()
+    return () => {
+      serviceRef.current?.dispose()
+      serviceRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    const service = serviceRef.current
+    if (!series || !service) {
+      setResult(null)
+      setIsProcessing(false)
+      return
+    }
+    const abortController = new AbortController()
+    setIsProcessing(true)
+    service.process(series, { normalizeMode, smoothWindow, filter, frameRate, signal: abortController.signal })
+      .then(r => {
+        if (abortController.signal.aborted) return
+        setResult(r)
+        setIsProcessing(false)
+      })
+      .catch((e: any) => {
+        if (e?.name === 'AbortError') return
+        console.error('Series processing failed:', e)
+        setIsProcessing(false)
+      })
+    return () => abortController.abort()
+  }, [series, normalizeMode, smoothWindow, filter, frameRate, bufferedRanges, version])
+
+  return {
+    series: result?.series ?? null,
+    stats: result?.stats ?? null,
+    isProcessing,
+  }
+}
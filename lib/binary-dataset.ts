@@ -0,0 +1,187 @@
+/**
+ * Compact binary dataset container (.pjds).
+ *
+ * Layout (little-endian):
+ *   0   4 bytes  magic "PJDS"
+ *   4   u16      format version
+ *   6   u16      reserved (0)
+ *   8   u32      header length in bytes (UTF-8 JSON, zero-padded to a 4-byte boundary)
+ *   12  header   { schemaVersion, frameRate, sensorNames, edges, numFrames, numSensors, blocks,
+ *                  calibration?, derivedFrom?, recording? }
+ *   ... Float32 blocks, each 4-byte aligned, addressed by `blocks[i].offset` from the data start
+ *
+ * Blocks are decoded as Float32Array views on the loaded buffer, so nothing is copied
+ * or expanded into nested arrays.
+ */
+
+import type { DatasetPayload, RawSensorEntry, SignalName } from '@/lib/dataset'
+import { SIGNAL_NAMES } from '@/lib/dataset'
+import { DATASET_SCHEMA_VERSION } from '@/lib/dataset-schema'
+import { isPackedFrames, isPackedSeries, seriesDims, seriesLength, seriesValue, type Series } from '@/lib/series'
+
+export const BINARY_DATASET_EXTENSION = '.pjds'
+export const BINARY_DATASET_VERSION = 1
+
+const MAGIC = 'PJDS'
+const PREAMBLE_BYTES = 12
+
+interface BlockInfo {
+  kind: 'frames' | 'signal'
+  joint?: string
+  signal?: SignalName
+  length: number
+  dims: number
+  offset: number // bytes from the start of the data section
+}
+
+interface BinaryHeader {
+  schemaVersion?: number
+  frameRate: number
+  sensorNames: string[]
+  edges: [string, string][]
+  numFrames: number
+  numSensors: number
+  blocks: BlockInfo[]
+  calibration?: DatasetPayload['calibration']
+  derivedFrom?: DatasetPayload['derivedFrom']
+  recording?: DatasetPayload['recording']
+}
+
+const align4 = (n: number) => (n + 3) & ~3
+
+export function isBinaryDataset(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < PREAMBLE_BYTES) return false
+  const bytes = new Uint8Array(buffer, 0, 4)
+  return String.fromCharCode(...bytes) === MAGIC
+}
+
+function framesToFloat32(payload: DatasetPayload): Float32Array {
+  const frames = payload.frames
+  if (isPackedFrames(frames)) return frames.data
+  const out = new Float32Array(payload.numFrames * payload.numSensors * 3)
+  for (let f = 0; f < payload.numFrames; f++) {
+    for (let j = 0; j < payload.numSensors; j++) {
+      const p = frames[f]?.[j]
+      const base = (f * payload.numSensors + j) * 3
+      out[base] = p?.[0] ?? NaN
+      out[base + 1] = p?.[1] ?? NaN
+      out[base + 2] = p?.[2] ?? NaN
+    }
+  }
+  return out
+}
+
+function seriesToFloat32(series: Series): Float32Array {
+  if (isPackedSeries(series)) return series.data
+  const n = seriesLength(series)
+  const dims = seriesDims(series)
+  const out = new Float32Array(n * dims)
+  for (let i = 0; i < n; i++) {
+    for (let d = 0; d < dims; d++) out[i * dims + d] = seriesValue(series, i, d) ?? NaN
+  }
+  return out
+}
+
+/**
+ * Serialize a payload (nested or packed) into the binary container.
+ */
+export function encodeBinaryDataset(payload: DatasetPayload): ArrayBuffer {
+  const arrays: Float32Array[] = []
+  const blocks: BlockInfo[] = []
+  let offset = 0
+  const push = (info: Omit<BlockInfo, 'offset'>, data: Float32Array) => {
+    blocks.push({ ...info, offset })
+    arrays.push(data)
+    offset += data.byteLength
+  }
+
+  push({ kind: 'frames', length: payload.numFrames, dims: payload.numSensors * 3 }, framesToFloat32(payload))
+  for (const joint of Object.keys(payload.rawSensorData ?? {})) {
+    const entry = payload.rawSensorData![joint]
+    for (const signal of SIGNAL_NAMES) {
+      const series = entry[signal]
+      if (!series) continue
+      push({ kind: 'signal', joint, signal, length: seriesLength(series), dims: seriesDims(series) }, seriesToFloat32(series))
+    }
+  }
+
+  const header: BinaryHeader = {
+    schemaVersion: payload.version ?? DATASET_SCHEMA_VERSION,
+    frameRate: payload.frameRate,
+    sensorNames: payload.sensorNames,
+    edges: payload.edges,
+    numFrames: payload.numFrames,
+    numSensors: payload.numSensors,
+    blocks,
+  }
+  if (payload.calibration) header.calibration = payload.calibration
+  if (payload.derivedFrom) header.derivedFrom = payload.derivedFrom
+  if (payload.recording) header.recording = payload.recording
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header))
+  const headerLength = align4(headerBytes.byteLength)
+  const dataStart = PREAMBLE_BYTES + headerLength
+
+  const buffer = new ArrayBuffer(dataStart + offset)
+  const view = new DataView(buffer)
+  for (let i = 0; i < 4; i++) view.setUint8(i, MAGIC.charCodeAt(i))
+  view.setUint16(4, BINARY_DATASET_VERSION, true)
+  view.setUint16(6, 0, true)
+  view.setUint32(8, headerLength, true)
+  new Uint8Array(buffer, PREAMBLE_BYTES, headerBytes.byteLength).set(headerBytes)
+  // Float32Array views use platform byte order; every supported browser is little-endian
+  for (let i = 0; i < arrays.length; i++) {
+    new Float32Array(buffer, dataStart + blocks[i].offset, arrays[i].length).set(arrays[i])
+  }
+  return buffer
+}
+
+/**
+ * Decode a binary container into a typed-array-backed payload (views on `buffer`).
+ */
+export function decodeBinaryDataset(buffer: ArrayBuffer): DatasetPayload {
+  if (!isBinaryDataset(buffer)) throw new Error('Not a binary dataset (missing PJDS header)')
+  const view = new DataView(buffer)
+  const version = view.getUint16(4, true)
+  if (version > BINARY_DATASET_VERSION) {
+    throw new Error(`Binary dataset version ${version} is newer than supported (${BINARY_DATASET_VERSION})`)
+  }
+  const headerLength = view.getUint32(8, true)
+  const dataStart = PREAMBLE_BYTES + headerLength
+  if (dataStart > buffer.byteLength) throw new Error('Binary dataset header is truncated')
+  const headerText = new TextDecoder().decode(new Uint8Array(buffer, PREAMBLE_BYTES, headerLength)).replace(/\0+$/, '')
+  const header = JSON.parse(headerText) as BinaryHeader
+
+  const viewBlock = (block: BlockInfo) => {
+    const count = block.length * block.dims
+    const start = dataStart + block.offset
+    if (start + count * 4 > buffer.byteLength) {
+      throw new Error(`Binary dataset block ${block.joint ?? block.kind}/${block.signal ?? ''} exceeds file size`)
+    }
+    return new Float32Array(buffer, start, count)
+  }
+
+  const payload: DatasetPayload = {
+    // Containers written before the header carried it were produced from current-schema payloads
+    version: header.schemaVersion ?? DATASET_SCHEMA_VERSION,
+    frameRate: header.frameRate,
+    sensorNames: header.sensorNames,
+    edges: header.edges,
+    numFrames: header.numFrames,
+    numSensors: header.numSensors,
+    frames: { numFrames: header.numFrames, numSensors: header.numSensors, data: new Float32Array(0) },
+  }
+  const rawSensorData: { [joint: string]: RawSensorEntry } = {}
+  for (const block of header.blocks) {
+    if (block.kind === 'frames') {
+      payload.frames = { numFrames: block.length, numSensors: block.dims / 3, data: viewBlock(block) }
+    } else if (block.joint && block.signal) {
+      const entry = (rawSensorData[block.joint] ??= {})
+      entry[block.signal] = { length: block.length, dims: block.dims, data: viewBlock(block) }
+    }
+  }
+  if (Object.keys(rawSensorData).length > 0) payload.rawSensorData = rawSensorData
+  if (header.calibration) payload.calibration = header.calibration
+  if (header.derivedFrom) payload.derivedFrom = header.derivedFrom
+  if (header.recording) payload.recording = header.recording
+  return payload
+}
@@ -0,0 +1,233 @@
+/**
+ * BVH export of the rendered skeleton (joint positions in viewer space: y-up, cm).
+ *
+ * The hierarchy follows EDGES rooted at lumbar. Two channel layouts are supported:
+ *   rotations  root: X/Y/Z position + Z/X/Y rotation, joints: Z/X/Y rotation. Each joint is
+ *              rotated so its bones point at its children; bone lengths stay at the rest
+ *              pose, which is what animation tools expect.
+ *   positions  every joint: X/Y/Z position (local to its parent). Reproduces the recorded
+ *              positions exactly, for biomechanics tools that read translations.
+ */
+
+import { readCalibratedPosition, type Calibration, type DatasetPayload } from '@/lib/dataset'
+import type { FrameRange } from '@/lib/chunked-dataset'
+import { buildJointHierarchy, exampleTPose, type JointHierarchy } from '@/lib/skeleton-constants'
+import type { Vec3 } from '@/lib/quaternion'
+
+export type BvhRestPose = 'first-frame' | 'tpose'
+export type BvhChannelLayout = 'rotations' | 'positions'
+
+export interface BvhExportOptions {
+  calibration?: Calibration
+  /** Frames [start, end) to export; defaults to the whole recording */
+  range?: FrameRange
+  restPose?: BvhRestPose
+  channels?: BvhChannelLayout
+  /** Subject height for the T-pose rest offsets */
+  heightM?: number
+}
+
+type Mat3 = number[] // row-major 3x3
+
+const IDENTITY: Mat3 = [1, 0, 0, 0, 1, 0, 0, 0, 1]
+const RAD2DEG = 180 / Math.PI
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]]
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]]
+const norm = (a: Vec3) => Math.hypot(a[0], a[1], a[2])
+const scale = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s]
+
+function normalize(a: Vec3): Vec3 | null {
+  const n = norm(a)
+  return n > 1e-9 ? scale(a, 1 / n) : null
+}
+
+function matMul(a: Mat3, b: Mat3): Mat3 {
+  const out = new Array(9).fill(0)
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      out[r * 3 + c] = a[r * 3] * b[c] + a[r * 3 + 1] * b[3 + c] + a[r * 3 + 2] * b[6 + c]
+    }
+  }
+  return out
+}
+
+function transpose(m: Mat3): Mat3 {
+  return [m[0], m[3], m[6], m[1], m[4], m[7], m[2], m[5], m[8]]
+}
+
+// Columns are the basis vectors
+function fromColumns(x: Vec3, y: Vec3, z: Vec3): Mat3 {
+  return [x[0], y[0], z[0], x[1], y[1], z[1], x[2], y[2], z[2]]
+}
+
+// Shortest-arc rotation taking unit vector a onto unit vector b (Rodrigues)
+function rotationBetween(a: Vec3, b: Vec3): Mat3 {
+  const c = dot(a, b)
+  if (c > 1 - 1e-9) return IDENTITY.slice()
+  let axis = cross(a, b)
+  if (c < -1 + 1e-9) {
+    // Opposite vectors: rotate 180° about any perpendicular axis
+    axis = normalize(cross(a, Math.abs(a[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0]))!
+    const [x, y, z] = axis
+    return [2 * x * x - 1, 2 * x * y, 2 * x * z, 2 * x * y, 2 * y * y - 1, 2 * y * z, 2 * x * z, 2 * y * z, 2 * z * z - 1]
+  }
+  const [x, y, z] = axis
+  const k = 1 / (1 + c)
+  return [
+    c + x * x * k, x * y * k - z, x * z * k + y,
+    x * y * k + z, c + y * y * k, y * z * k - x,
+    x * z * k - y, y * z * k + x, c + z * z * k,
+  ]
+}
+
+// Orthonormal frame from a primary and a secondary direction (Gram-Schmidt)
+function frameFrom(primary: Vec3, secondary: Vec3): Mat3 | null {
+  const x = normalize(primary)
+  if (!x) return null
+  const y = normalize(sub(secondary, scale(x, dot(secondary, x))))
+  if (!y) return null
+  return fromColumns(x, y, cross(x, y))
+}
+
+/**
+ * Global rotation of a joint taking its rest-pose child bones onto the current ones:
+ * shortest arc for one child, best frame through the first two children otherwise.
+ */
+function jointRotation(restBones: Vec3[], bones: Vec3[]): Mat3 {
+  if (restBones.length >= 2) {
+    const rest = frameFrom(restBones[0], restBones[1])
+    const cur = frameFrom(bones[0], bones[1])
+    if (rest && cur) return matMul(cur, transpose(rest))
+  }
+  const a = normalize(restBones[0])
+  const b = normalize(bones[0])
+  return a && b ? rotationBetween(a, b) : IDENTITY.slice()
+}
+
+// BVH "Zrotation Xrotation Yrotation" means R = Rz · Rx · Ry; returns degrees [z, x, y]
+function toEulerZXY(m: Mat3): Vec3 {
+  const sx = Math.max(-1, Math.min(1, m[7]))
+  const x = Math.asin(sx)
+  let y: number
+  let z: number
+  if (Math.abs(sx) < 1 - 1e-9) {
+    y = Math.atan2(-m[6], m[8])
+    z = Math.atan2(-m[1], m[4])
+  } else {
+    y = 0
+    z = Math.atan2(m[3], m[0])
+  }
+  return [z * RAD2DEG, x * RAD2DEG, y * RAD2DEG]
+}
+
+function fmt(v: number): string {
+  return Number.isFinite(v) ? (Math.abs(v) < 5e-7 ? '0' : v.toFixed(6).replace(/\.?0+$/, '')) : '0'
+}
+
+function tPoseRest(heightM: number): Record<string, Vec3> {
+  const out: Record<string, Vec3> = {}
+  const pose = exampleTPose(heightM)
+  // Python skeleton is z-up metres; viewer space is y-up cm
+  for (const name of Object.keys(pose)) {
+    const [x, y, z] = pose[name]
+    out[name] = [x * 100, z * 100, -y * 100]
+  }
+  return out
+}
+
+/**
+ * Serialize the skeleton motion as BVH text.
+ */
+export function exportBvh(payload: DatasetPayload, options: BvhExportOptions = {}): string {
+  const { calibration, restPose = 'first-frame', channels = 'rotations', heightM = 1.75 } = options
+  const start = Math.max(0, Math.min(payload.numFrames - 1, Math.floor(options.range?.[0] ?? 0)))
+  const end = Math.max(start + 1, Math.min(payload.numFrames, Math.floor(options.range?.[1] ?? payload.numFrames)))
+
+  const tree: JointHierarchy = buildJointHierarchy(payload.edges, 'lumbar')
+  const index: Record<string, number> = {}
+  for (const name of tree.order) {
+    const i = payload.sensorNames.indexOf(name)
+    if (i < 0) throw new Error(`BVH export: joint "${name}" is not in sensorNames`)
+    index[name] = i
+  }
+
+  // Per-frame calibrated positions; missing samples hold the previous valid value
+  const p = [0, 0, 0]
+  let last: Record<string, Vec3> | null = null
+  const framePositions = (f: number): Record<string, Vec3> => {
+    const out: Record<string, Vec3> = {}
+    for (const name of tree.order) {
+      const ok = readCalibratedPosition(payload, calibration, f, index[name], p) &&
+        Number.isFinite(p[0]) && Number.isFinite(p[1]) && Number.isFinite(p[2])
+      out[name] = ok ? [p[0], p[1], p[2]] : (last?.[name] ?? [0, 0, 0])
+    }
+    last = out
+    return out
+  }
+
+  const first = framePositions(start)
+  const rest = restPose === 'tpose' ? tPoseRest(heightM) : first
+  const restOffset = (name: string): Vec3 => {
+    const parent = tree.parent[name]
+    return parent ? sub(rest[name], rest[parent]) : [0, 0, 0]
+  }
+
+  // Hierarchy
+  const lines: string[] = ['HIERARCHY']
+  const writeJoint = (name: string, depth: number) => {
+    const pad = '\t'.repeat(depth)
+    const parent = tree.parent[name]
+    lines.push(`${pad}${parent ? 'JOINT' : 'ROOT'} ${name}`)
+    lines.push(`${pad}{`)
+    lines.push(`${pad}\tOFFSET ${restOffset(name).map(fmt).join(' ')}`)
+    if (!parent && channels === 'rotations') lines.push(`${pad}\tCHANNELS 6 Xposition Yposition Zposition Zrotation Xrotation Yrotation`)
+    else if (channels === 'rotations') lines.push(`${pad}\tCHANNELS 3 Zrotation Xrotation Yrotation`)
+    else lines.push(`${pad}\tCHANNELS 3 Xposition Yposition Zposition`)
+    const kids = tree.children[name]
+    if (kids.length === 0) {
+      // Leaf: short end site continuing the incoming bone
+      const dir = parent ? normalize(restOffset(name)) : null
+      lines.push(`${pad}\tEnd Site`)
+      lines.push(`${pad}\t{`)
+      lines.push(`${pad}\t\tOFFSET ${(dir ? scale(dir, 5) : [0, 5, 0]).map(fmt).join(' ')}`)
+      lines.push(`${pad}\t}`)
+    }
+    for (const child of kids) writeJoint(child, depth + 1)
+    lines.push(`${pad}}`)
+  }
+  writeJoint(tree.root, 0)
+
+  // Motion
+  const restBones: Record<string, Vec3[]> = {}
+  for (const name of tree.order) restBones[name] = tree.children[name].map(c => sub(rest[c], rest[name]))
+
+  lines.push('MOTION')
+  lines.push(`Frames: ${end - start}`)
+  lines.push(`Frame Time: ${fmt(1 / payload.frameRate)}`)
+  for (let f = start; f < end; f++) {
+    const pos = f === start ? first : framePositions(f)
+    const values: number[] = []
+    if (channels === 'positions') {
+      for (const name of tree.order) {
+        const parent = tree.parent[name]
+        values.push(...(parent ? sub(pos[name], pos[parent]) : pos[name]))
+      }
+    } else {
+      const global: Record<string, Mat3> = {}
+      for (const name of tree.order) {
+        const parent = tree.parent[name]
+        const kids = tree.children[name]
+        global[name] = kids.length > 0
+          ? jointRotation(restBones[name], kids.map(c => sub(pos[c], pos[name])))
+          : global[parent!]
+        const local = parent ? matMul(transpose(global[parent]), global[name]) : global[name]
+        if (!parent) values.push(...pos[name])
+        values.push(...toEulerZXY(local))
+      }
+    }
+    lines.push(values.map(fmt).join(' '))
+  }
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,121 @@
+/**
+ * Skeleton centering, following export_web_dataset.py (not numerically checked against it): a
+ * horizontal anchor (lumbar or the bounding-box center) is tracked with an exponential moving
+ * average and subtracted per frame. With vertical lock the height axis is shifted once so the
+ * lowest joint of the first frame rests on the ground; without it the anchor's smoothed height
+ * is subtracted as well.
+ *
+ * Centering is a per-frame translation of all joints, so it is computed as an offset table
+ * that can be applied at draw time (view option) or baked into a copy of the frames.
+ */
+
+import type { DatasetPayload } from '@/lib/dataset'
+import { framesLength, readFramePosition, type Frames } from '@/lib/series'
+
+export type CenterAnchor = 'lumbar' | 'bbox'
+
+export interface CenteringOptions {
+  anchor: CenterAnchor
+  /** EMA weight of the newest anchor sample (1 = no smoothing) */
+  emaAlpha: number
+  verticalLock: boolean
+}
+
+/**
+ * Intended to match the exporter's defaults. Not verified: there is no exporter reference
+ * output to test against, so the 0.1 alpha and the vertical lock may differ from it.
+ */
+export const DEFAULT_CENTERING: CenteringOptions = { anchor: 'lumbar', emaAlpha: 0.1, verticalLock: true }
+
+/**
+ * Per-frame offsets [f * 3 + axis] (viewer cm) to subtract from every joint of frame f.
+ * Frames without finite positions (dropped samples, chunks not loaded yet) keep the previous
+ * smoothed anchor instead of disturbing the average. The lumbar anchor falls back to the
+ * bounding box when the dataset has no lumbar joint.
+ */
+export function computeCenteringOffsets(frames: Frames, sensorNames: readonly string[], options: CenteringOptions): Float64Array {
+  const numFrames = framesLength(frames)
+  const numSensors = sensorNames.length
+  const lumbarIndex = options.anchor === 'lumbar' ? sensorNames.indexOf('lumbar') : -1
+  const alpha = options.emaAlpha
+  const offsets = new Float64Array(numFrames * 3)
+  const p = [0, 0, 0]
+  const min = [0, 0, 0]
+  const max = [0, 0, 0]
+  let ema: number[] | null = null
+  let groundOffset: number | null = null
+
+  for (let f = 0; f < numFrames; f++) {
+    let valid = false
+    if (lumbarIndex >= 0) {
+      valid = readFramePosition(frames, f, lumbarIndex, p) && Number.isFinite(p[0]) && Number.isFinite(p[1]) && Number.isFinite(p[2])
+    } else {
+      min.fill(Infinity)
+      max.fill(-Infinity)
+      for (let j = 0; j < numSensors; j++) {
+        if (!readFramePosition(frames, f, j, p)) continue
+        for (let d = 0; d < 3; d++) {
+          if (p[d] < min[d]) min[d] = p[d]
+          if (p[d] > max[d]) max[d] = p[d]
+        }
+      }
+      valid = Number.isFinite(min[0]) && Number.isFinite(min[1]) && Number.isFinite(min[2])
+      if (valid) for (let d = 0; d < 3; d++) p[d] = (min[d] + max[d]) / 2
+    }
+
+    if (valid) {
+      if (ema) {
+        for (let d = 0; d < 3; d++) ema[d] += alpha * (p[d] - ema[d])
+      } else {
+        ema = [p[0], p[1], p[2]]
+      }
+      if (groundOffset === null) groundOffset = lowestJoint(frames, f, numSensors)
+    }
+    if (!ema) continue
+    offsets[f * 3] = ema[0]
+    offsets[f * 3 + 1] = options.verticalLock ? groundOffset! : ema[1]
+    offsets[f * 3 + 2] = ema[2]
+  }
+  return offsets
+}
+
+function lowestJoint(frames: Frames, f: number, numSensors: number): number {
+  const p = [0, 0, 0]
+  let lowest = Infinity
+  for (let j = 0; j < numSensors; j++) {
+    if (readFramePosition(frames, f, j, p) && p[1] < lowest) lowest = p[1]
+  }
+  return Number.isFinite(lowest) ? lowest : 0
+}
+
+/** Center nested frames in place (used by the importers, like the exporter does before writing). */
+export function centerFrames(frames: number[][][], sensorNames: readonly string[], options: CenteringOptions) {
+  const offsets = computeCenteringOffsets(frames, sensorNames, options)
+  for (let f = 0; f < frames.length; f++) {
+    for (const p of frames[f]) {
+      p[0] -= offsets[f * 3]
+      p[1] -= offsets[f * 3 + 1]
+      p[2] -= offsets[f * 3 + 2]
+    }
+  }
+}
+
+/** Copy of the dataset with centered frames; packed frames stay packed. */
+export function centerDataset(payload: DatasetPayload, options: CenteringOptions): DatasetPayload {
+  const offsets = computeCenteringOffsets(payload.frames, payload.sensorNames, options)
+  const src = payload.frames
+  let frames: Frames
+  if (Array.isArray(src)) {
+    frames = src.map((frame, f) => frame.map(p => [p[0] - offsets[f * 3], p[1] - offsets[f * 3 + 1], p[2] - offsets[f * 3 + 2]]))
+  } else {
+    const data = new Float32Array(src.data.length)
+    for (let f = 0; f < src.numFrames; f++) {
+      for (let j = 0; j < src.numSensors; j++) {
+        const base = (f * src.numSensors + j) * 3
+        for (let d = 0; d < 3; d++) data[base + d] = src.data[base + d] - offsets[f * 3 + d]
+      }
+    }
+    frames = { numFrames: src.numFrames, numSensors: src.numSensors, data }
+  }
+  return { ...payload, frames }
+}
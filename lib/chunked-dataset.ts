@@ -0,0 +1,197 @@
+/**
+ * Chunked datasets: an index JSON plus time-sliced chunk files (.pjds or JSON) that load
+ * progressively, so playback can start on the first chunk.
+ *
+ * Index format:
+ *   { "format": "chunked", "frameRate", "sensorNames", "edges", "numFrames", "numSensors",
+ *     "chunks": [{ "start": 0, "count": 1024, "path": "chunk-000.pjds" }, ...] }
+ * Chunk paths are resolved relative to the index URL.
+ */
+
+import { SIGNAL_NAMES, sliceDataset, type DatasetPayload, type RawSensorEntry } from '@/lib/dataset'
+import { encodeBinaryDataset, BINARY_DATASET_EXTENSION } from '@/lib/binary-dataset'
+import { createPackedSeries, readFramePosition, readSeriesRow, seriesDims, seriesLength, type PackedFrames, type PackedSeries } from '@/lib/series'
+
+/** Half-open frame range [start, end) */
+export type FrameRange = [number, number]
+
+export interface ChunkInfo {
+  start: number
+  count: number
+  path: string
+}
+
+export interface ChunkedDatasetIndex {
+  format: 'chunked'
+  frameRate: number
+  sensorNames: string[]
+  edges: [string, string][]
+  numFrames: number
+  numSensors: number
+  chunks: ChunkInfo[]
+}
+
+export function isChunkedIndex(raw: any): raw is ChunkedDatasetIndex {
+  return !!raw && typeof raw === 'object' && raw.format === 'chunked' && Array.isArray(raw.chunks)
+}
+
+export function isFrameInRanges(ranges: FrameRange[], frame: number): boolean {
+  for (const [a, b] of ranges) if (frame >= a && frame < b) return true
+  return false
+}
+
+function addRange(ranges: FrameRange[], range: FrameRange): FrameRange[] {
+  const all = [...ranges, range].sort((a, b) => a[0] - b[0])
+  const out: FrameRange[] = []
+  for (const r of all) {
+    const last = out[out.length - 1]
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1])
+    else out.push([r[0], r[1]])
+  }
+  return out
+}
+
+export interface ChunkedDatasetLoader {
+  /** Payload with preallocated typed arrays; chunks are copied in as they arrive */
+  payload: DatasetPayload
+  buffered: () => FrameRange[]
+  /** Load the chunk containing `frame` next (e.g. after a seek) */
+  prioritize: (frame: number) => void
+  /** Resolves when every chunk has loaded */
+  done: Promise<void>
+}
+
+export interface ChunkedLoadOptions {
+  signal?: AbortSignal
+  onProgress?: (buffered: FrameRange[]) => void
+  /** Chunk fetcher; receives the resolved chunk URL */
+  fetchChunk: (url: string, init?: RequestInit) => Promise<DatasetPayload>
+}
+
+function copyChunk(target: DatasetPayload, chunk: DatasetPayload, start: number) {
+  const frames = target.frames as PackedFrames
+  const pos = [0, 0, 0]
+  const count = Math.min(chunk.numFrames, target.numFrames - start)
+  for (let f = 0; f < count; f++) {
+    for (let j = 0; j < frames.numSensors; j++) {
+      if (!readFramePosition(chunk.frames, f, j, pos)) continue
+      frames.data.set(pos, ((start + f) * frames.numSensors + j) * 3)
+    }
+  }
+  for (const joint of Object.keys(chunk.rawSensorData ?? {})) {
+    const src = chunk.rawSensorData![joint]
+    const dst = target.rawSensorData?.[joint]
+    if (!dst) continue
+    for (const signal of SIGNAL_NAMES) {
+      const s = src[signal]
+      const d = dst[signal] as PackedSeries | undefined
+      if (!s || !d) continue
+      const row = new Array(d.dims).fill(NaN)
+      const n = Math.min(seriesLength(s), count)
+      for (let i = 0; i < n; i++) {
+        if (readSeriesRow(s, i, row)) d.data.set(row, (start + i) * d.dims)
+      }
+    }
+  }
+}
+
+/**
+ * Start loading a chunked dataset. Resolves once the first chunk is in place; the remaining
+ * chunks keep loading one at a time in the background (in order, unless prioritized).
+ */
+export async function openChunkedDataset(indexUrl: string, index: ChunkedDatasetIndex, options: ChunkedLoadOptions): Promise<ChunkedDatasetLoader> {
+  const { signal, onProgress, fetchChunk } = options
+  const base = new URL(indexUrl, typeof window !== 'undefined' ? window.location.href : 'http://localhost/')
+  const chunkUrl = (c: ChunkInfo) => new URL(c.path, base).toString()
+  if (index.chunks.length === 0) throw new Error('Chunked dataset has no chunks')
+
+  const first = await fetchChunk(chunkUrl(index.chunks[0]), { signal })
+
+  // Allocate full-length packed arrays, shaped after the first chunk; unloaded samples stay NaN
+  const frames: PackedFrames = {
+    numFrames: index.numFrames,
+    numSensors: index.numSensors,
+    data: new Float32Array(index.numFrames * index.numSensors * 3).fill(NaN),
+  }
+  const payload: DatasetPayload = {
+    frameRate: index.frameRate,
+    sensorNames: index.sensorNames,
+    edges: index.edges,
+    numFrames: index.numFrames,
+    numSensors: index.numSensors,
+    frames,
+  }
+  if (first.rawSensorData) {
+    payload.rawSensorData = {}
+    for (const joint of Object.keys(first.rawSensorData)) {
+      const entry: RawSensorEntry = {}
+      for (const signal of SIGNAL_NAMES) {
+        const s = first.rawSensorData[joint][signal]
+        if (!s) continue
+        const packed = createPackedSeries(index.numFrames, seriesDims(s))
+        packed.data.fill(NaN)
+        entry[signal] = packed
+      }
+      payload.rawSensorData[joint] = entry
+    }
+  }
+
+  let buffered: FrameRange[] = []
+  const markLoaded = (c: ChunkInfo) => {
+    buffered = addRange(buffered, [c.start, Math.min(index.numFrames, c.start + c.count)])
+    onProgress?.(buffered)
+  }
+  copyChunk(payload, first, index.chunks[0].start)
+  markLoaded(index.chunks[0])
+
+  const queue = index.chunks.slice(1)
+  const prioritize = (frame: number) => {
+    const i = queue.findIndex(c => frame >= c.start && frame < c.start + c.count)
+    if (i > 0) queue.unshift(...queue.splice(i, 1))
+  }
+
+  const done = (async () => {
+    while (queue.length > 0) {
+      if (signal?.aborted) return
+      const chunk = queue.shift()!
+      try {
+        const data = await fetchChunk(chunkUrl(chunk), { signal })
+        if (signal?.aborted) return
+        copyChunk(payload, data, chunk.start)
+        markLoaded(chunk)
+      } catch (e: any) {
+        if (e?.name === 'AbortError') return
+        throw e
+      }
+    }
+  })()
+
+  return { payload, buffered: () => buffered, prioritize, done }
+}
+
+/**
+ * Split a payload into binary chunks plus an index (for writing a chunked dataset to disk).
+ */
+export function buildChunkedDataset(payload: DatasetPayload, chunkFrames: number, baseName: string): { index: ChunkedDatasetIndex, chunks: { path: string, data: ArrayBuffer }[] } {
+  const size = Math.max(1, Math.floor(chunkFrames))
+  const chunks: { path: string, data: ArrayBuffer }[] = []
+  const infos: ChunkInfo[] = []
+  for (let start = 0, i = 0; start < payload.numFrames; start += size, i++) {
+    const slice = sliceDataset(payload, start, start + size)
+    const path = `${baseName}-${String(i).padStart(3, '0')}${BINARY_DATASET_EXTENSION}`
+    chunks.push({ path, data: encodeBinaryDataset(slice) })
+    infos.push({ start, count: slice.numFrames, path })
+  }
+  return {
+    index: {
+      format: 'chunked',
+      frameRate: payload.frameRate,
+      sensorNames: payload.sensorNames,
+      edges: payload.edges,
+      numFrames: payload.numFrames,
+      numSensors: payload.numSensors,
+      chunks: infos,
+    },
+    chunks,
+  }
+}
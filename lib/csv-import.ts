@@ -0,0 +1,277 @@
+/**
+ * Per-sensor CSV import (one file per sensor: timestamp plus quaternion/gyro/acc/mag columns).
+ * Columns are mapped onto rawSensorData signals, every sensor is resampled onto a common frame
+ * clock, and joint positions are solved from the orientations like the .h5 importer does.
+ */
+
+import { SIGNAL_COMPONENTS, SIGNAL_NAMES, type DatasetPayload, type SignalName } from '@/lib/dataset'
+import { DATASET_SCHEMA_VERSION } from '@/lib/dataset-schema'
+import { sensorNameFromLabel } from '@/lib/h5-dataset'
+import { solveSkeletonFrames, type PoseSolveOptions } from '@/lib/pose-solver'
+import { quatSlerp } from '@/lib/quaternion'
+import { EDGES, SENSOR_NAMES } from '@/lib/skeleton-constants'
+
+export const CSV_EXTENSIONS = ['.csv', '.tsv', '.txt']
+
+export function isCsvFile(file: File): boolean {
+  const name = file.name.toLowerCase()
+  return CSV_EXTENSIONS.some(ext => name.endsWith(ext)) || file.type === 'text/csv'
+}
+
+export interface CsvTable {
+  headers: string[]
+  /** Column-major numeric data; unparseable cells are NaN */
+  columns: Float64Array[]
+  rowCount: number
+}
+
+export type CsvTimeUnit = 's' | 'ms' | 'us'
+
+const TIME_UNIT_SCALE: Record<CsvTimeUnit, number> = { s: 1, ms: 1e-3, us: 1e-6 }
+
+export interface CsvColumnMapping {
+  /** Timestamp column, or null to assume a fixed sample rate */
+  time: number | null
+  timeUnit: CsvTimeUnit
+  /** Column index per signal component (in SIGNAL_COMPONENTS order); -1 leaves it unmapped */
+  signals: { [K in SignalName]?: number[] }
+}
+
+export interface CsvSensorSource {
+  fileName: string
+  joint: string | null
+  table: CsvTable
+  mapping: CsvColumnMapping
+}
+
+export interface CsvBuildOptions extends PoseSolveOptions {
+  /** Output frame rate; defaults to the median sample rate of the sources */
+  frameRate?: number
+  /** Sample rate for files without a timestamp column */
+  assumedSampleRate?: number
+}
+
+function detectDelimiter(line: string): string {
+  const counts: [string, number][] = [',', ';', '\t'].map(d => [d, line.split(d).length - 1])
+  counts.sort((a, b) => b[1] - a[1])
+  return counts[0][1] > 0 ? counts[0][0] : ','
+}
+
+function splitLine(line: string, delimiter: string): string[] {
+  return line.split(delimiter).map(cell => cell.trim().replace(/^"(.*)"$/, '$1').trim())
+}
+
+/**
+ * Parse delimited text (comma, semicolon or tab). The first row is used as headers when it is
+ * not numeric; blank lines and `#` comments are skipped.
+ */
+export function parseCsv(text: string): CsvTable {
+  const lines = text.split(/\r?\n/).filter(l => l.trim() !== '' && !l.trimStart().startsWith('#'))
+  if (lines.length === 0) throw new Error('file is empty')
+  const delimiter = detectDelimiter(lines[0])
+  // Semicolon-separated files commonly use decimal commas
+  const decimalComma = delimiter === ';'
+  const toNumber = (cell: string) => {
+    if (cell === '') return NaN
+    const n = Number(decimalComma ? cell.replace(',', '.') : cell)
+    return Number.isFinite(n) ? n : NaN
+  }
+
+  const first = splitLine(lines[0], delimiter)
+  const hasHeader = first.some(cell => cell !== '' && Number.isNaN(toNumber(cell)))
+  const headers = hasHeader ? first : first.map((_, i) => `column ${i + 1}`)
+  const body = hasHeader ? lines.slice(1) : lines
+  const columns = headers.map(() => new Float64Array(body.length))
+  for (let r = 0; r < body.length; r++) {
+    const cells = splitLine(body[r], delimiter)
+    for (let c = 0; c < headers.length; c++) columns[c][r] = toNumber(cells[c] ?? '')
+  }
+  return { headers, columns, rowCount: body.length }
+}
+
+function guessSignal(header: string): SignalName | null {
+  if (/quat|orient|^q[_\s.-]?[wxyz0-3]$/.test(header)) return 'orientation'
+  if (/gyr|angular|omega/.test(header)) return 'gyroscope'
+  if (/acc/.test(header)) return 'accelerometer'
+  if (/mag/.test(header)) return 'magnetometer'
+  return null
+}
+
+function guessComponent(header: string, signal: SignalName): number {
+  const m = header.match(/([wxyz0-3])$/)
+  if (!m) return -1
+  const components = SIGNAL_COMPONENTS[signal]
+  if (/[0-3]/.test(m[1])) return signal === 'orientation' ? Number(m[1]) : -1
+  return components.indexOf(m[1])
+}
+
+function guessTimeUnit(header: string, values: Float64Array): CsvTimeUnit {
+  if (/\b(us|µs|usec|micro)/.test(header)) return 'us'
+  if (/\b(ms|msec|milli)/.test(header)) return 'ms'
+  if (/\(s\)|\bsec|_s$/.test(header)) return 's'
+  const diffs: number[] = []
+  for (let i = 1; i < Math.min(values.length, 200); i++) {
+    const d = values[i] - values[i - 1]
+    if (Number.isFinite(d) && d > 0) diffs.push(d)
+  }
+  diffs.sort((a, b) => a - b)
+  const dt = diffs[Math.floor(diffs.length / 2)] ?? 0
+  return dt > 0 && dt < 0.5 ? 's' : dt < 500 ? 'ms' : 'us'
+}
+
+/**
+ * Propose a column mapping from header names (e.g. "time", "quat_w", "gyro x (rad/s)", "AccZ").
+ */
+export function guessColumnMapping(table: CsvTable): CsvColumnMapping {
+  const mapping: CsvColumnMapping = { time: null, timeUnit: 's', signals: {} }
+  table.headers.forEach((raw, c) => {
+    const header = raw.replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase()
+      .replace(/[(\[][^)\]]*[)\]]/g, '').trim()
+    if (mapping.time === null && /^(time|timestamp|t|ts|time_?s|time_?ms|time_?us)\b/.test(header)) {
+      mapping.time = c
+      mapping.timeUnit = guessTimeUnit(raw.toLowerCase(), table.columns[c])
+      return
+    }
+    const signal = guessSignal(header)
+    if (!signal) return
+    const component = guessComponent(header, signal)
+    if (component < 0) return
+    const columns = (mapping.signals[signal] ??= SIGNAL_COMPONENTS[signal].map(() => -1))
+    if (columns[component] < 0) columns[component] = c
+  })
+  return mapping
+}
+
+/**
+ * Joint for a file from its name ("foot_left.csv", "Left Foot.csv", "S01_LeftThigh.csv").
+ */
+export function guessJointFromFileName(fileName: string): string | null {
+  const stem = fileName.replace(/\.[^.]+$/, '').replace(/([a-z])([A-Z])/g, '$1 $2')
+  const direct = sensorNameFromLabel(stem)
+  if (direct) return direct
+  // Drop subject/session prefixes one token at a time
+  const tokens = stem.split(/[\s_.-]+/)
+  for (let i = 1; i < tokens.length; i++) {
+    const name = sensorNameFromLabel(tokens.slice(i).join(' '))
+    if (name) return name
+  }
+  return null
+}
+
+export function createCsvSource(fileName: string, text: string): CsvSensorSource {
+  const table = parseCsv(text)
+  return { fileName, joint: guessJointFromFileName(fileName), table, mapping: guessColumnMapping(table) }
+}
+
+interface TimedSource {
+  joint: string
+  times: number[]
+  rows: { [K in SignalName]?: number[][] }
+}
+
+function toTimed(source: CsvSensorSource, assumedRate: number): TimedSource {
+  const { table, mapping } = source
+  const scale = TIME_UNIT_SCALE[mapping.timeUnit]
+  const times: number[] = []
+  const rows: TimedSource['rows'] = {}
+  const signals = SIGNAL_NAMES.filter(s => mapping.signals[s]?.some(c => c >= 0))
+  for (const s of signals) rows[s] = []
+  let lastTime = -Infinity
+  for (let r = 0; r < table.rowCount; r++) {
+    const t = mapping.time === null ? r / assumedRate : table.columns[mapping.time][r] * scale
+    // Skip rows without a usable, increasing timestamp
+    if (!Number.isFinite(t) || t <= lastTime) continue
+    lastTime = t
+    times.push(t)
+    for (const s of signals) {
+      rows[s]!.push(mapping.signals[s]!.map(c => (c >= 0 ? table.columns[c][r] : NaN)))
+    }
+  }
+  return { joint: source.joint!, times, rows }
+}
+
+function sampleRate(times: number[]): number {
+  return times.length > 1 ? (times.length - 1) / (times[times.length - 1] - times[0]) : NaN
+}
+
+/** Sample rate implied by a source's timestamps (NaN when it has fewer than two rows). */
+export function estimateSampleRate(source: CsvSensorSource, assumedRate: number = 128): number {
+  return sampleRate(toTimed(source, assumedRate).times)
+}
+
+function resample(times: number[], rows: number[][], clock: number[], isQuat: boolean): number[][] {
+  const out: number[][] = new Array(clock.length)
+  let k = 0
+  for (let i = 0; i < clock.length; i++) {
+    const t = clock[i]
+    while (k < times.length - 2 && times[k + 1] < t) k++
+    const t0 = times[k]
+    const t1 = times[k + 1] ?? t0
+    const a = rows[k]
+    const b = rows[k + 1] ?? a
+    const u = t1 > t0 ? Math.min(1, Math.max(0, (t - t0) / (t1 - t0))) : 0
+    if (!a.every(Number.isFinite) || !b.every(Number.isFinite)) {
+      // Keep gaps visible instead of inventing data across them
+      out[i] = a.map((v, d) => (u < 0.5 ? v : b[d]))
+    } else if (isQuat) {
+      out[i] = quatSlerp(a, b, u)
+    } else {
+      out[i] = a.map((v, d) => v + (b[d] - v) * u)
+    }
+  }
+  return out
+}
+
+/**
+ * Build a playable payload from mapped per-sensor CSV sources. Only the time span covered by
+ * every source is kept; each signal is resampled onto that common clock (quaternions by slerp).
+ */
+export function buildDatasetFromCsv(sources: CsvSensorSource[], options: CsvBuildOptions = {}): DatasetPayload {
+  const assumedRate = options.assumedSampleRate ?? 128
+  const usable = sources.filter(s => s.joint)
+  if (usable.length === 0) throw new Error('Assign at least one file to a joint')
+  const seen = new Set<string>()
+  for (const s of usable) {
+    if (!(SENSOR_NAMES as readonly string[]).includes(s.joint!)) throw new Error(`${s.fileName}: unknown joint "${s.joint}"`)
+    if (seen.has(s.joint!)) throw new Error(`More than one file is assigned to ${s.joint}`)
+    seen.add(s.joint!)
+    if (!SIGNAL_NAMES.some(sig => s.mapping.signals[sig]?.some(c => c >= 0))) throw new Error(`${s.fileName}: no signal columns are mapped`)
+  }
+
+  const timed = usable.map(s => toTimed(s, assumedRate))
+  for (let i = 0; i < timed.length; i++) {
+    if (timed[i].times.length < 2) throw new Error(`${usable[i].fileName}: needs at least two rows with valid timestamps`)
+  }
+  const start = Math.max(...timed.map(t => t.times[0]))
+  const end = Math.min(...timed.map(t => t.times[t.times.length - 1]))
+  if (!(end > start)) throw new Error('The files do not overlap in time; check the timestamp columns and units')
+
+  const rates = timed.map(t => sampleRate(t.times)).sort((a, b) => a - b)
+  const frameRate = options.frameRate && options.frameRate > 0 ? options.frameRate : rates[Math.floor(rates.length / 2)]
+  const numFrames = Math.floor((end - start) * frameRate + 1e-9) + 1
+  const clock = Array.from({ length: numFrames }, (_, i) => start + i / frameRate)
+
+  const rawSensorData: { [joint: string]: { [K in SignalName]?: number[][] } } = {}
+  for (const t of timed) {
+    const entry: { [K in SignalName]?: number[][] } = {}
+    for (const signal of SIGNAL_NAMES) {
+      const rows = t.rows[signal]
+      if (rows) entry[signal] = resample(t.times, rows, clock, signal === 'orientation')
+    }
+    rawSensorData[t.joint] = entry
+  }
+
+  const orientations: Record<string, number[][] | undefined> = {}
+  for (const joint of Object.keys(rawSensorData)) orientations[joint] = rawSensorData[joint].orientation
+
+  return {
+    version: DATASET_SCHEMA_VERSION,
+    frameRate,
+    sensorNames: [...SENSOR_NAMES],
+    edges: EDGES.map(([a, b]) => [a, b] as [string, string]),
+    numFrames,
+    numSensors: SENSOR_NAMES.length,
+    frames: solveSkeletonFrames(orientations, numFrames, options),
+    rawSensorData,
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Local dataset files (drag-and-drop / file picker): format detection and parsing.
+ * Schema migration and validation live in dataset-schema.
+ */
+
+import type { DatasetPayload } from '@/lib/dataset'
+import { prepareDataset, type ValidationIssue, type ValidationReport } from '@/lib/dataset-schema'
+import { loadH5Dataset } from '@/lib/h5-dataset'
+import { BINARY_DATASET_EXTENSION, decodeBinaryDataset } from '@/lib/binary-dataset'
+import { CSV_EXTENSIONS } from '@/lib/csv-import'
+import { getCachedArrayBuffer, getCachedJson } from '@/lib/utils'
+
+// CSV files are listed so the picker offers them; they go through the CSV import dialog
+export const DATASET_FILE_ACCEPT = `.json,.h5,.hdf5,${BINARY_DATASET_EXTENSION},${CSV_EXTENSIONS.join(',')},application/json`
+
+export class DatasetFileError extends Error {
+  constructor(public fileName: string, message: string) {
+    super(`${fileName}: ${message}`)
+    this.name = 'DatasetFileError'
+  }
+}
+
+export interface LoadedDataset {
+  payload: DatasetPayload
+  report: ValidationReport
+}
+
+/**
+ * Read a dropped/picked file in any supported format, migrated to the current schema and
+ * validated. Validation failures throw DatasetValidationError with the full report.
+ */
+export async function readDatasetFile(file: File): Promise<LoadedDataset> {
+  const name = file.name
+  const ext = name.toLowerCase().split('.').pop() ?? ''
+  let raw: unknown
+  let loaderWarnings: ValidationIssue[] = []
+  if (`.${ext}` === BINARY_DATASET_EXTENSION) {
+    try {
+      raw = decodeBinaryDataset(await file.arrayBuffer())
+    } catch (e: any) {
+      throw new DatasetFileError(name, e?.message || 'failed to read binary dataset')
+    }
+  } else if (ext === 'h5' || ext === 'hdf5') {
+    try {
+      ;({ payload: raw, warnings: loaderWarnings } = await loadH5Dataset(await file.arrayBuffer()))
+    } catch (e: any) {
+      throw new DatasetFileError(name, e?.message || 'failed to read H5 file')
+    }
+  } else if (ext === 'json' || file.type === 'application/json') {
+    try {
+      raw = JSON.parse(await file.text())
+    } catch (e: any) {
+      throw new DatasetFileError(name, `invalid JSON (${e?.message || 'parse error'})`)
+    }
+  } else {
+    throw new DatasetFileError(name, `unsupported file type ".${ext}" (expected ${DATASET_FILE_ACCEPT.split(',').filter(a => a.startsWith('.')).join(', ')})`)
+  }
+  const loaded = prepareDataset(raw, name)
+  loaded.report.warnings.unshift(...loaderWarnings)
+  return loaded
+}
+
+/**
+ * Fetch a dataset from the server (through the shared cache), picking the format by extension.
+ * The result is unvalidated (it may also be a chunked index); pass it through prepareDataset.
+ */
+export async function fetchDataset(path: string, init?: RequestInit): Promise<DatasetPayload> {
+  if (path.toLowerCase().endsWith(BINARY_DATASET_EXTENSION)) {
+    return decodeBinaryDataset(await getCachedArrayBuffer(path, init))
+  }
+  return (await getCachedJson(path, init)) as DatasetPayload
+}
+
+export function prefetchDatasets(paths: string[]) {
+  for (const p of paths) fetchDataset(p).catch(() => {})
+}
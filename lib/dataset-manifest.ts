@@ -0,0 +1,134 @@
+/**
+ * Dataset manifest (/datasets/index.json) describing the recordings available to the viewer.
+ */
+
+import type { DatasetPayload } from '@/lib/dataset'
+import { SENSOR_NAMES } from '@/lib/skeleton-constants'
+
+export const DATASET_MANIFEST_URL = '/datasets/index.json'
+
+export interface DatasetEntry {
+  id: string
+  label: string
+  path?: string // omitted for session datasets opened from local files
+  speed?: number // km/h
+  subject?: string
+  date?: string // ISO date
+  tags?: string[]
+  // Optional precomputed summary; filled from the payload once the dataset is loaded
+  numFrames?: number
+  frameRate?: number
+  sensorNames?: string[]
+}
+
+export interface DatasetSummary {
+  numFrames: number
+  durationSec: number
+  sensorsWithData: number
+  sensorCoverage: number // fraction of SENSOR_NAMES with raw sensor data (or positions if none)
+}
+
+function optionalString(v: unknown): string | undefined {
+  return typeof v === 'string' && v.trim() !== '' ? v : undefined
+}
+
+function optionalNumber(v: unknown): number | undefined {
+  return typeof v === 'number' && Number.isFinite(v) ? v : undefined
+}
+
+/**
+ * Validate a manifest document. Accepts either `{ datasets: [...] }` or a bare array.
+ */
+export function parseDatasetManifest(raw: any): DatasetEntry[] {
+  const list = Array.isArray(raw) ? raw : raw?.datasets
+  if (!Array.isArray(list)) throw new Error('Dataset manifest must contain a "datasets" array')
+  const seen = new Set<string>()
+  const out: DatasetEntry[] = []
+  for (const item of list) {
+    const id = optionalString(item?.id)
+    const path = optionalString(item?.path)
+    if (!id || !path) {
+      console.warn('Skipping manifest entry without id/path:', item)
+      continue
+    }
+    if (seen.has(id)) {
+      console.warn(`Skipping duplicate manifest entry "${id}"`)
+      continue
+    }
+    seen.add(id)
+    out.push({
+      id,
+      path,
+      label: optionalString(item.label) ?? id,
+      speed: optionalNumber(item.speed),
+      subject: optionalString(item.subject),
+      date: optionalString(item.date),
+      tags: Array.isArray(item.tags) ? item.tags.filter((t: unknown): t is string => typeof t === 'string') : undefined,
+      numFrames: optionalNumber(item.numFrames),
+      frameRate: optionalNumber(item.frameRate),
+      sensorNames: Array.isArray(item.sensorNames) ? item.sensorNames.filter((t: unknown): t is string => typeof t === 'string') : undefined,
+    })
+  }
+  return out
+}
+
+export async function loadDatasetManifest(url: string = DATASET_MANIFEST_URL, init?: RequestInit): Promise<DatasetEntry[]> {
+  const res = await fetch(url, { ...init, cache: 'no-cache' })
+  if (!res.ok) throw new Error(`Failed to fetch dataset manifest ${url} (${res.status})`)
+  return parseDatasetManifest(await res.json())
+}
+
+export function summarizePayload(payload: DatasetPayload): DatasetSummary {
+  const withData = payload.rawSensorData
+    ? SENSOR_NAMES.filter(n => {
+        const entry = payload.rawSensorData![n]
+        return !!entry && !!(entry.orientation || entry.gyroscope || entry.accelerometer || entry.magnetometer)
+      }).length
+    : SENSOR_NAMES.filter(n => payload.sensorNames.includes(n)).length
+  return {
+    numFrames: payload.numFrames,
+    durationSec: payload.numFrames / Math.max(payload.frameRate, 1),
+    sensorsWithData: withData,
+    sensorCoverage: withData / SENSOR_NAMES.length,
+  }
+}
+
+/** Summary from manifest metadata alone, when it carries frame counts. */
+export function summarizeEntry(entry: DatasetEntry): DatasetSummary | null {
+  if (entry.numFrames === undefined || !entry.frameRate) return null
+  const sensors = entry.sensorNames ? SENSOR_NAMES.filter(n => entry.sensorNames!.includes(n)).length : SENSOR_NAMES.length
+  return {
+    numFrames: entry.numFrames,
+    durationSec: entry.numFrames / entry.frameRate,
+    sensorsWithData: sensors,
+    sensorCoverage: sensors / SENSOR_NAMES.length,
+  }
+}
+
+export interface DatasetFilter {
+  query: string
+  tags: string[] // entry must carry every selected tag
+}
+
+export function filterDatasetEntries(entries: DatasetEntry[], filter: DatasetFilter): DatasetEntry[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean)
+  return entries.filter(entry => {
+    if (filter.tags.some(t => !(entry.tags ?? []).includes(t))) return false
+    if (terms.length === 0) return true
+    const haystack = [
+      entry.id,
+      entry.label,
+      entry.subject,
+      entry.date,
+      entry.speed !== undefined ? `${entry.speed}kmh ${entry.speed} km/h` : undefined,
+      ...(entry.tags ?? []),
+    ].filter(Boolean).join(' ').toLowerCase()
+    return terms.every(t => haystack.includes(t))
+  })
+}
+
+export function collectTags(entries: DatasetEntry[]): string[] {
+  const tags = new Set<string>()
+  for (const e of entries) for (const t of e.tags ?? []) tags.add(t)
+  return Array.from(tags).sort()
+}
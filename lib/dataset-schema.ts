@@ -0,0 +1,305 @@
+/**
+ * DatasetPayload schema: versioning, migrations from older exporter output, and a validator
+ * that produces a structured error/warning report instead of failing inside the viewer.
+ */
+
+import { SIGNAL_COMPONENTS, SIGNAL_NAMES, type Calibration, type DatasetPayload, type RecordingInfo, type SignalName } from '@/lib/dataset'
+import { EDGES, validateSkeletonStructure } from '@/lib/skeleton-constants'
+import { framesLength, readFramePosition, seriesDims, seriesLength, seriesValue, type Frames, type Series } from '@/lib/series'
+
+/**
+ * Schema history:
+ *   1  exporter output before versioning (no `version`; optional counts/edges;
+ *      raw signals named quaternion/gyro/acc/mag)
+ *   2  `version` field, canonical signal names, numFrames/numSensors/edges required
+ */
+export const DATASET_SCHEMA_VERSION = 2
+
+export const SIGNAL_DIMS = Object.fromEntries(
+  SIGNAL_NAMES.map(s => [s, SIGNAL_COMPONENTS[s].length])
+) as Record<SignalName, number>
+
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+export interface ValidationReport {
+  version: number // schema version of the input before migration
+  migrated: boolean
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[]
+}
+
+export class DatasetValidationError extends Error {
+  constructor(public source: string, public report: ValidationReport) {
+    super(`${source}: dataset failed validation (${report.errors.length} error${report.errors.length === 1 ? '' : 's'})`)
+    this.name = 'DatasetValidationError'
+  }
+}
+
+const LEGACY_SIGNAL_KEYS: Record<string, SignalName> = {
+  quaternion: 'orientation',
+  quat: 'orientation',
+  gyro: 'gyroscope',
+  acc: 'accelerometer',
+  accel: 'accelerometer',
+  mag: 'magnetometer',
+}
+
+/** Parsed input before validation: any JSON object */
+type RawObject = Record<string, unknown>
+
+function isObject(v: unknown): v is RawObject {
+  return !!v && typeof v === 'object' && !Array.isArray(v)
+}
+
+type Migration = (raw: RawObject) => RawObject
+
+// Index i migrates version i+1 to version i+2
+const MIGRATIONS: Migration[] = [
+  // 1 -> 2
+  (raw) => {
+    const out = { ...raw }
+    if (Array.isArray(out.frames) && typeof out.numFrames !== 'number') out.numFrames = out.frames.length
+    if (Array.isArray(out.sensorNames) && typeof out.numSensors !== 'number') out.numSensors = out.sensorNames.length
+    if (!Array.isArray(out.edges)) out.edges = EDGES.map(([a, b]) => [a, b])
+    if (isObject(out.rawSensorData)) {
+      const raw2: RawObject = {}
+      for (const [joint, entry] of Object.entries(out.rawSensorData)) {
+        const next: RawObject = {}
+        if (isObject(entry)) for (const [key, value] of Object.entries(entry)) next[LEGACY_SIGNAL_KEYS[key] ?? key] = value
+        raw2[joint] = next
+      }
+      out.rawSensorData = raw2
+    }
+    out.version = 2
+    return out
+  },
+]
+
+export function detectSchemaVersion(raw: unknown): number {
+  return isObject(raw) && typeof raw.version === 'number' ? raw.version : 1
+}
+
+/**
+ * Bring an older payload up to DATASET_SCHEMA_VERSION. Input that is not an object is passed
+ * through for validateDataset to reject.
+ */
+export function migrateDataset(raw: unknown): { payload: unknown, fromVersion: number } {
+  const fromVersion = detectSchemaVersion(raw)
+  if (fromVersion > DATASET_SCHEMA_VERSION) {
+    throw new Error(`Dataset schema version ${fromVersion} is newer than this viewer supports (${DATASET_SCHEMA_VERSION})`)
+  }
+  if (!isObject(raw)) return { payload: raw, fromVersion }
+  let payload = raw
+  for (let v = fromVersion; v < DATASET_SCHEMA_VERSION; v++) payload = MIGRATIONS[v - 1](payload)
+  return { payload, fromVersion }
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every(s => typeof s === 'string')
+}
+
+function isSeries(v: unknown): v is Series {
+  return Array.isArray(v) || (isObject(v) && v.data instanceof Float32Array && typeof v.length === 'number' && typeof v.dims === 'number')
+}
+
+function isFrames(v: unknown): v is Frames {
+  return Array.isArray(v) || (isObject(v) && v.data instanceof Float32Array && typeof v.numFrames === 'number' && typeof v.numSensors === 'number')
+}
+
+function isPositionOffset(v: unknown): v is [number, number, number] {
+  return Array.isArray(v) && v.length === 3 && v.every(x => typeof x === 'number')
+}
+
+function isRecordingInfo(v: unknown): v is RecordingInfo {
+  return isObject(v) && typeof v.startTime === 'string' && typeof v.nominalFrameRate === 'number' && typeof v.droppedFrames === 'number'
+}
+
+function checkSeries(series: unknown, path: string, expectedDims: number, numFrames: number, report: ValidationReport) {
+  if (!isSeries(series)) {
+    report.errors.push({ path, message: 'must be an array of samples' })
+    return
+  }
+  const n = seriesLength(series)
+  if (n !== numFrames) report.errors.push({ path, message: `has ${n} samples but numFrames is ${numFrames}` })
+  const dims = seriesDims(series)
+  if (n > 0 && dims !== expectedDims) report.errors.push({ path, message: `samples have ${dims} components, expected ${expectedDims}` })
+  let ragged = 0
+  let nonFinite = 0
+  let firstRagged = -1
+  for (let i = 0; i < n; i++) {
+    if (Array.isArray(series)) {
+      const row = series[i]
+      if (!Array.isArray(row) || row.length !== dims) {
+        if (firstRagged < 0) firstRagged = i
+        ragged++
+        continue
+      }
+    }
+    for (let d = 0; d < dims; d++) {
+      const v = seriesValue(series, i, d)
+      if (typeof v !== 'number' || !Number.isFinite(v)) {
+        nonFinite++
+        break
+      }
+    }
+  }
+  if (ragged > 0) report.errors.push({ path, message: `${ragged} ragged sample(s), first at index ${firstRagged}` })
+  if (nonFinite > 0) report.warnings.push({ path, message: `${nonFinite} sample(s) contain NaN or missing values` })
+}
+
+// Top-level fields every dataset needs; true (and narrowed) when none is missing or mistyped
+function checkRequiredFields(payload: RawObject, err: (path: string, message: string) => void): payload is RawObject & DatasetPayload {
+  let ok = true
+  const fail = (path: string, message: string) => {
+    err(path, message)
+    ok = false
+  }
+  if (typeof payload.frameRate !== 'number' || !(payload.frameRate > 0)) fail('frameRate', 'must be a positive number')
+  if (!isStringArray(payload.sensorNames)) fail('sensorNames', 'must be an array of strings')
+  if (!Array.isArray(payload.edges) || !payload.edges.every((e: unknown) => Array.isArray(e) && e.length === 2)) {
+    fail('edges', 'must be an array of [from, to] pairs')
+  }
+  if (typeof payload.numFrames !== 'number' || !Number.isInteger(payload.numFrames) || payload.numFrames <= 0) {
+    fail('numFrames', 'must be a positive integer')
+  }
+  if (typeof payload.numSensors !== 'number' || !Number.isInteger(payload.numSensors)) fail('numSensors', 'must be an integer')
+  if (!isFrames(payload.frames)) fail('frames', 'must be shaped [frame][sensor][xyz]')
+  return ok
+}
+
+/**
+ * Validate a (migrated) payload without modifying it. Errors make the dataset unusable;
+ * warnings are shown but the dataset still loads. Optional fields reported as ignored are
+ * dropped by prepareDataset.
+ */
+export function validateDataset(payload: unknown, fromVersion: number = DATASET_SCHEMA_VERSION): ValidationReport {
+  const report: ValidationReport = { version: fromVersion, migrated: fromVersion !== DATASET_SCHEMA_VERSION, errors: [], warnings: [] }
+  const err = (path: string, message: string) => report.errors.push({ path, message })
+  const warn = (path: string, message: string) => report.warnings.push({ path, message })
+
+  if (!isObject(payload)) {
+    err('', 'expected a dataset object')
+    return report
+  }
+  if (!checkRequiredFields(payload, err)) return report
+
+  const data = payload
+  if (data.numSensors !== data.sensorNames.length) {
+    err('numSensors', `is ${data.numSensors} but sensorNames lists ${data.sensorNames.length} sensors`)
+  }
+  const nFrames = framesLength(data.frames)
+  if (nFrames !== data.numFrames) err('frames', `has ${nFrames} frames but numFrames is ${data.numFrames}`)
+
+  // Frame shape and finiteness
+  if (Array.isArray(data.frames)) {
+    let ragged = 0
+    let firstRagged = -1
+    for (let f = 0; f < nFrames; f++) {
+      const frame = data.frames[f]
+      const ok = Array.isArray(frame) && frame.length === data.numSensors &&
+        frame.every(p => Array.isArray(p) && p.length >= 3)
+      if (!ok) {
+        if (firstRagged < 0) firstRagged = f
+        ragged++
+      }
+    }
+    if (ragged > 0) err('frames', `${ragged} ragged frame(s) (expected ${data.numSensors} sensors × xyz), first at frame ${firstRagged}`)
+  } else if (data.frames.numSensors !== data.numSensors) {
+    err('frames', `packed frames hold ${data.frames.numSensors} sensors but numSensors is ${data.numSensors}`)
+  }
+  if (report.errors.length === 0) {
+    const p = [0, 0, 0]
+    let nonFinite = 0
+    for (let f = 0; f < nFrames; f++) {
+      for (let j = 0; j < data.numSensors; j++) {
+        if (!readFramePosition(data.frames, f, j, p) || !Number.isFinite(p[0]) || !Number.isFinite(p[1]) || !Number.isFinite(p[2])) {
+          nonFinite++
+        }
+      }
+    }
+    if (nonFinite > 0) warn('frames', `${nonFinite} joint position(s) are NaN or missing`)
+  }
+
+  // Raw sensor series
+  if (data.rawSensorData !== undefined) {
+    if (!isObject(data.rawSensorData)) {
+      err('rawSensorData', 'must be an object keyed by joint name')
+    } else {
+      for (const [joint, entry] of Object.entries(data.rawSensorData)) {
+        if (!data.sensorNames.includes(joint)) warn(`rawSensorData.${joint}`, 'joint is not listed in sensorNames')
+        if (!isObject(entry)) {
+          err(`rawSensorData.${joint}`, 'must be an object of signals')
+          continue
+        }
+        for (const [key, series] of Object.entries(entry)) {
+          if (!(SIGNAL_NAMES as readonly string[]).includes(key)) {
+            warn(`rawSensorData.${joint}.${key}`, 'unknown signal is ignored')
+            continue
+          }
+          checkSeries(series, `rawSensorData.${joint}.${key}`, SIGNAL_DIMS[key as SignalName], data.numFrames, report)
+        }
+      }
+    }
+  }
+
+  if (data.calibration !== undefined) {
+    if (!isObject(data.calibration)) {
+      err('calibration', 'must be an object keyed by joint name')
+    } else {
+      for (const [joint, entry] of Object.entries(data.calibration)) {
+        const offset: unknown = isObject(entry) ? entry.positionOffset : undefined
+        if (offset !== undefined && !isPositionOffset(offset)) warn(`calibration.${joint}.positionOffset`, 'must be [x, y, z]; ignored')
+      }
+    }
+  }
+
+  if (data.recording !== undefined && !isRecordingInfo(data.recording)) {
+    warn('recording', 'must have startTime, nominalFrameRate and droppedFrames; ignored')
+  }
+
+  const skeleton = validateSkeletonStructure(data)
+  if (skeleton.missingSensors.length > 0) err('sensorNames', `missing sensors: ${skeleton.missingSensors.join(', ')}`)
+  if (skeleton.missingEdges.length > 0) err('edges', `missing connections: ${skeleton.missingEdges.map(([a, b]) => `${a}-${b}`).join(', ')}`)
+
+  return report
+}
+
+// Shallow copy without the optional fields validateDataset reports as ignored
+function dropIgnoredFields(payload: DatasetPayload): DatasetPayload {
+  const out = { ...payload }
+  if (out.calibration) {
+    const calibration: Calibration = {}
+    for (const [joint, entry] of Object.entries(out.calibration)) {
+      const { positionOffset, ...rest } = entry ?? {}
+      calibration[joint] = positionOffset === undefined || isPositionOffset(positionOffset) ? entry : rest
+    }
+    out.calibration = calibration
+  }
+  if (out.recording !== undefined && !isRecordingInfo(out.recording)) delete out.recording
+  return out
+}
+
+/**
+ * Migrate and validate raw input; throws DatasetValidationError when the report has errors.
+ * The input is not modified: the returned payload is a copy without the ignored fields.
+ */
+export function prepareDataset(raw: unknown, source: string): { payload: DatasetPayload, report: ValidationReport } {
+  let migrated: { payload: unknown, fromVersion: number }
+  try {
+    migrated = migrateDataset(raw)
+  } catch (e: any) {
+    const report: ValidationReport = { version: detectSchemaVersion(raw), migrated: false, errors: [{ path: 'version', message: e?.message || 'unsupported version' }], warnings: [] }
+    throw new DatasetValidationError(source, report)
+  }
+  const report = validateDataset(migrated.payload, migrated.fromVersion)
+  if (report.errors.length > 0) throw new DatasetValidationError(source, report)
+  // No errors: the required fields were checked
+  return { payload: dropIgnoredFields(migrated.payload as DatasetPayload), report }
+}
+
+export function formatValidationIssue(issue: ValidationIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message
+}
@@ -0,0 +1,152 @@
+import { framesLength, readFramePosition, sliceFrames, sliceSeries, stepFrames, stepSeries, toNestedFrames, toNestedSeries, type Frames, type Series } from '@/lib/series'
+
+export const SIGNAL_NAMES = ['orientation', 'gyroscope', 'accelerometer', 'magnetometer'] as const
+
+export type SignalName = typeof SIGNAL_NAMES[number]
+
+/** Component labels per signal, in storage order (quaternions are [w, x, y, z]) */
+export const SIGNAL_COMPONENTS: Record<SignalName, string[]> = {
+  orientation: ['w', 'x', 'y', 'z'],
+  gyroscope: ['x', 'y', 'z'],
+  accelerometer: ['x', 'y', 'z'],
+  magnetometer: ['x', 'y', 'z'],
+}
+
+export type RawSensorEntry = { [K in SignalName]?: Series }
+
+export interface DatasetPayload {
+  /** Schema version (see DATASET_SCHEMA_VERSION); absent in exports that predate versioning */
+  version?: number
+  frameRate: number
+  sensorNames: string[]
+  edges: [string, string][]
+  numFrames: number
+  numSensors: number
+  frames: Frames
+  rawSensorData?: {
+    [jointName: string]: RawSensorEntry
+  }
+  /** Calibration saved with the dataset (e.g. carried over when trimming); used when none is stored locally */
+  calibration?: Calibration
+  /** Where a derived dataset came from */
+  derivedFrom?: { source: string, start: number, end: number }
+  /** Capture details of a dataset recorded from a live stream */
+  recording?: RecordingInfo
+}
+
+export interface RecordingInfo {
+  /** Sender timestamp of the first recorded frame (ISO 8601) */
+  startTime: string
+  /** Rate announced by the sender; `frameRate` holds the rate measured from frame timestamps */
+  nominalFrameRate: number
+  /** Frames missing from the stream; they are kept as NaN samples so frame indices stay on the clock */
+  droppedFrames: number
+  /** Stream URL */
+  source: string
+}
+
+/** Per-joint position offsets (dataset units, cm) set in the calibration panel */
+export type Calibration = { [jointName: string]: { positionOffset?: [number, number, number] } }
+
+/**
+ * Joint position at a frame with its calibration offset applied, as rendered by the viewer.
+ * Returns false when the frame or joint is missing.
+ */
+export function readCalibratedPosition(payload: DatasetPayload, calibration: Calibration | undefined, frame: number, jointIndex: number, out: number[]): boolean {
+  if (!readFramePosition(payload.frames, frame, jointIndex, out)) return false
+  const offset = calibration?.[payload.sensorNames[jointIndex]]?.positionOffset
+  if (offset) {
+    out[0] += offset[0] ?? 0
+    out[1] += offset[1] ?? 0
+    out[2] += offset[2] ?? 0
+  }
+  return true
+}
+
+/**
+ * Frames [start, end) of a payload with every raw sensor series sliced consistently.
+ */
+export function sliceDataset(payload: DatasetPayload, start: number, end: number): DatasetPayload {
+  const a = Math.max(0, Math.min(Math.floor(start), payload.numFrames))
+  const b = Math.max(a, Math.min(Math.floor(end), payload.numFrames))
+  const out: DatasetPayload = {
+    ...payload,
+    numFrames: b - a,
+    frames: sliceFrames(payload.frames, a, b),
+  }
+  if (payload.rawSensorData) {
+    out.rawSensorData = {}
+    for (const joint of Object.keys(payload.rawSensorData)) {
+      const entry = payload.rawSensorData[joint]
+      const sliced: RawSensorEntry = {}
+      for (const signal of SIGNAL_NAMES) {
+        const series = entry[signal]
+        if (series) sliced[signal] = sliceSeries(series, a, b)
+      }
+      out.rawSensorData[joint] = sliced
+    }
+  }
+  return out
+}
+
+/**
+ * Frames [start, end) as a standalone dataset carrying the given calibration, e.g. to drop
+ * warm-up and stopping phases from a recording.
+ */
+export function trimDataset(payload: DatasetPayload, start: number, end: number, options: { calibration?: Calibration, source?: string } = {}): DatasetPayload {
+  const out = sliceDataset(payload, start, end)
+  const a = Math.max(0, Math.min(Math.floor(start), payload.numFrames))
+  const calibration = options.calibration ?? payload.calibration
+  if (calibration && Object.keys(calibration).length > 0) out.calibration = JSON.parse(JSON.stringify(calibration))
+  else delete out.calibration
+  out.derivedFrom = { source: options.source ?? payload.derivedFrom?.source ?? 'dataset', start: a, end: a + out.numFrames }
+  return out
+}
+
+/**
+ * Keep every `step`-th frame (and raw sample), dividing the frame rate accordingly; the same
+ * decimation as the exporter's --frame-step.
+ */
+export function downsampleDataset(payload: DatasetPayload, step: number): DatasetPayload {
+  const k = Math.max(1, Math.floor(step))
+  const frames = stepFrames(payload.frames, k)
+  const out: DatasetPayload = {
+    ...payload,
+    frameRate: payload.frameRate / k,
+    numFrames: framesLength(frames),
+    frames,
+  }
+  if (payload.rawSensorData) {
+    out.rawSensorData = {}
+    for (const joint of Object.keys(payload.rawSensorData)) {
+      const entry = payload.rawSensorData[joint]
+      const stepped: RawSensorEntry = {}
+      for (const signal of SIGNAL_NAMES) {
+        const series = entry[signal]
+        if (series) stepped[signal] = stepSeries(series, k)
+      }
+      out.rawSensorData[joint] = stepped
+    }
+  }
+  return out
+}
+
+/**
+ * Copy with nested-array frames and series, as written to JSON files.
+ */
+export function toNestedDataset(payload: DatasetPayload): DatasetPayload {
+  const out: DatasetPayload = { ...payload, frames: toNestedFrames(payload.frames) }
+  if (payload.rawSensorData) {
+    out.rawSensorData = {}
+    for (const joint of Object.keys(payload.rawSensorData)) {
+      const entry: RawSensorEntry = {}
+      for (const signal of SIGNAL_NAMES) {
+        const series = payload.rawSensorData[joint][signal]
+        if (series) entry[signal] = toNestedSeries(series)
+      }
+      out.rawSensorData[joint] = entry
+    }
+  }
+  return out
+}
+
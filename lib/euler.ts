@@ -0,0 +1,102 @@
+/**
+ * Quaternion to Euler (Tait–Bryan) angles for the orientation chart. Sequences are intrinsic:
+ * "ZYX" rotates about Z (yaw), then the new Y (pitch), then the new X (roll), i.e.
+ * R = Rz(yaw) · Ry(pitch) · Rx(roll). Angles are returned per axis as [roll (X), pitch (Y),
+ * yaw (Z)] whatever the sequence, so chart components keep their meaning.
+ */
+
+import { quatNormalize } from '@/lib/quaternion'
+import { createPackedSeries, readSeriesRow, seriesLength, type PackedSeries, type Series } from '@/lib/series'
+
+export const EULER_SEQUENCES = ['ZYX', 'XYZ', 'YXZ', 'YZX', 'ZXY', 'XZY'] as const
+
+export type EulerSequence = typeof EULER_SEQUENCES[number]
+
+export type AngleUnit = 'deg' | 'rad'
+
+/** Component labels of Euler series, in output order */
+export const EULER_COMPONENTS = ['roll', 'pitch', 'yaw']
+
+export interface EulerOptions {
+  sequence: EulerSequence
+  unit: AngleUnit
+  /** Remove ±360° jumps so angles stay continuous over time */
+  unwrap: boolean
+}
+
+const AXIS_INDEX = { X: 0, Y: 1, Z: 2 } as const
+
+// Rotation matrix (row-major) of a unit quaternion [w, x, y, z]
+function rotationMatrix(q: ArrayLike<number>): number[][] {
+  const [w, x, y, z] = quatNormalize(q)
+  return [
+    [1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y)],
+    [2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x)],
+    [2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y)],
+  ]
+}
+
+/**
+ * Euler angles (radians) of an orientation quaternion, as [roll (X), pitch (Y), yaw (Z)].
+ * At gimbal lock (middle angle ±90°) the last rotation is set to 0.
+ */
+export function quatToEuler(q: ArrayLike<number>, sequence: EulerSequence): [number, number, number] {
+  const m = rotationMatrix(q)
+  const i = AXIS_INDEX[sequence[0] as keyof typeof AXIS_INDEX]
+  const j = AXIS_INDEX[sequence[1] as keyof typeof AXIS_INDEX]
+  const k = AXIS_INDEX[sequence[2] as keyof typeof AXIS_INDEX]
+  // +1 for cyclic sequences (XYZ, YZX, ZXY), -1 for the others
+  const e = (j - i + 3) % 3 === 1 ? 1 : -1
+  const sinB = Math.max(-1, Math.min(1, e * m[i][k]))
+  const b = Math.asin(sinB)
+  let a: number
+  let c: number
+  if (Math.abs(sinB) < 0.9999999) {
+    a = Math.atan2(-e * m[j][k], m[k][k])
+    c = Math.atan2(-e * m[i][j], m[i][i])
+  } else {
+    a = Math.atan2(e * m[k][j], m[j][j])
+    c = 0
+  }
+  const out: [number, number, number] = [0, 0, 0]
+  out[i] = a
+  out[j] = b
+  out[k] = c
+  return out
+}
+
+/**
+ * Euler angle series [roll, pitch, yaw] from an orientation series. Missing quaternions give
+ * NaN rows; unwrapping continues across them from the last valid sample.
+ */
+export function eulerSeries(orientation: Series, { sequence, unit, unwrap }: EulerOptions): PackedSeries {
+  const n = seriesLength(orientation)
+  const out = createPackedSeries(n, 3)
+  const q = [0, 0, 0, 0]
+  const scale = unit === 'deg' ? 180 / Math.PI : 1
+  const last: (number | null)[] = [null, null, null]
+  const offset = [0, 0, 0]
+  for (let f = 0; f < n; f++) {
+    q.fill(NaN)
+    const valid = readSeriesRow(orientation, f, q) && q.every(Number.isFinite) && q.some(v => v !== 0)
+    if (!valid) {
+      out.data.fill(NaN, f * 3, f * 3 + 3)
+      continue
+    }
+    const angles = quatToEuler(q, sequence)
+    for (let d = 0; d < 3; d++) {
+      let v = angles[d]
+      if (unwrap) {
+        const prev = last[d]
+        if (prev !== null) {
+          const delta = v + offset[d] - prev
+          offset[d] -= 2 * Math.PI * Math.round(delta / (2 * Math.PI))
+        }
+        v += offset[d]
+        last[d] = v
+      }
+      out.data[f * 3 + d] = v * scale
+    }
+  }
+  return out
+}
@@ -0,0 +1,87 @@
+/**
+ * Gait-cycle time normalization: a series is cut into strides at successive heel strikes of one
+ * side and each stride is resampled to 0–100% of the cycle, so strides of different duration
+ * can be overlaid and averaged.
+ */
+
+import { seriesLength, seriesValue, type Series } from '@/lib/series'
+
+/** Samples per normalized cycle (every 1%, both heel strikes included) */
+export const CYCLE_POINTS = 101
+
+export interface NormalizedStride {
+  /** Heel-strike frames bounding the stride */
+  start: number
+  end: number
+  /** CYCLE_POINTS values; NaN where the source has gaps */
+  values: Float64Array
+}
+
+export interface GaitCycleSet {
+  strides: NormalizedStride[]
+  /** Mean and sample SD per cycle point over strides with a value there */
+  mean: Float64Array
+  sd: Float64Array
+}
+
+export interface CycleOptions {
+  /** Strides longer than this many frames are skipped (pauses, missed events) */
+  maxStrideFrames?: number
+}
+
+function valueAt(series: Series, i: number, component: number): number {
+  const v = seriesValue(series, i, component)
+  return typeof v === 'number' && Number.isFinite(v) ? v : NaN
+}
+
+/**
+ * Strides of one side (between consecutive `heelStrikes`) of one series component, each
+ * linearly resampled to CYCLE_POINTS, with their pointwise mean and SD.
+ */
+export function normalizeGaitCycles(series: Series, heelStrikes: number[], component: number, { maxStrideFrames = Infinity }: CycleOptions = {}): GaitCycleSet {
+  const n = seriesLength(series)
+  const strides: NormalizedStride[] = []
+  for (let k = 0; k + 1 < heelStrikes.length; k++) {
+    const start = heelStrikes[k]
+    const end = heelStrikes[k + 1]
+    if (end <= start || end >= n || end - start > maxStrideFrames) continue
+    const values = new Float64Array(CYCLE_POINTS)
+    for (let p = 0; p < CYCLE_POINTS; p++) {
+      const u = start + ((end - start) * p) / (CYCLE_POINTS - 1)
+      const i = Math.floor(u)
+      const t = u - i
+      const a = valueAt(series, i, component)
+      values[p] = t === 0 ? a : a + (valueAt(series, i + 1, component) - a) * t
+    }
+    strides.push({ start, end, values })
+  }
+
+  const mean = new Float64Array(CYCLE_POINTS).fill(NaN)
+  const sd = new Float64Array(CYCLE_POINTS).fill(NaN)
+  for (let p = 0; p < CYCLE_POINTS; p++) {
+    let count = 0
+    let sum = 0
+    for (const s of strides) {
+      if (!Number.isNaN(s.values[p])) {
+        sum += s.values[p]
+        count++
+      }
+    }
+    if (count === 0) continue
+    mean[p] = sum / count
+    if (count < 2) continue
+    let sq = 0
+    for (const s of strides) {
+      if (!Number.isNaN(s.values[p])) sq += (s.values[p] - mean[p]) ** 2
+    }
+    sd[p] = Math.sqrt(sq / (count - 1))
+  }
+  return { strides, mean, sd }
+}
+
+/** The same joint on the other side (`knee_left` → `knee_right`); null for midline joints. */
+export function contralateralJoint(joint: string): string | null {
+  if (joint.endsWith('_left')) return `${joint.slice(0, -5)}_right`
+  if (joint.endsWith('_right')) return `${joint.slice(0, -6)}_left`
+  return null
+}
@@ -0,0 +1,208 @@
+/**
+ * Spatiotemporal gait metrics from heel-strike and toe-off events. A stride runs from one heel
+ * strike to the next on the same side; its step time is measured from the preceding
+ * contralateral heel strike, which must fall after the previous heel strike of the same side.
+ * Double support is the overlap of both stance phases (initial: until the contralateral toe
+ * off; terminal: from the contralateral heel strike). It is 0 for running strides, where the
+ * contralateral foot is in flight for the whole stance phase, and NaN when contralateral
+ * events are missing.
+ *
+ * CSV layout: `# key: value` header lines (dataset, frame rate), one `# summary,<metric>,<side>,
+ * <n>,<mean>,<sd>,<cv %>` line per metric and side, one `# symmetry,<metric>,<index %>` line
+ * per metric, then the per-stride table.
+ */
+
+import { GAIT_SIDES, type GaitEvents, type GaitSide } from '@/lib/gait'
+
+export interface GaitStride {
+  side: GaitSide
+  /** 1-based within the side */
+  index: number
+  heelStrike: number
+  nextHeelStrike: number
+  /** Toe off inside the stride; null when none was detected */
+  toeOff: number | null
+  strideTime: number
+  /** NaN when there is no contralateral heel strike since the previous one on this side */
+  stepTime: number
+  stanceTime: number
+  swingTime: number
+  stancePercent: number
+  swingPercent: number
+  /**
+   * 0 when the contralateral foot is in flight for the whole stance phase (running); NaN when
+   * contralateral events are missing
+   */
+  doubleSupportTime: number
+  doubleSupportPercent: number
+  /** Steps per minute over this stride */
+  cadence: number
+}
+
+export type GaitMetric = 'strideTime' | 'stepTime' | 'stanceTime' | 'swingTime' | 'stancePercent' | 'swingPercent' | 'doubleSupportTime' | 'doubleSupportPercent' | 'cadence'
+
+export const GAIT_METRICS: { key: GaitMetric, label: string, unit: string }[] = [
+  { key: 'cadence', label: 'Cadence', unit: 'steps/min' },
+  { key: 'strideTime', label: 'Stride time', unit: 's' },
+  { key: 'stepTime', label: 'Step time', unit: 's' },
+  { key: 'stanceTime', label: 'Stance time', unit: 's' },
+  { key: 'swingTime', label: 'Swing time', unit: 's' },
+  { key: 'stancePercent', label: 'Stance', unit: '%' },
+  { key: 'swingPercent', label: 'Swing', unit: '%' },
+  { key: 'doubleSupportTime', label: 'Double support', unit: 's' },
+  { key: 'doubleSupportPercent', label: 'Double support', unit: '%' },
+]
+
+export interface MetricSummary {
+  n: number
+  mean: number
+  /** Sample standard deviation */
+  sd: number
+  /** Coefficient of variation, % */
+  cv: number
+}
+
+export type GaitSummaryGroup = GaitSide | 'both'
+
+export interface GaitMetricsReport {
+  strides: GaitStride[]
+  summary: Record<GaitMetric, Record<GaitSummaryGroup, MetricSummary>>
+  /** (left − right) / mean(left, right) × 100 on the side means; positive when left is larger */
+  symmetry: Record<GaitMetric, number>
+  /** Strides dropped because they are longer than `maxStrideTime` (pauses, missed events) */
+  skippedStrides: number
+}
+
+export interface GaitMetricsOptions {
+  /** Strides longer than this (seconds) are skipped; default MAX_STRIDE_TIME_S */
+  maxStrideTime?: number
+}
+
+/** Longest stride (seconds) treated as walking or running rather than a pause or missed event */
+export const MAX_STRIDE_TIME_S = 3
+
+function firstBetween(frames: number[], after: number, before: number): number | null {
+  for (const f of frames) {
+    if (f > after && f < before) return f
+  }
+  return null
+}
+
+function lastBetween(frames: number[], after: number, before: number): number | null {
+  let out: number | null = null
+  for (const f of frames) {
+    if (f >= before) break
+    if (f > after) out = f
+  }
+  return out
+}
+
+export function summarize(values: number[]): MetricSummary {
+  const finite = values.filter(Number.isFinite)
+  const n = finite.length
+  if (n === 0) return { n, mean: NaN, sd: NaN, cv: NaN }
+  const mean = finite.reduce((a, b) => a + b, 0) / n
+  const sd = n > 1 ? Math.sqrt(finite.reduce((a, b) => a + (b - mean) * (b - mean), 0) / (n - 1)) : NaN
+  return { n, mean, sd, cv: mean !== 0 ? (sd / Math.abs(mean)) * 100 : NaN }
+}
+
+/** Per-stride metrics for both sides, their summaries and left/right symmetry indices. */
+export function computeGaitMetrics(events: GaitEvents, frameRate: number, { maxStrideTime = MAX_STRIDE_TIME_S }: GaitMetricsOptions = {}): GaitMetricsReport {
+  const strides: GaitStride[] = []
+  let skippedStrides = 0
+  for (const side of GAIT_SIDES) {
+    const other: GaitSide = side === 'left' ? 'right' : 'left'
+    const hs = events[side].heelStrike
+    const contraHs = events[other].heelStrike
+    const contraTo = events[other].toeOff
+    let index = 0
+    for (let i = 0; i + 1 < hs.length; i++) {
+      const start = hs[i]
+      const end = hs[i + 1]
+      const strideTime = (end - start) / frameRate
+      if (strideTime > maxStrideTime) {
+        skippedStrides++
+        continue
+      }
+      const toeOff = firstBetween(events[side].toeOff, start, end)
+      // The step starts at the contralateral heel strike since this side's previous one
+      const stepFrom = i > 0 ? hs[i - 1] : start - maxStrideTime * frameRate
+      const previousContra = lastBetween(contraHs, stepFrom, start)
+      const stanceTime = toeOff !== null ? (toeOff - start) / frameRate : NaN
+      let doubleSupportTime = NaN
+      if (toeOff !== null) {
+        const contraToeOff = firstBetween(contraTo, start - 1, toeOff)
+        const contraStrike = firstBetween(contraHs, start, toeOff)
+        if (contraToeOff !== null && contraStrike !== null) {
+          doubleSupportTime = (contraToeOff - start + toeOff - contraStrike) / frameRate
+        } else if (contraToeOff === null && contraStrike === null) {
+          // Running: the contralateral foot left the ground before this heel strike and lands
+          // after this toe off, so the stance phases do not overlap
+          const lastContraToeOff = lastBetween(contraTo, previousContra ?? stepFrom, start)
+          const nextContraStrike = firstBetween(contraHs, toeOff - 1, end)
+          if (lastContraToeOff !== null && nextContraStrike !== null) doubleSupportTime = 0
+        }
+      }
+      strides.push({
+        side,
+        index: ++index,
+        heelStrike: start,
+        nextHeelStrike: end,
+        toeOff,
+        strideTime,
+        stepTime: previousContra !== null ? (start - previousContra) / frameRate : NaN,
+        stanceTime,
+        swingTime: strideTime - stanceTime,
+        stancePercent: (stanceTime / strideTime) * 100,
+        swingPercent: ((strideTime - stanceTime) / strideTime) * 100,
+        doubleSupportTime,
+        doubleSupportPercent: (doubleSupportTime / strideTime) * 100,
+        cadence: 120 / strideTime,
+      })
+    }
+  }
+
+  const summary = {} as GaitMetricsReport['summary']
+  const symmetry = {} as GaitMetricsReport['symmetry']
+  for (const { key } of GAIT_METRICS) {
+    const left = summarize(strides.filter(s => s.side === 'left').map(s => s[key]))
+    const right = summarize(strides.filter(s => s.side === 'right').map(s => s[key]))
+    summary[key] = { left, right, both: summarize(strides.map(s => s[key])) }
+    const mean = (left.mean + right.mean) / 2
+    symmetry[key] = mean !== 0 ? ((left.mean - right.mean) / mean) * 100 : NaN
+  }
+  return { strides, summary, symmetry, skippedStrides }
+}
+
+function csvNumber(v: number | null): string {
+  return v === null || !Number.isFinite(v) ? '' : String(Math.round(v * 1e4) / 1e4)
+}
+
+/** Summary and per-stride table as CSV; event frames are 1-based like the timeline. */
+export function gaitMetricsToCsv(report: GaitMetricsReport, meta: { dataset: string, frameRate: number }): string {
+  const lines: string[] = [
+    `# dataset: ${meta.dataset}`,
+    `# frame rate (Hz): ${meta.frameRate}`,
+  ]
+  for (const { key } of GAIT_METRICS) {
+    for (const group of [...GAIT_SIDES, 'both'] as GaitSummaryGroup[]) {
+      const s = report.summary[key][group]
+      lines.push(`# summary,${key},${group},${s.n},${csvNumber(s.mean)},${csvNumber(s.sd)},${csvNumber(s.cv)}`)
+    }
+  }
+  for (const { key } of GAIT_METRICS) lines.push(`# symmetry,${key},${csvNumber(report.symmetry[key])}`)
+  lines.push([
+    'side', 'stride', 'heel_strike_frame', 'toe_off_frame', 'next_heel_strike_frame',
+    'stride_time_s', 'step_time_s', 'stance_time_s', 'swing_time_s', 'stance_pct', 'swing_pct',
+    'double_support_s', 'double_support_pct', 'cadence_steps_per_min',
+  ].join(','))
+  for (const s of report.strides) {
+    lines.push([
+      s.side, String(s.index), String(s.heelStrike + 1), s.toeOff !== null ? String(s.toeOff + 1) : '', String(s.nextHeelStrike + 1),
+      csvNumber(s.strideTime), csvNumber(s.stepTime), csvNumber(s.stanceTime), csvNumber(s.swingTime),
+      csvNumber(s.stancePercent), csvNumber(s.swingPercent), csvNumber(s.doubleSupportTime), csvNumber(s.doubleSupportPercent),
+      csvNumber(s.cadence),
+    ].join(','))
+  }
+  return lines.join('\n') + '\n'
+}
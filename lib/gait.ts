@@ -0,0 +1,246 @@
+/**
+ * Gait events (heel strike, toe off) from foot or shank IMUs, following the usual
+ * angular-velocity approach (Aminian et al. 2002, Salarian et al. 2004): the sagittal gyroscope
+ * signal peaks at mid-swing; heel strike is the first minimum after each mid-swing peak and toe
+ * off the deepest minimum before it. Heel strikes can be refined to the impact peak of the
+ * accelerometer.
+ */
+
+import type { DatasetPayload } from '@/lib/dataset'
+import { butterworthFiltfilt } from '@/lib/processing'
+import { seriesDims, seriesLength, seriesValue, type PackedSeries, type Series } from '@/lib/series'
+
+export type GaitSide = 'left' | 'right'
+
+export type GaitEventKind = 'heelStrike' | 'toeOff'
+
+export const GAIT_SIDES: GaitSide[] = ['left', 'right']
+
+/** Marker colours shared by the chart, timeline and gait panel */
+export const GAIT_SIDE_COLORS: Record<GaitSide, string> = { left: '#22d3ee', right: '#e879f9' }
+
+/** Sorted frame indices per event kind */
+export interface GaitSideEvents {
+  heelStrike: number[]
+  toeOff: number[]
+}
+
+export type GaitEvents = Record<GaitSide, GaitSideEvents>
+
+export interface GaitEventMarker {
+  frame: number
+  side: GaitSide
+  kind: GaitEventKind
+}
+
+export type GaitSegment = 'foot' | 'lower_leg'
+
+export interface GaitDetectionOptions {
+  /** Sensor used per side: `foot_<side>` or `lower_leg_<side>` */
+  segment: GaitSegment
+  /** Move heel strikes to the acceleration impact peak next to the gyroscope minimum */
+  useAccelerometer: boolean
+  /** Low-pass cutoff applied to the gyroscope before peak picking */
+  cutoffHz?: number
+  /** Shortest stride considered (seconds); mid-swing peaks closer than this are merged */
+  minStrideTime?: number
+  /** Mid-swing peaks must exceed this fraction of the signal's 99th percentile */
+  peakThreshold?: number
+}
+
+export interface GaitSideDetection {
+  /** `<segment>_<side>`, or null when that sensor has no gyroscope */
+  joint: string | null
+  /** Gyroscope component used as the sagittal axis, and whether it was negated */
+  axis: number
+  inverted: boolean
+}
+
+export interface GaitDetectionResult {
+  events: GaitEvents
+  sides: Record<GaitSide, GaitSideDetection>
+}
+
+// Impact search window around the gyroscope heel strike (seconds)
+const IMPACT_WINDOW_S = 0.06
+
+export function emptyGaitEvents(): GaitEvents {
+  return { left: { heelStrike: [], toeOff: [] }, right: { heelStrike: [], toeOff: [] } }
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return NaN
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round((p / 100) * (sorted.length - 1))))]
+}
+
+function column(s: Series, d: number): Float64Array {
+  const n = seriesLength(s)
+  const out = new Float64Array(n)
+  for (let i = 0; i < n; i++) {
+    const v = seriesValue(s, i, d)
+    out[i] = typeof v === 'number' && Number.isFinite(v) ? v : NaN
+  }
+  return out
+}
+
+function finiteValues(x: Float64Array): number[] {
+  const out: number[] = []
+  for (const v of x) if (Number.isFinite(v)) out.push(v)
+  return out
+}
+
+function variance(values: number[]): number {
+  if (values.length === 0) return 0
+  const mean = values.reduce((a, b) => a + b, 0) / values.length
+  return values.reduce((a, b) => a + (b - mean) * (b - mean), 0) / values.length
+}
+
+// Local maxima above `threshold`, keeping the highest when two are closer than `minDistance`
+function findPeaks(x: Float64Array, threshold: number, minDistance: number): number[] {
+  const candidates: number[] = []
+  for (let i = 1; i < x.length - 1; i++) {
+    if (x[i] > threshold && x[i] >= x[i - 1] && x[i] > x[i + 1]) candidates.push(i)
+  }
+  candidates.sort((a, b) => x[b] - x[a])
+  const kept: number[] = []
+  for (const c of candidates) {
+    if (kept.every(k => Math.abs(k - c) >= minDistance)) kept.push(c)
+  }
+  return kept.sort((a, b) => a - b)
+}
+
+function argMin(x: Float64Array, start: number, end: number): number {
+  let best = -1
+  for (let i = Math.max(0, start); i < Math.min(x.length, end); i++) {
+    if (Number.isFinite(x[i]) && (best < 0 || x[i] < x[best])) best = i
+  }
+  return best
+}
+
+function accelerationMagnitude(s: Series): Float64Array {
+  const n = seriesLength(s)
+  const dims = seriesDims(s)
+  const out = new Float64Array(n)
+  for (let i = 0; i < n; i++) {
+    let sum = 0
+    for (let d = 0; d < dims; d++) {
+      const v = seriesValue(s, i, d)
+      sum += typeof v === 'number' ? v * v : NaN
+    }
+    out[i] = Math.sqrt(sum)
+  }
+  return out
+}
+
+function detectSide(payload: DatasetPayload, side: GaitSide, options: GaitDetectionOptions): { events: GaitSideEvents, detection: GaitSideDetection } {
+  const { segment, useAccelerometer, cutoffHz = 8, minStrideTime = 0.4, peakThreshold = 0.4 } = options
+  const joint = `${segment}_${side}`
+  const raw = payload.rawSensorData?.[joint]
+  const gyro = raw?.gyroscope
+  const events: GaitSideEvents = { heelStrike: [], toeOff: [] }
+  if (!gyro || seriesLength(gyro) < 3) return { events, detection: { joint: null, axis: 0, inverted: false } }
+
+  const fs = payload.frameRate
+  // Sagittal rotation dominates the foot/shank gyroscope during gait
+  const dims = seriesDims(gyro)
+  let axis = 0
+  let best = -1
+  for (let d = 0; d < dims; d++) {
+    const v = variance(finiteValues(column(gyro, d)))
+    if (v > best) {
+      best = v
+      axis = d
+    }
+  }
+  const cutoff = Math.min(cutoffHz, 0.4 * fs)
+  const sagittal: PackedSeries = { length: seriesLength(gyro), dims: 1, data: Float32Array.from(column(gyro, axis)) }
+  const filtered = butterworthFiltfilt(sagittal, { kind: 'lowpass', order: 2, cutoffHz: cutoff }, fs)
+  const w = column(filtered, 0)
+  // Mid-swing peaks are the largest excursions; make them positive
+  const values = finiteValues(w)
+  const inverted = Math.abs(percentile(values, 1)) > Math.abs(percentile(values, 99))
+  if (inverted) for (let i = 0; i < w.length; i++) w[i] = -w[i]
+
+  const threshold = peakThreshold * percentile(finiteValues(w), 99)
+  const peaks = findPeaks(w, threshold, Math.max(1, Math.round(minStrideTime * fs)))
+  const intervals = peaks.slice(1).map((p, i) => p - peaks[i])
+  const stride = intervals.length > 0 ? percentile(intervals, 50) : Math.round(fs)
+  const half = Math.max(2, Math.round(stride / 2))
+
+  const impact = useAccelerometer && raw?.accelerometer ? accelerationMagnitude(raw.accelerometer) : null
+  const impactWindow = Math.max(1, Math.round(IMPACT_WINDOW_S * fs))
+  let previousHeelStrike = -1
+  peaks.forEach((m, k) => {
+    const next = peaks[k + 1] ?? w.length
+    // Toe off: deepest minimum in the half stride before mid-swing, after the last heel strike
+    const to = argMin(w, Math.max(previousHeelStrike + 1, m - half), m)
+    if (to >= 0) events.toeOff.push(to)
+    // Heel strike: first local minimum after mid-swing (below zero when there is one)
+    const end = Math.min(next, m + half)
+    let hs = -1
+    for (let i = m + 1; i < end - 1; i++) {
+      if (w[i] <= w[i - 1] && w[i] < w[i + 1] && w[i] < 0) {
+        hs = i
+        break
+      }
+    }
+    if (hs < 0) hs = argMin(w, m + 1, end)
+    if (hs < 0 || hs >= w.length - 1) return
+    if (impact) {
+      let peak = hs
+      for (let i = Math.max(0, hs - impactWindow); i <= Math.min(impact.length - 1, hs + impactWindow); i++) {
+        if (Number.isFinite(impact[i]) && (!Number.isFinite(impact[peak]) || impact[i] > impact[peak])) peak = i
+      }
+      hs = peak
+    }
+    events.heelStrike.push(hs)
+    previousHeelStrike = hs
+  })
+  events.heelStrike = [...new Set(events.heelStrike)].sort((a, b) => a - b)
+  events.toeOff = [...new Set(events.toeOff)].sort((a, b) => a - b)
+  return { events, detection: { joint, axis, inverted } }
+}
+
+/** Heel strikes and toe offs per side; sides without a gyroscope on the chosen segment stay empty. */
+export function detectGaitEvents(payload: DatasetPayload, options: GaitDetectionOptions): GaitDetectionResult {
+  const left = detectSide(payload, 'left', options)
+  const right = detectSide(payload, 'right', options)
+  return {
+    events: { left: left.events, right: right.events },
+    sides: { left: left.detection, right: right.detection },
+  }
+}
+
+/** Segments with a gyroscope on at least one side */
+export function availableGaitSegments(payload: DatasetPayload): GaitSegment[] {
+  const raw = payload.rawSensorData ?? {}
+  return (['foot', 'lower_leg'] as GaitSegment[]).filter(segment => GAIT_SIDES.some(side => raw[`${segment}_${side}`]?.gyroscope))
+}
+
+/** Copy of `events` with an event added (no-op when one already sits on that frame). */
+export function addGaitEvent(events: GaitEvents, side: GaitSide, kind: GaitEventKind, frame: number): GaitEvents {
+  const list = events[side][kind]
+  if (list.includes(frame)) return events
+  return { ...events, [side]: { ...events[side], [kind]: [...list, frame].sort((a, b) => a - b) } }
+}
+
+/** Copy of `events` without the event at `frame`. */
+export function removeGaitEvent(events: GaitEvents, side: GaitSide, kind: GaitEventKind, frame: number): GaitEvents {
+  return { ...events, [side]: { ...events[side], [kind]: events[side][kind].filter(f => f !== frame) } }
+}
+
+/** Copy of `events` with the event at `from` moved to `to`. */
+export function moveGaitEvent(events: GaitEvents, side: GaitSide, kind: GaitEventKind, from: number, to: number): GaitEvents {
+  return addGaitEvent(removeGaitEvent(events, side, kind, from), side, kind, to)
+}
+
+/** All events as markers, in frame order. */
+export function gaitEventMarkers(events: GaitEvents): GaitEventMarker[] {
+  const out: GaitEventMarker[] = []
+  for (const side of GAIT_SIDES) {
+    for (const frame of events[side].heelStrike) out.push({ frame, side, kind: 'heelStrike' })
+    for (const frame of events[side].toeOff) out.push({ frame, side, kind: 'toeOff' })
+  }
+  return out.sort((a, b) => a.frame - b.frame)
+}
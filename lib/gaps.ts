@@ -0,0 +1,287 @@
+/**
+ * Data-quality pass: runs of missing (null/NaN) or dropped-out (all-zero) samples per joint
+ * and signal, and their repair by interpolation between the samples around each gap.
+ */
+
+import { SIGNAL_NAMES, type DatasetPayload, type RawSensorEntry, type SignalName } from '@/lib/dataset'
+import { quatSlerp } from '@/lib/quaternion'
+import { framesLength, seriesDims, seriesLength, seriesValue, type Frames, type Series } from '@/lib/series'
+
+/** `missing`: null/NaN/absent samples; `dropout`: every component exactly 0 */
+export type GapKind = 'missing' | 'dropout'
+
+/** Frames [start, end) */
+export interface GapRun {
+  start: number
+  end: number
+  kind: GapKind
+}
+
+export type GapChannel = SignalName | 'position'
+
+export interface GapReportEntry {
+  joint: string
+  channel: GapChannel
+  runs: GapRun[]
+  /** Frames covered by the runs */
+  samples: number
+  /** Length of the longest run */
+  longest: number
+}
+
+export interface GapReport {
+  numFrames: number
+  /** Channels with at least one gap */
+  entries: GapReportEntry[]
+}
+
+export type GapFillMethod = 'linear' | 'cubic'
+
+export interface GapRepairOptions {
+  /** Interpolation for positions and vector signals; orientations always use slerp */
+  method: GapFillMethod
+  /** Longest run (frames) that is filled; longer runs are left as they are */
+  maxGap: number
+}
+
+export interface GapRepairResult {
+  payload: DatasetPayload
+  filledRuns: number
+  filledSamples: number
+  /** Runs left unfilled: longer than `maxGap`, or at the start/end without a sample on both sides */
+  skippedRuns: number
+}
+
+// Rows of one channel inside a flat buffer: component d of row i is data[i * stride + offset + d]
+interface Rows {
+  length: number
+  dims: number
+  data: Float32Array | Float64Array
+  stride: number
+  offset: number
+}
+
+function rowKind(rows: Rows, i: number, zeroDropouts: boolean): GapKind | null {
+  const base = i * rows.stride + rows.offset
+  let zeros = 0
+  for (let d = 0; d < rows.dims; d++) {
+    const v = rows.data[base + d]
+    if (!Number.isFinite(v)) return 'missing'
+    if (v === 0) zeros++
+  }
+  return zeroDropouts && rows.dims > 0 && zeros === rows.dims ? 'dropout' : null
+}
+
+function findRuns(rows: Rows, zeroDropouts: boolean): GapRun[] {
+  const runs: GapRun[] = []
+  let current: GapRun | null = null
+  for (let i = 0; i < rows.length; i++) {
+    const kind = rowKind(rows, i, zeroDropouts)
+    if (current && kind === current.kind) {
+      current.end = i + 1
+      continue
+    }
+    if (current) runs.push(current)
+    current = kind ? { start: i, end: i + 1, kind } : null
+  }
+  if (current) runs.push(current)
+  return runs
+}
+
+// Flat copy of a series; nested rows are copied at full precision, absent values become NaN
+function seriesRows(s: Series): Rows {
+  const length = seriesLength(s)
+  const dims = seriesDims(s)
+  const data = Array.isArray(s) ? new Float64Array(length * dims) : s.data.slice()
+  if (Array.isArray(s)) {
+    for (let i = 0; i < length; i++) {
+      for (let d = 0; d < dims; d++) data[i * dims + d] = seriesValue(s, i, d) ?? NaN
+    }
+  }
+  return { length, dims, data, stride: dims, offset: 0 }
+}
+
+function framesData(frames: Frames, numSensors: number): Float32Array | Float64Array {
+  if (!Array.isArray(frames)) return frames.data.slice()
+  const data = new Float64Array(frames.length * numSensors * 3)
+  for (let f = 0; f < frames.length; f++) {
+    for (let j = 0; j < numSensors; j++) {
+      const p = frames[f]?.[j]
+      const base = (f * numSensors + j) * 3
+      for (let d = 0; d < 3; d++) data[base + d] = p?.[d] ?? NaN
+    }
+  }
+  return data
+}
+
+function jointRows(data: Float32Array | Float64Array, numFrames: number, numSensors: number, j: number): Rows {
+  return { length: numFrames, dims: 3, data, stride: numSensors * 3, offset: j * 3 }
+}
+
+/** Gap runs of one series. Zero rows count as dropouts unless `zeroDropouts` is false. */
+export function findSeriesGaps(s: Series, { zeroDropouts = true } = {}): GapRun[] {
+  return findRuns(seriesRows(s), zeroDropouts)
+}
+
+function entry(joint: string, channel: GapChannel, runs: GapRun[]): GapReportEntry {
+  let samples = 0
+  let longest = 0
+  for (const r of runs) {
+    samples += r.end - r.start
+    longest = Math.max(longest, r.end - r.start)
+  }
+  return { joint, channel, runs, samples, longest }
+}
+
+/**
+ * Gaps in every joint's positions and raw signals. Positions are only checked for missing
+ * samples: a joint can legitimately sit at the origin after centering.
+ */
+export function analyzeGaps(payload: DatasetPayload): GapReport {
+  const entries: GapReportEntry[] = []
+  const numFrames = framesLength(payload.frames)
+  const positions = framesData(payload.frames, payload.numSensors)
+  payload.sensorNames.forEach((joint, j) => {
+    const runs = findRuns(jointRows(positions, numFrames, payload.numSensors, j), false)
+    if (runs.length > 0) entries.push(entry(joint, 'position', runs))
+  })
+  for (const joint of Object.keys(payload.rawSensorData ?? {})) {
+    const raw = payload.rawSensorData![joint]
+    for (const signal of SIGNAL_NAMES) {
+      const series = raw[signal]
+      if (!series) continue
+      const runs = findSeriesGaps(series)
+      if (runs.length > 0) entries.push(entry(joint, signal, runs))
+    }
+  }
+  return { numFrames: payload.numFrames, entries }
+}
+
+// Per-frame slope at the edge of a gap from the two samples outside it; null when unavailable
+function edgeSlope(rows: Rows, inner: number, outer: number, d: number, zeroDropouts: boolean): number | null {
+  if (outer < 0 || outer >= rows.length || rowKind(rows, outer, zeroDropouts)) return null
+  const a = rows.data[outer * rows.stride + rows.offset + d]
+  const b = rows.data[inner * rows.stride + rows.offset + d]
+  return inner > outer ? b - a : a - b
+}
+
+// Fill rows (a, b) from the valid rows a and b
+function fillSpan(rows: Rows, a: number, b: number, method: GapFillMethod | 'slerp', zeroDropouts: boolean) {
+  const len = b - a
+  const at = (i: number, d: number) => rows.data[i * rows.stride + rows.offset + d]
+  if (method === 'slerp') {
+    const qa = [at(a, 0), at(a, 1), at(a, 2), at(a, 3)]
+    const qb = [at(b, 0), at(b, 1), at(b, 2), at(b, 3)]
+    for (let i = a + 1; i < b; i++) {
+      const q = quatSlerp(qa, qb, (i - a) / len)
+      for (let d = 0; d < 4; d++) rows.data[i * rows.stride + rows.offset + d] = q[d]
+    }
+    return
+  }
+  for (let d = 0; d < rows.dims; d++) {
+    const pa = at(a, d)
+    const pb = at(b, d)
+    // Cubic Hermite with end tangents from the neighbouring samples (the chord slope if missing)
+    const chord = (pb - pa) / len
+    const ma = method === 'cubic' ? edgeSlope(rows, a, a - 1, d, zeroDropouts) ?? chord : chord
+    const mb = method === 'cubic' ? edgeSlope(rows, b, b + 1, d, zeroDropouts) ?? chord : chord
+    for (let i = a + 1; i < b; i++) {
+      const t = (i - a) / len
+      let v: number
+      if (method === 'linear') {
+        v = pa + (pb - pa) * t
+      } else {
+        const t2 = t * t
+        const t3 = t2 * t
+        v = (2 * t3 - 3 * t2 + 1) * pa + (t3 - 2 * t2 + t) * len * ma + (-2 * t3 + 3 * t2) * pb + (t3 - t2) * len * mb
+      }
+      rows.data[i * rows.stride + rows.offset + d] = v
+    }
+  }
+}
+
+interface FillCounts { filledRuns: number, filledSamples: number, skippedRuns: number }
+
+// Gap runs are merged when adjacent (e.g. a dropout followed by NaNs) and filled as one span
+function repairRows(rows: Rows, method: GapFillMethod | 'slerp', maxGap: number, zeroDropouts: boolean, counts: FillCounts): boolean {
+  let changed = false
+  let i = 0
+  while (i < rows.length) {
+    if (!rowKind(rows, i, zeroDropouts)) {
+      i++
+      continue
+    }
+    let end = i
+    while (end < rows.length && rowKind(rows, end, zeroDropouts)) end++
+    const len = end - i
+    if (i > 0 && end < rows.length && len <= maxGap) {
+      fillSpan(rows, i - 1, end, method, zeroDropouts)
+      counts.filledRuns++
+      counts.filledSamples += len
+      changed = true
+    } else {
+      counts.skippedRuns++
+    }
+    i = end
+  }
+  return changed
+}
+
+function rowsToSeries(rows: Rows, like: Series): Series {
+  if (!Array.isArray(like)) {
+    return { length: rows.length, dims: rows.dims, data: rows.data instanceof Float32Array ? rows.data : Float32Array.from(rows.data) }
+  }
+  const out: number[][] = new Array(rows.length)
+  for (let i = 0; i < rows.length; i++) out[i] = Array.from(rows.data.subarray(i * rows.dims, (i + 1) * rows.dims))
+  return out
+}
+
+function dataToFrames(data: Float32Array | Float64Array, like: Frames, numFrames: number, numSensors: number): Frames {
+  if (!Array.isArray(like)) return { numFrames, numSensors, data: data as Float32Array }
+  const out: number[][][] = new Array(numFrames)
+  for (let f = 0; f < numFrames; f++) {
+    const row: number[][] = new Array(numSensors)
+    for (let j = 0; j < numSensors; j++) {
+      const base = (f * numSensors + j) * 3
+      row[j] = [data[base], data[base + 1], data[base + 2]]
+    }
+    out[f] = row
+  }
+  return out
+}
+
+/**
+ * Copy of the dataset with gaps of at most `maxGap` frames interpolated from the samples on
+ * either side. Channels without gaps are shared with the input; storage kind (nested or
+ * packed) is kept.
+ */
+export function repairGaps(payload: DatasetPayload, { method, maxGap }: GapRepairOptions): GapRepairResult {
+  const counts: FillCounts = { filledRuns: 0, filledSamples: 0, skippedRuns: 0 }
+  const limit = Math.max(0, Math.floor(maxGap))
+  const out: DatasetPayload = { ...payload }
+
+  const numFrames = framesLength(payload.frames)
+  const positions = framesData(payload.frames, payload.numSensors)
+  let framesChanged = false
+  for (let j = 0; j < payload.numSensors; j++) {
+    if (repairRows(jointRows(positions, numFrames, payload.numSensors, j), method, limit, false, counts)) framesChanged = true
+  }
+  if (framesChanged) out.frames = dataToFrames(positions, payload.frames, numFrames, payload.numSensors)
+
+  if (payload.rawSensorData) {
+    out.rawSensorData = {}
+    for (const joint of Object.keys(payload.rawSensorData)) {
+      const raw = payload.rawSensorData[joint]
+      const repaired: RawSensorEntry = {}
+      for (const signal of SIGNAL_NAMES) {
+        const series = raw[signal]
+        if (!series) continue
+        const rows = seriesRows(series)
+        const signalMethod = signal === 'orientation' && rows.dims === 4 ? 'slerp' : method
+        repaired[signal] = repairRows(rows, signalMethod, limit, true, counts) ? rowsToSeries(rows, series) : series
+      }
+      out.rawSensorData[joint] = repaired
+    }
+  }
+  return { payload: out, ...counts }
+}
@@ -0,0 +1,180 @@
+/**
+ * Animated GLB export of the skeleton scene: one node per joint, one cylinder per bone and,
+ * optionally, orientation axes per sensor. Units are metres, y-up (the viewer scene scale).
+ *
+ * Tracks are sampled at every frame of the range: joints get translation tracks, bones get
+ * translation/rotation/scale tracks (a unit cylinder stretched between its two joints), axes
+ * get translation/rotation tracks from the orientation quaternions.
+ */
+
+import * as THREE from 'three'
+import { readCalibratedPosition, type Calibration, type DatasetPayload } from '@/lib/dataset'
+import type { FrameRange } from '@/lib/chunked-dataset'
+import { readSeriesRow } from '@/lib/series'
+
+export interface GlbExportOptions {
+  calibration?: Calibration
+  /** Frames [start, end) to export; defaults to the whole recording */
+  range?: FrameRange
+  /** Include per-sensor orientation axes (sensors with an orientation series only) */
+  includeAxes?: boolean
+}
+
+const SCALE_FACTOR = 0.01 // dataset cm -> scene metres
+const JOINT_RADIUS = 0.04
+const BONE_RADIUS = 0.012
+const AXIS_LENGTH = 0.15
+const AXIS_RADIUS = 0.006
+
+function buildAxes(name: string): THREE.Group {
+  const group = new THREE.Group()
+  group.name = `${name}_axes`
+  const geometry = new THREE.CylinderGeometry(AXIS_RADIUS, AXIS_RADIUS, AXIS_LENGTH, 8)
+  geometry.translate(0, AXIS_LENGTH / 2, 0)
+  const axes: [string, number, THREE.Euler][] = [
+    ['x', 0xff0000, new THREE.Euler(0, 0, -Math.PI / 2)],
+    ['y', 0x00ff00, new THREE.Euler(0, 0, 0)],
+    ['z', 0x0000ff, new THREE.Euler(Math.PI / 2, 0, 0)],
+  ]
+  for (const [axis, color, rotation] of axes) {
+    const mesh = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ color }))
+    mesh.name = `${name}_axis_${axis}`
+    mesh.rotation.copy(rotation)
+    group.add(mesh)
+  }
+  return group
+}
+
+/**
+ * Build the animated scene and its clip (exposed for callers that want to post-process it).
+ */
+export function buildSkeletonAnimation(payload: DatasetPayload, options: GlbExportOptions = {}): { scene: THREE.Scene, clip: THREE.AnimationClip } {
+  const { calibration, includeAxes = false } = options
+  const start = Math.max(0, Math.min(payload.numFrames - 1, Math.floor(options.range?.[0] ?? 0)))
+  const end = Math.max(start + 1, Math.min(payload.numFrames, Math.floor(options.range?.[1] ?? payload.numFrames)))
+  const count = end - start
+  const numJoints = payload.numSensors
+
+  // Calibrated joint positions per frame (scene units); missing samples hold the previous value
+  const positions = new Float32Array(count * numJoints * 3)
+  const p = [0, 0, 0]
+  for (let f = 0; f < count; f++) {
+    for (let j = 0; j < numJoints; j++) {
+      const base = (f * numJoints + j) * 3
+      const ok = readCalibratedPosition(payload, calibration, start + f, j, p) &&
+        Number.isFinite(p[0]) && Number.isFinite(p[1]) && Number.isFinite(p[2])
+      if (ok) {
+        positions[base] = p[0] * SCALE_FACTOR
+        positions[base + 1] = p[1] * SCALE_FACTOR
+        positions[base + 2] = p[2] * SCALE_FACTOR
+      } else if (f > 0) {
+        positions.copyWithin(base, base - numJoints * 3, base - numJoints * 3 + 3)
+      }
+    }
+  }
+
+  const times = new Float32Array(count)
+  for (let f = 0; f < count; f++) times[f] = f / payload.frameRate
+
+  const scene = new THREE.Scene()
+  scene.name = 'skeleton'
+  const tracks: THREE.KeyframeTrack[] = []
+
+  // Joints
+  const jointGeometry = new THREE.SphereGeometry(JOINT_RADIUS, 16, 12)
+  const jointMaterial = new THREE.MeshStandardMaterial({ color: 0x6366f1, roughness: 0.4, metalness: 0.6 })
+  for (let j = 0; j < numJoints; j++) {
+    const name = payload.sensorNames[j]
+    const mesh = new THREE.Mesh(jointGeometry, jointMaterial)
+    mesh.name = name
+    mesh.position.fromArray(positions, j * 3)
+    scene.add(mesh)
+    const values = new Float32Array(count * 3)
+    for (let f = 0; f < count; f++) values.set(positions.subarray((f * numJoints + j) * 3, (f * numJoints + j) * 3 + 3), f * 3)
+    tracks.push(new THREE.VectorKeyframeTrack(`${name}.position`, times, values))
+  }
+
+  // Bones: unit-height cylinder along +Y, placed at the midpoint and stretched to the bone length
+  const boneGeometry = new THREE.CylinderGeometry(BONE_RADIUS, BONE_RADIUS, 1, 8)
+  const boneMaterial = new THREE.MeshStandardMaterial({ color: 0x10b981, roughness: 0.6 })
+  const up = new THREE.Vector3(0, 1, 0)
+  const a = new THREE.Vector3()
+  const b = new THREE.Vector3()
+  const dir = new THREE.Vector3()
+  const q = new THREE.Quaternion()
+  const prevQ = new THREE.Quaternion()
+  for (const [from, to] of payload.edges) {
+    const ia = payload.sensorNames.indexOf(from)
+    const ib = payload.sensorNames.indexOf(to)
+    if (ia < 0 || ib < 0) continue
+    const name = `${from}-${to}`
+    const mesh = new THREE.Mesh(boneGeometry, boneMaterial)
+    mesh.name = name
+    scene.add(mesh)
+    const pos = new Float32Array(count * 3)
+    const rot = new Float32Array(count * 4)
+    const scl = new Float32Array(count * 3)
+    for (let f = 0; f < count; f++) {
+      a.fromArray(positions, (f * numJoints + ia) * 3)
+      b.fromArray(positions, (f * numJoints + ib) * 3)
+      dir.subVectors(b, a)
+      const length = dir.length()
+      if (length > 1e-9) q.setFromUnitVectors(up, dir.divideScalar(length))
+      else q.copy(prevQ)
+      // Keep consecutive quaternions in the same hemisphere so interpolation takes the short way
+      if (f > 0 && q.dot(prevQ) < 0) q.set(-q.x, -q.y, -q.z, -q.w)
+      prevQ.copy(q)
+      a.add(b).multiplyScalar(0.5)
+      a.toArray(pos, f * 3)
+      q.toArray(rot, f * 4)
+      scl.set([1, Math.max(length, 1e-6), 1], f * 3)
+    }
+    mesh.position.fromArray(pos, 0)
+    mesh.quaternion.fromArray(rot, 0)
+    mesh.scale.fromArray(scl, 0)
+    tracks.push(new THREE.VectorKeyframeTrack(`${name}.position`, times, pos))
+    tracks.push(new THREE.QuaternionKeyframeTrack(`${name}.quaternion`, times, rot))
+    tracks.push(new THREE.VectorKeyframeTrack(`${name}.scale`, times, scl))
+  }
+
+  // Orientation axes from the sensor quaternions ([w, x, y, z])
+  if (includeAxes && payload.rawSensorData) {
+    const row = [1, 0, 0, 0]
+    for (const name of Object.keys(payload.rawSensorData)) {
+      const series = payload.rawSensorData[name].orientation
+      const j = payload.sensorNames.indexOf(name)
+      if (!series || j < 0) continue
+      const group = buildAxes(name)
+      scene.add(group)
+      const pos = new Float32Array(count * 3)
+      const rot = new Float32Array(count * 4)
+      prevQ.identity()
+      for (let f = 0; f < count; f++) {
+        pos.set(positions.subarray((f * numJoints + j) * 3, (f * numJoints + j) * 3 + 3), f * 3)
+        if (readSeriesRow(series, start + f, row) && row.every(Number.isFinite)) q.set(row[1], row[2], row[3], row[0]).normalize()
+        else q.copy(prevQ)
+        if (f > 0 && q.dot(prevQ) < 0) q.set(-q.x, -q.y, -q.z, -q.w)
+        prevQ.copy(q)
+        q.toArray(rot, f * 4)
+      }
+      group.position.fromArray(pos, 0)
+      group.quaternion.fromArray(rot, 0)
+      tracks.push(new THREE.VectorKeyframeTrack(`${group.name}.position`, times, pos))
+      tracks.push(new THREE.QuaternionKeyframeTrack(`${group.name}.quaternion`, times, rot))
+    }
+  }
+
+  const clip = new THREE.AnimationClip('motion', count / payload.frameRate, tracks)
+  return { scene, clip }
+}
+
+/**
+ * Export the animated skeleton as a binary glTF (GLB).
+ */
+export async function exportGlb(payload: DatasetPayload, options: GlbExportOptions = {}): Promise<ArrayBuffer> {
+  const { GLTFExporter } = await import('three/examples/jsm/exporters/GLTFExporter.js')
+  const { scene, clip } = buildSkeletonAnimation(payload, options)
+  const result = await new GLTFExporter().parseAsync(scene, { binary: true, animations: [clip] })
+  if (!(result instanceof ArrayBuffer)) throw new Error('GLB export did not produce binary output')
+  return result
+}
@@ -0,0 +1,206 @@
+/**
+ * In-browser reader for Free_Form_Analysis .h5 recordings (APDM layout) using h5wasm.
+ * Follows the layout export_web_dataset.py reads, so a recording can be opened without the
+ * Python step (the output is not checked against the exporter's):
+ *   Sensors/<id>/{Accelerometer,Gyroscope,Magnetometer,Time} + Configuration attrs ("Label 0", "Sample Rate")
+ *   Processed/<id>/Orientation  (quaternion [w, x, y, z])
+ */
+
+import type { DatasetPayload, SignalName } from '@/lib/dataset'
+import { DATASET_SCHEMA_VERSION, type ValidationIssue } from '@/lib/dataset-schema'
+import { EDGES, SENSOR_NAMES } from '@/lib/skeleton-constants'
+import { solveSkeletonFrames, type PoseSolveOptions } from '@/lib/pose-solver'
+
+export interface H5LoadOptions extends PoseSolveOptions {
+  /** Keep every Nth sample (same as the exporter's --frame-step) */
+  frameStep?: number
+}
+
+/** Rate used when the file has neither a "Sample Rate" attribute nor usable timestamps */
+export const FALLBACK_SAMPLE_RATE = 128
+
+export interface H5LoadResult {
+  payload: DatasetPayload
+  /** Guesses the reader had to make, in the validation report's format */
+  warnings: ValidationIssue[]
+}
+
+type H5Module = typeof import('h5wasm')['default']
+type H5Group = InstanceType<H5Module['Group']>
+type H5Dataset = InstanceType<H5Module['Dataset']>
+
+function getDataset(group: H5Group, name: string): H5Dataset | null {
+  const entity = group.get(name)
+  return entity && 'shape' in entity && 'value' in entity ? (entity as H5Dataset) : null
+}
+
+let h5Ready: Promise<H5Module> | null = null
+
+function loadH5wasm(): Promise<H5Module> {
+  if (!h5Ready) {
+    h5Ready = import('h5wasm')
+      .then(async mod => {
+        const h5 = mod.default
+        await h5.ready
+        return h5
+      })
+      .catch(err => {
+        h5Ready = null
+        throw err
+      })
+  }
+  return h5Ready
+}
+
+/**
+ * Map an APDM sensor label (e.g. "Right Thigh", "Left Lower Arm") to a SENSOR_NAMES entry.
+ */
+export function sensorNameFromLabel(label: string): string | null {
+  const l = label.toLowerCase().replace(/[_-]+/g, ' ').trim()
+  if ((SENSOR_NAMES as readonly string[]).includes(l.replace(/ /g, '_'))) return l.replace(/ /g, '_')
+  const side = /\bleft\b|^l\b/.test(l) ? 'left' : /\bright\b|^r\b/.test(l) ? 'right' : null
+  if (/head/.test(l)) return 'head'
+  if (/sternum|chest|trunk/.test(l)) return 'sternum'
+  if (/lumbar|pelvis|sacrum/.test(l)) return 'lumbar'
+  if (!side) return null
+  if (/foot/.test(l)) return `foot_${side}`
+  if (/hand/.test(l)) return `hand_${side}`
+  if (/wrist|lower arm|forearm/.test(l)) return `wrist_${side}`
+  if (/upper arm|arm/.test(l)) return `upper_arm_${side}`
+  if (/shank|lower leg|shin|ankle/.test(l)) return `lower_leg_${side}`
+  if (/thigh|upper leg/.test(l)) return `upper_leg_${side}`
+  return null
+}
+
+function readLabel(group: H5Group): string | null {
+  const config = group.get('Configuration') as H5Group | null
+  const attrs = (config && 'attrs' in config ? config.attrs : group.attrs) ?? {}
+  const attr = attrs['Label 0'] ?? attrs['Label'] ?? attrs['label']
+  const value = attr?.json_value
+  if (typeof value === 'string') return value
+  if (Array.isArray(value) && typeof value[0] === 'string') return value[0]
+  return null
+}
+
+function readSampleRate(group: H5Group): number | null {
+  const config = group.get('Configuration') as H5Group | null
+  const attrs = (config && 'attrs' in config ? config.attrs : group.attrs) ?? {}
+  const value = attrs['Sample Rate']?.json_value
+  const rate = Array.isArray(value) ? Number(value[0]) : Number(value)
+  return Number.isFinite(rate) && rate > 0 ? rate : null
+}
+
+function readMatrix(group: H5Group | null, name: string, width: number, step: number): number[][] | undefined {
+  if (!group) return undefined
+  const ds = getDataset(group, name)
+  const shape = ds?.shape
+  if (!shape || shape.length !== 2 || shape[1] !== width) return undefined
+  const flat = ds!.value as ArrayLike<number>
+  const rows = shape[0]
+  const out: number[][] = []
+  for (let i = 0; i < rows; i += step) {
+    const row = new Array(width)
+    for (let d = 0; d < width; d++) row[d] = Number(flat[i * width + d])
+    out.push(row)
+  }
+  return out
+}
+
+function readTimeRate(group: H5Group): number | null {
+  const ds = getDataset(group, 'Time')
+  const shape = ds?.shape
+  if (!shape || shape[0] < 2) return null
+  const t = ds!.value as ArrayLike<number | bigint>
+  const n = Math.min(t.length, 1000)
+  const dt = (Number(t[n - 1]) - Number(t[0])) / (n - 1)
+  // APDM timestamps are microseconds since epoch
+  return dt > 0 ? 1e6 / dt : null
+}
+
+/**
+ * Read a Free_Form_Analysis .h5 file and map its sensor groups into a DatasetPayload.
+ * When no sensor reports a sample rate, FALLBACK_SAMPLE_RATE is used and a warning says so.
+ */
+export async function loadH5Dataset(buffer: ArrayBuffer, options: H5LoadOptions = {}): Promise<H5LoadResult> {
+  const step = Math.max(1, Math.floor(options.frameStep ?? 1))
+  const h5 = await loadH5wasm()
+  const FS = (await h5.ready).FS
+  const filename = `upload_${Date.now()}_${Math.random().toString(36).slice(2)}.h5`
+  FS.writeFile(filename, new Uint8Array(buffer))
+  const file = new h5.File(filename, 'r')
+
+  try {
+    const sensors = file.get('Sensors') as H5Group | null
+    if (!sensors || typeof sensors.keys !== 'function') {
+      throw new Error('No "Sensors" group found. Is this a Free_Form_Analysis file?')
+    }
+    const processed = file.get('Processed') as H5Group | null
+
+    const rawSensorData: { [jointName: string]: { [K in SignalName]?: number[][] } } = {}
+    let sourceRate: number | null = null
+
+    for (const id of sensors.keys()) {
+      const group = sensors.get(id) as H5Group | null
+      if (!group || typeof group.keys !== 'function') continue
+      const label = readLabel(group)
+      const name = label ? sensorNameFromLabel(label) : null
+      if (!name || rawSensorData[name]) continue
+      const processedGroup = processed && typeof processed.keys === 'function' ? (processed.get(id) as H5Group | null) : null
+      rawSensorData[name] = {
+        orientation: readMatrix(processedGroup, 'Orientation', 4, step),
+        gyroscope: readMatrix(group, 'Gyroscope', 3, step),
+        accelerometer: readMatrix(group, 'Accelerometer', 3, step),
+        magnetometer: readMatrix(group, 'Magnetometer', 3, step),
+      }
+      sourceRate = sourceRate ?? readSampleRate(group) ?? readTimeRate(group)
+    }
+
+    const mapped = Object.keys(rawSensorData)
+    if (mapped.length === 0) throw new Error('No sensors with recognizable labels were found in the file')
+
+    let numFrames = Infinity
+    for (const name of mapped) {
+      for (const series of Object.values(rawSensorData[name])) {
+        if (series) numFrames = Math.min(numFrames, series.length)
+      }
+    }
+    if (!Number.isFinite(numFrames) || numFrames === 0) throw new Error('The file contains no sensor samples')
+
+    // Truncate every series to the shortest stream so all arrays share numFrames
+    for (const name of mapped) {
+      const entry = rawSensorData[name]
+      for (const key of Object.keys(entry) as (keyof typeof entry)[]) {
+        if (!entry[key]) delete entry[key]
+        else entry[key] = entry[key]!.slice(0, numFrames)
+      }
+    }
+
+    const orientations: Record<string, number[][] | undefined> = {}
+    for (const name of mapped) orientations[name] = rawSensorData[name].orientation
+    const frames = solveSkeletonFrames(orientations, numFrames, options)
+
+    const warnings: ValidationIssue[] = []
+    if (sourceRate === null) {
+      warnings.push({ path: 'frameRate', message: `no "Sample Rate" attribute or usable Time dataset; assumed ${FALLBACK_SAMPLE_RATE} Hz` })
+    }
+
+    const payload: DatasetPayload = {
+      version: DATASET_SCHEMA_VERSION,
+      frameRate: (sourceRate ?? FALLBACK_SAMPLE_RATE) / step,
+      sensorNames: [...SENSOR_NAMES],
+      edges: EDGES.map(([a, b]) => [a, b] as [string, string]),
+      numFrames,
+      numSensors: SENSOR_NAMES.length,
+      frames,
+      rawSensorData,
+    }
+    return { payload, warnings }
+  } finally {
+    file.close()
+    try {
+      FS.unlink(filename)
+    } catch {
+      // ignore cleanup errors
+    }
+  }
+}
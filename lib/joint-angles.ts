@@ -0,0 +1,181 @@
+/**
+ * Anatomical joint angles from the orientations of adjacent segments (the `EDGES` pairs).
+ * Like the pose solver, each segment's first valid sample is taken as the neutral (standing)
+ * pose, and axes are those of the rest pose: x to the subject's right, y forward, z up.
+ * The sensors' global frame need not face the subject: the neutral heading is taken from the
+ * lumbar sensor's forward (y) axis over a static window at the start, and the relative
+ * rotation is expressed in the parent segment's anatomical frame, which follows the parent
+ * as the subject turns.
+ *
+ * The child's rotation relative to its parent is decomposed as a Cardan XYZ sequence
+ * (Grood & Suntay style): flexion/extension about the medio-lateral axis (sagittal plane),
+ * ab/adduction about the antero-posterior axis (frontal plane), then internal/external
+ * rotation about the segment's long axis (transverse plane). Signs are flipped per joint and
+ * side so that flexion, abduction and internal rotation are positive on both sides.
+ */
+
+import type { DatasetPayload } from '@/lib/dataset'
+import { quatToEuler, type AngleUnit } from '@/lib/euler'
+import { IDENTITY_QUAT, quatConjugate, quatMultiply, quatNormalize, quatRotateVector, type Quat } from '@/lib/quaternion'
+import { createPackedSeries, readSeriesRow, seriesLength, type PackedSeries, type Series } from '@/lib/series'
+import { buildJointHierarchy, EDGES } from '@/lib/skeleton-constants'
+
+/** Component labels of joint angle series, in output order */
+export const JOINT_ANGLE_COMPONENTS = ['flexion', 'abduction', 'rotation']
+
+export interface JointAngleDefinition {
+  /** e.g. `knee_left` */
+  name: string
+  /** e.g. `Knee (left)` */
+  label: string
+  parent: string
+  child: string
+  /** Multipliers turning the X/Y/Z Cardan angles into flexion, abduction, internal rotation */
+  signs: [number, number, number]
+}
+
+export interface JointAngleOptions {
+  unit: AngleUnit
+  /** Remove ±360° jumps so angles stay continuous over time */
+  unwrap: boolean
+}
+
+/** Seconds at the start averaged for the neutral heading (subject standing still) */
+const STATIC_WINDOW_S = 0.5
+
+// Clinical joint named after the child segment, and whether positive X rotation is flexion.
+// The trunk and neck flex forward (the upper segment tips towards -y: negative X rotation);
+// the knee flexes backwards.
+const JOINT_NAMES: Record<string, { joint: string, flexion: number }> = {
+  sternum: { joint: 'trunk', flexion: -1 },
+  head: { joint: 'neck', flexion: -1 },
+  upper_arm: { joint: 'shoulder', flexion: 1 },
+  wrist: { joint: 'elbow', flexion: 1 },
+  hand: { joint: 'wrist', flexion: 1 },
+  upper_leg: { joint: 'hip', flexion: 1 },
+  lower_leg: { joint: 'knee', flexion: -1 },
+  foot: { joint: 'ankle', flexion: 1 },
+}
+
+function describeJoint(parent: string, child: string): JointAngleDefinition {
+  const side = child.endsWith('_left') ? 'left' : child.endsWith('_right') ? 'right' : null
+  const segment = side ? child.slice(0, -(side.length + 1)) : child
+  const known = JOINT_NAMES[segment]
+  const joint = known?.joint ?? `${parent}_${child}`
+  // A rotation about +y swings a right limb inwards and a left limb outwards; about +z it
+  // turns a right limb inwards and a left limb outwards
+  const signs: [number, number, number] = [known?.flexion ?? 1, side === 'right' ? -1 : 1, side === 'left' ? -1 : 1]
+  const title = joint.charAt(0).toUpperCase() + joint.slice(1).replace(/_/g, ' ')
+  return {
+    name: side && known ? `${joint}_${side}` : joint,
+    label: side && known ? `${title} (${side})` : title,
+    parent,
+    child,
+    signs,
+  }
+}
+
+/** One joint per parent/child pair of the skeleton (tree rooted at lumbar), in hierarchy order. */
+export function jointAngleDefinitions(edges: [string, string][] = EDGES): JointAngleDefinition[] {
+  const hierarchy = buildJointHierarchy(edges)
+  const out: JointAngleDefinition[] = []
+  for (const child of hierarchy.order) {
+    const parent = hierarchy.parent[child]
+    if (parent) out.push(describeJoint(parent, child))
+  }
+  return out
+}
+
+/** Joints whose parent and child both have an orientation series in the dataset. */
+export function availableJointAngles(payload: DatasetPayload): JointAngleDefinition[] {
+  const raw = payload.rawSensorData
+  if (!raw) return []
+  return jointAngleDefinitions().filter(def => raw[def.parent]?.orientation && raw[def.child]?.orientation)
+}
+
+/** Joint angle definition whose child segment is `joint`, when both orientations exist. */
+export function jointAngleForSegment(payload: DatasetPayload, joint: string): JointAngleDefinition | null {
+  return availableJointAngles(payload).find(def => def.child === joint) ?? null
+}
+
+function readQuat(s: Series, i: number, out: number[]): boolean {
+  out.fill(NaN)
+  return readSeriesRow(s, i, out) && out.every(Number.isFinite) && out.some(v => v !== 0)
+}
+
+// Inverse of the first valid orientation: the segment's neutral pose
+function neutralInverse(s: Series): Quat | null {
+  const q = [0, 0, 0, 0]
+  const n = seriesLength(s)
+  for (let i = 0; i < n; i++) {
+    if (readQuat(s, i, q)) return quatConjugate(quatNormalize(q))
+  }
+  return null
+}
+
+// Rotation about the vertical taking the rest-pose forward axis (+y) to the subject's forward
+// direction in the sensors' global frame: the lumbar sensor's y axis (the parent's when there
+// is no lumbar orientation), projected on the ground and averaged over the static window
+function neutralHeading(payload: DatasetPayload, fallback: Series): Quat {
+  const s = payload.rawSensorData?.lumbar?.orientation ?? fallback
+  const n = seriesLength(s)
+  const window = Math.max(1, Math.round(STATIC_WINDOW_S * payload.frameRate))
+  const q = [0, 0, 0, 0]
+  let fx = 0
+  let fy = 0
+  for (let i = 0, used = 0; i < n && used < window; i++) {
+    if (!readQuat(s, i, q)) continue
+    const forward = quatRotateVector(quatNormalize(q), [0, 1, 0])
+    fx += forward[0]
+    fy += forward[1]
+    used++
+  }
+  // Sensor lying flat or no valid sample: keep the global axes
+  if (Math.hypot(fx, fy) < 1e-6) return [...IDENTITY_QUAT]
+  const yaw = Math.atan2(-fx, fy)
+  return [Math.cos(yaw / 2), 0, 0, Math.sin(yaw / 2)]
+}
+
+/**
+ * Joint angle series [flexion, abduction, rotation] of one parent/child pair. Frames where
+ * either orientation is missing are NaN. Returns null when a segment has no orientation.
+ */
+export function jointAngleSeries(payload: DatasetPayload, def: JointAngleDefinition, { unit, unwrap }: JointAngleOptions): PackedSeries | null {
+  const parent = payload.rawSensorData?.[def.parent]?.orientation
+  const child = payload.rawSensorData?.[def.child]?.orientation
+  if (!parent || !child) return null
+  const parentRef = neutralInverse(parent)
+  const childRef = neutralInverse(child)
+  const heading = neutralHeading(payload, parent)
+  const headingInverse = quatConjugate(heading)
+  const n = Math.min(seriesLength(parent), seriesLength(child))
+  const out = createPackedSeries(n, 3)
+  out.data.fill(NaN)
+  if (!parentRef || !childRef) return out
+
+  const qp = [0, 0, 0, 0]
+  const qc = [0, 0, 0, 0]
+  const scale = unit === 'deg' ? 180 / Math.PI : 1
+  const last: (number | null)[] = [null, null, null]
+  const offset = [0, 0, 0]
+  for (let f = 0; f < n; f++) {
+    if (!readQuat(parent, f, qp) || !readQuat(child, f, qc)) continue
+    // Rotations from neutral in the global frame; the parent's anatomical frame is its rotation
+    // applied to the neutral heading, and the child's orientation is expressed in that frame
+    const rp = quatMultiply(quatNormalize(qp), parentRef)
+    const rc = quatMultiply(quatNormalize(qc), childRef)
+    const relative = quatMultiply(quatMultiply(headingInverse, quatMultiply(quatConjugate(rp), rc)), heading)
+    const angles = quatToEuler(relative, 'XYZ')
+    for (let d = 0; d < 3; d++) {
+      let v = angles[d] * def.signs[d]
+      if (unwrap) {
+        const prev = last[d]
+        if (prev !== null) offset[d] -= 2 * Math.PI * Math.round((v + offset[d] - prev) / (2 * Math.PI))
+        v += offset[d]
+        last[d] = v
+      }
+      out.data[f * 3 + d] = v * scale
+    }
+  }
+  return out
+}
@@ -0,0 +1,170 @@
+/**
+ * Recording a live stream into a standard dataset. Frames are appended to growable typed
+ * arrays while recording; `finish()` produces a packed DatasetPayload with capture metadata.
+ */
+
+import { SIGNAL_COMPONENTS, SIGNAL_NAMES, type DatasetPayload, type RawSensorEntry, type SignalName } from '@/lib/dataset'
+import { DATASET_SCHEMA_VERSION } from '@/lib/dataset-schema'
+import type { LiveFrameMessage, LiveHelloMessage } from '@/lib/live-stream'
+import { EDGES } from '@/lib/skeleton-constants'
+
+// Longest run of dropped frames that is filled with NaN rows; a larger jump in `seq` is treated
+// as a discontinuity (counted as dropped, but neither padded nor timed)
+const MAX_GAP_FRAMES = 60 * 240
+
+export interface RecordingProgress {
+  frames: number
+  droppedFrames: number
+  durationSec: number
+}
+
+// Float32 storage that doubles its capacity as rows are appended
+class GrowableRows {
+  data: Float32Array
+  rows = 0
+
+  constructor(readonly stride: number, initialRows = 1024) {
+    this.data = new Float32Array(initialRows * stride)
+  }
+
+  /** Reserve the next row (NaN-filled) and return its offset */
+  append(): number {
+    if ((this.rows + 1) * this.stride > this.data.length) {
+      const next = new Float32Array(this.data.length * 2)
+      next.set(this.data)
+      this.data = next
+    }
+    const offset = this.rows * this.stride
+    this.data.fill(NaN, offset, offset + this.stride)
+    this.rows++
+    return offset
+  }
+
+  /** Exact-length copy of the stored rows */
+  trimmed(): Float32Array {
+    return this.data.slice(0, this.rows * this.stride)
+  }
+}
+
+export class LiveRecorder {
+  private readonly positions: GrowableRows
+  private readonly channels: { joint: string, signal: SignalName, rows: GrowableRows }[] = []
+  private firstSeq: number | null = null
+  private lastSeq: number | null = null
+  private firstT = 0
+  private lastT = 0
+  private dropped = 0
+  // Frame intervals and sender time covered by the stored rows (discontinuities excluded)
+  private storedIntervals = 0
+  private storedMs = 0
+
+  constructor(private readonly hello: LiveHelloMessage, private readonly source: string) {
+    this.positions = new GrowableRows(hello.sensorNames.length * 3)
+    const signals = hello.signals ?? {}
+    for (const joint of Object.keys(signals)) {
+      if (!Array.isArray(signals[joint])) continue
+      for (const signal of SIGNAL_NAMES) {
+        if (signals[joint].includes(signal)) this.channels.push({ joint, signal, rows: new GrowableRows(SIGNAL_COMPONENTS[signal].length) })
+      }
+    }
+  }
+
+  /** Append a frame accepted by the live buffer (`seq` strictly increasing). */
+  push(msg: LiveFrameMessage) {
+    if (this.lastSeq !== null) {
+      const gap = msg.seq - this.lastSeq - 1
+      this.dropped += gap
+      if (gap <= MAX_GAP_FRAMES) {
+        for (let k = 0; k < gap; k++) this.appendRow(null)
+        this.storedIntervals += gap + 1
+        this.storedMs += msg.t - this.lastT
+      }
+    } else {
+      this.firstSeq = msg.seq
+      this.firstT = msg.t
+    }
+    this.lastSeq = msg.seq
+    this.lastT = msg.t
+    this.appendRow(msg)
+  }
+
+  private appendRow(msg: LiveFrameMessage | null) {
+    const base = this.positions.append()
+    if (msg) {
+      const n = this.hello.sensorNames.length
+      for (let j = 0; j < n; j++) {
+        const p = msg.positions[j]
+        for (let d = 0; d < 3; d++) {
+          const v = p?.[d]
+          if (typeof v === 'number') this.positions.data[base + j * 3 + d] = v
+        }
+      }
+    }
+    for (const ch of this.channels) {
+      const offset = ch.rows.append()
+      const row = msg?.raw?.[ch.joint]?.[ch.signal]
+      if (!row) continue
+      for (let d = 0; d < ch.rows.stride; d++) {
+        const v = row[d]
+        if (typeof v === 'number') ch.rows.data[offset + d] = v
+      }
+    }
+  }
+
+  /**
+   * Frame rate measured from the sender timestamps over the stored rows (padded drops
+   * included, discontinuities left out) so it matches the recorded frame count; the announced
+   * rate until two frames are in.
+   */
+  measuredFrameRate(): number {
+    if (this.storedIntervals === 0 || this.storedMs <= 0) return this.hello.frameRate
+    return (this.storedIntervals * 1000) / this.storedMs
+  }
+
+  progress(): RecordingProgress {
+    return {
+      frames: this.positions.rows,
+      droppedFrames: this.dropped,
+      durationSec: this.firstSeq === null ? 0 : (this.lastT - this.firstT) / 1000,
+    }
+  }
+
+  /** Build the recorded dataset; null when no frame was recorded. */
+  finish(): DatasetPayload | null {
+    const numFrames = this.positions.rows
+    if (numFrames === 0) return null
+    const numSensors = this.hello.sensorNames.length
+    const payload: DatasetPayload = {
+      version: DATASET_SCHEMA_VERSION,
+      // Rounded so exported headers stay readable; ~1e-3 Hz is far below timestamp jitter
+      frameRate: Math.round(this.measuredFrameRate() * 1000) / 1000,
+      sensorNames: [...this.hello.sensorNames],
+      edges: this.hello.edges ?? EDGES.map(([a, b]) => [a, b] as [string, string]),
+      numFrames,
+      numSensors,
+      frames: { numFrames, numSensors, data: this.positions.trimmed() },
+      recording: {
+        startTime: new Date(this.firstT).toISOString(),
+        nominalFrameRate: this.hello.frameRate,
+        droppedFrames: this.dropped,
+        source: this.source,
+      },
+    }
+    if (this.channels.length > 0) {
+      const raw: { [joint: string]: RawSensorEntry } = {}
+      for (const ch of this.channels) {
+        const entry = (raw[ch.joint] ??= {})
+        entry[ch.signal] = { length: numFrames, dims: ch.rows.stride, data: ch.rows.trimmed() }
+      }
+      payload.rawSensorData = raw
+    }
+    return payload
+  }
+}
+
+/** Display name for a recorded dataset, e.g. "Recording 2025-10-06 13:49:47" (local time) */
+export function recordingLabel(payload: DatasetPayload): string {
+  const start = payload.recording ? new Date(payload.recording.startTime) : new Date()
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `Recording ${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())} ${pad(start.getHours())}:${pad(start.getMinutes())}:${pad(start.getSeconds())}`
+}
@@ -0,0 +1,293 @@
+/**
+ * Live IMU streaming over WebSocket: the message format, a rolling frame buffer the viewer and
+ * charts read from, and latency/drop statistics.
+ *
+ * Messages are JSON text, one per WebSocket message. The sender starts every connection with
+ *   { "type": "hello", "version": 1, "frameRate": 64,
+ *     "sensorNames": ["head", ...], "edges": [["head", "sternum"], ...],
+ *     "signals": { "head": ["orientation", "gyroscope", "accelerometer", "magnetometer"], ... } }
+ * and then sends one message per frame:
+ *   { "type": "frame", "seq": 1234, "t": 1728221387123.4,
+ *     "positions": [[x, y, z], ...],
+ *     "raw": { "head": { "orientation": [w, x, y, z], "gyroscope": [x, y, z] }, ... } }
+ *
+ * `positions` follow `sensorNames` order in viewer space (y-up, cm), as dataset frames do.
+ * `raw` carries the channels announced in `signals` (components as in SIGNAL_COMPONENTS);
+ * missing channels read as NaN. `seq` increases by one per frame, so gaps count as dropped
+ * frames. `t` is the sender's wall clock in ms since the epoch; latency is measured against
+ * the receiver's clock and is only meaningful when both clocks agree (e.g. the same machine).
+ * `edges` and `signals` are optional. A new hello restarts the stream.
+ */
+
+import { SIGNAL_COMPONENTS, SIGNAL_NAMES, type DatasetPayload, type RawSensorEntry, type SignalName } from '@/lib/dataset'
+import type { PackedFrames, PackedSeries } from '@/lib/series'
+import { EDGES } from '@/lib/skeleton-constants'
+
+export const LIVE_PROTOCOL_VERSION = 1
+
+export interface LiveHelloMessage {
+  type: 'hello'
+  version: number
+  frameRate: number
+  sensorNames: string[]
+  edges?: [string, string][]
+  signals?: { [jointName: string]: SignalName[] }
+}
+
+export interface LiveFrameMessage {
+  type: 'frame'
+  seq: number
+  t: number
+  positions: number[][]
+  raw?: { [jointName: string]: { [K in SignalName]?: number[] } }
+}
+
+export type LiveMessage = LiveHelloMessage | LiveFrameMessage
+
+export interface LiveStreamStats {
+  /** Frames accepted into the buffer */
+  received: number
+  /** Frames missing from the sequence (gaps in `seq`) */
+  dropped: number
+  /** Frames discarded because their `seq` was not newer than the last one, or malformed */
+  discarded: number
+  /** Receive rate over the recent frames (Hz) */
+  rateHz: number
+  /** Receive time minus sender timestamp (ms), over the recent frames */
+  latencyMs: { last: number, mean: number, max: number }
+  /** Frames currently held in the rolling window */
+  buffered: number
+}
+
+/** Parse one message; throws on malformed JSON or an unknown/invalid message. */
+export function parseLiveMessage(text: string): LiveMessage {
+  const msg = JSON.parse(text)
+  if (!msg || typeof msg !== 'object') throw new Error('Live message is not an object')
+  if (msg.type === 'hello') {
+    if (typeof msg.version === 'number' && msg.version > LIVE_PROTOCOL_VERSION) {
+      throw new Error(`Live protocol version ${msg.version} is newer than supported (${LIVE_PROTOCOL_VERSION})`)
+    }
+    if (!(typeof msg.frameRate === 'number' && msg.frameRate > 0)) throw new Error('hello: frameRate must be a positive number')
+    if (!Array.isArray(msg.sensorNames) || !msg.sensorNames.every((n: unknown) => typeof n === 'string')) {
+      throw new Error('hello: sensorNames must be an array of strings')
+    }
+    return msg as LiveHelloMessage
+  }
+  if (msg.type === 'frame') {
+    if (typeof msg.seq !== 'number' || typeof msg.t !== 'number') throw new Error('frame: seq and t must be numbers')
+    if (!Array.isArray(msg.positions)) throw new Error('frame: positions must be an array')
+    return msg as LiveFrameMessage
+  }
+  throw new Error(`Unknown live message type: ${String(msg.type)}`)
+}
+
+// Recent frames used for rate and latency statistics
+const STATS_WINDOW = 256
+
+/**
+ * Fixed-capacity ring buffer of streamed frames. `payload` is a packed DatasetPayload that
+ * `publish()` refills in place with the buffered frames in time order (oldest first), so the
+ * viewer and charts keep the same objects and only need a version bump to re-read them.
+ */
+export class LiveFrameBuffer {
+  readonly payload: DatasetPayload
+  readonly capacity: number
+  private readonly numSensors: number
+  private readonly positions: Float32Array
+  private readonly channels: { joint: string, signal: SignalName, dims: number, ring: Float32Array, view: PackedSeries }[] = []
+  private readonly seqs: Float64Array
+  private readonly sentAt: Float64Array
+  private readonly receivedAt: Float64Array
+  private head = 0
+  private count = 0
+  private firstSeq: number | null = null
+  private lastSeq: number | null = null
+  private received = 0
+  private dropped = 0
+  private discarded = 0
+
+  constructor(hello: LiveHelloMessage, windowSeconds: number) {
+    this.capacity = Math.max(2, Math.ceil(windowSeconds * hello.frameRate))
+    this.numSensors = hello.sensorNames.length
+    this.positions = new Float32Array(this.capacity * this.numSensors * 3).fill(NaN)
+    this.seqs = new Float64Array(this.capacity)
+    this.sentAt = new Float64Array(this.capacity)
+    this.receivedAt = new Float64Array(this.capacity)
+
+    const frames: PackedFrames = { numFrames: 0, numSensors: this.numSensors, data: new Float32Array(this.positions.length) }
+    this.payload = {
+      frameRate: hello.frameRate,
+      sensorNames: hello.sensorNames,
+      edges: hello.edges ?? EDGES.map(([a, b]) => [a, b] as [string, string]),
+      numFrames: 0,
+      numSensors: this.numSensors,
+      frames,
+    }
+
+    const signals = hello.signals ?? {}
+    const joints = Object.keys(signals).filter(j => Array.isArray(signals[j]) && signals[j].length > 0)
+    if (joints.length > 0) {
+      this.payload.rawSensorData = {}
+      for (const joint of joints) {
+        const entry: RawSensorEntry = {}
+        for (const signal of SIGNAL_NAMES) {
+          if (!signals[joint].includes(signal)) continue
+          const dims = SIGNAL_COMPONENTS[signal].length
+          const view: PackedSeries = { length: 0, dims, data: new Float32Array(this.capacity * dims) }
+          entry[signal] = view
+          this.channels.push({ joint, signal, dims, ring: new Float32Array(this.capacity * dims).fill(NaN), view })
+        }
+        this.payload.rawSensorData[joint] = entry
+      }
+    }
+  }
+
+  /** Add a frame; returns false when it was discarded (stale or repeated `seq`). */
+  push(msg: LiveFrameMessage, receivedAt: number): boolean {
+    if (this.lastSeq !== null && msg.seq <= this.lastSeq) {
+      this.discarded++
+      return false
+    }
+    if (this.lastSeq !== null) this.dropped += msg.seq - this.lastSeq - 1
+    if (this.firstSeq === null) this.firstSeq = msg.seq
+    this.lastSeq = msg.seq
+
+    const slot = this.head
+    const base = slot * this.numSensors * 3
+    for (let j = 0; j < this.numSensors; j++) {
+      const p = msg.positions[j]
+      for (let d = 0; d < 3; d++) {
+        const v = p?.[d]
+        this.positions[base + j * 3 + d] = typeof v === 'number' ? v : NaN
+      }
+    }
+    for (const ch of this.channels) {
+      const row = msg.raw?.[ch.joint]?.[ch.signal]
+      for (let d = 0; d < ch.dims; d++) {
+        const v = row?.[d]
+        ch.ring[slot * ch.dims + d] = typeof v === 'number' ? v : NaN
+      }
+    }
+    this.seqs[slot] = msg.seq
+    this.sentAt[slot] = msg.t
+    this.receivedAt[slot] = receivedAt
+
+    this.head = (this.head + 1) % this.capacity
+    this.count = Math.min(this.count + 1, this.capacity)
+    this.received++
+    return true
+  }
+
+  /** Count a message that could not be parsed */
+  markDiscarded() {
+    this.discarded++
+  }
+
+  /** Copy the buffered frames into `payload` in time order; returns the frame count. */
+  publish(): number {
+    const start = (this.head - this.count + this.capacity) % this.capacity
+    const frames = this.payload.frames as PackedFrames
+    copyRing(this.positions, frames.data, start, this.count, this.capacity, this.numSensors * 3)
+    frames.numFrames = this.count
+    this.payload.numFrames = this.count
+    for (const ch of this.channels) {
+      copyRing(ch.ring, ch.view.data, start, this.count, this.capacity, ch.dims)
+      ch.view.length = this.count
+    }
+    return this.count
+  }
+
+  /**
+   * Stream time (s) of the oldest buffered frame, counted from the first frame received,
+   * for labelling the rolling chart window.
+   */
+  windowStartTime(): number {
+    if (this.count === 0 || this.firstSeq === null) return 0
+    const oldest = (this.head - this.count + this.capacity) % this.capacity
+    return (this.seqs[oldest] - this.firstSeq) / this.payload.frameRate
+  }
+
+  stats(): LiveStreamStats {
+    const n = Math.min(this.count, STATS_WINDOW)
+    let sum = 0
+    let max = 0
+    let last = NaN
+    for (let k = 0; k < n; k++) {
+      const i = (this.head - 1 - k + this.capacity) % this.capacity
+      const latency = this.receivedAt[i] - this.sentAt[i]
+      if (k === 0) last = latency
+      sum += latency
+      if (latency > max) max = latency
+    }
+    let rateHz = NaN
+    if (n >= 2) {
+      const newest = this.receivedAt[(this.head - 1 + this.capacity) % this.capacity]
+      const oldest = this.receivedAt[(this.head - n + this.capacity) % this.capacity]
+      if (newest > oldest) rateHz = ((n - 1) * 1000) / (newest - oldest)
+    }
+    return {
+      received: this.received,
+      dropped: this.dropped,
+      discarded: this.discarded,
+      rateHz,
+      latencyMs: { last, mean: n > 0 ? sum / n : NaN, max: n > 0 ? max : NaN },
+      buffered: this.count,
+    }
+  }
+}
+
+// Copy `count` rows of `stride` values from ring slot `start` onwards (wrapping) to the front of `out`
+function copyRing(ring: Float32Array, out: Float32Array, start: number, count: number, capacity: number, stride: number) {
+  const first = Math.min(count, capacity - start)
+  out.set(ring.subarray(start * stride, (start + first) * stride), 0)
+  if (count > first) out.set(ring.subarray(0, (count - first) * stride), first * stride)
+}
+
+export interface LiveStreamHandlers {
+  onHello: (hello: LiveHelloMessage) => void
+  onFrame: (frame: LiveFrameMessage, receivedAt: number) => void
+  /** A message that could not be parsed; the connection stays open */
+  onInvalidMessage?: (error: Error) => void
+  onOpen?: () => void
+  /** Connection closed (by either side); `error` is set when it failed */
+  onClose?: (error?: Error) => void
+}
+
+export interface LiveConnection {
+  close: () => void
+}
+
+/** Open a WebSocket to a live sender and dispatch its messages. */
+export function connectLiveStream(url: string, handlers: LiveStreamHandlers): LiveConnection {
+  const socket = new WebSocket(url)
+  let failed = false
+  let closedByUs = false
+  socket.onopen = () => handlers.onOpen?.()
+  socket.onmessage = (e: MessageEvent) => {
+    const receivedAt = Date.now()
+    if (typeof e.data !== 'string') {
+      handlers.onInvalidMessage?.(new Error('Binary live messages are not supported'))
+      return
+    }
+    let msg: LiveMessage
+    try {
+      msg = parseLiveMessage(e.data)
+    } catch (err: any) {
+      handlers.onInvalidMessage?.(err instanceof Error ? err : new Error(String(err)))
+      return
+    }
+    if (msg.type === 'hello') handlers.onHello(msg)
+    else handlers.onFrame(msg, receivedAt)
+  }
+  socket.onerror = () => { failed = true }
+  socket.onclose = (e: CloseEvent) => {
+    if (closedByUs) return handlers.onClose?.()
+    handlers.onClose?.(failed || !e.wasClean ? new Error(`Connection to ${url} failed or was lost${e.reason ? `: ${e.reason}` : ''}`) : undefined)
+  }
+  return {
+    close: () => {
+      closedByUs = true
+      socket.close()
+    },
+  }
+}
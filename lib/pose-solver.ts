@@ -0,0 +1,89 @@
+/**
+ * Joint positions from sensor orientations, shared by the in-browser importers (.h5, CSV).
+ * Forward kinematics on the standing rest pose, then centering, in the steps export_web_dataset.py
+ * takes (not checked against its output).
+ */
+
+import { centerFrames, DEFAULT_CENTERING, type CenterAnchor } from '@/lib/centering'
+import { SENSOR_NAMES, buildJointHierarchy, exampleStandingRest } from '@/lib/skeleton-constants'
+import { quatConjugate, quatMultiply, quatNormalize, quatRotateVector, type Quat, type Vec3 } from '@/lib/quaternion'
+
+export interface PoseSolveOptions {
+  /** Subject height used for the rest-pose segment lengths */
+  heightM?: number
+  centerMode?: CenterAnchor
+  emaAlpha?: number
+  verticalLock?: boolean
+}
+
+// Rest pose uses z-up meters; the viewer expects y-up centimeters
+function toViewer(v: ArrayLike<number>): Vec3 {
+  return [v[0] * 100, v[2] * 100, -v[1] * 100]
+}
+
+// Finite and not all zero, as in joint-angles' readQuat
+function isValidQuat(q: number[]): boolean {
+  return q.length >= 4 && q.every(Number.isFinite) && q.some(v => v !== 0)
+}
+
+/**
+ * Forward kinematics from lumbar: each bone keeps its rest-pose length and is rotated by the
+ * child segment's orientation relative to its first valid sample (subject assumed to start at
+ * rest).
+ */
+function solvePositions(
+  orientations: Record<string, number[][] | undefined>,
+  numFrames: number,
+  heightM: number
+): number[][][] {
+  const rest = exampleStandingRest(heightM)
+  const hierarchy = buildJointHierarchy()
+
+  const refInverse: Record<string, Quat> = {}
+  for (const name of SENSOR_NAMES) {
+    const q0 = orientations[name]?.find(isValidQuat)
+    if (q0) refInverse[name] = quatConjugate(quatNormalize(q0))
+  }
+
+  const frames: number[][][] = new Array(numFrames)
+  for (let f = 0; f < numFrames; f++) {
+    const pos: Record<string, Vec3> = { lumbar: [...rest.lumbar] as Vec3 }
+    for (const child of hierarchy.order) {
+      const parent = hierarchy.parent[child]
+      if (!parent) continue
+      const restOffset: Vec3 = [
+        rest[child][0] - rest[parent][0],
+        rest[child][1] - rest[parent][1],
+        rest[child][2] - rest[parent][2],
+      ]
+      const q = orientations[child]?.[f]
+      const offset = q && refInverse[child]
+        ? quatRotateVector(quatMultiply(quatNormalize(q), refInverse[child]), restOffset)
+        : restOffset
+      const p = pos[parent]
+      pos[child] = [p[0] + offset[0], p[1] + offset[1], p[2] + offset[2]]
+    }
+    frames[f] = SENSOR_NAMES.map(name => toViewer(pos[name]))
+  }
+  return frames
+}
+
+/**
+ * Viewer-space frames [frame][SENSOR_NAMES][xyz] (y-up cm) from per-joint orientation series.
+ * Joints without orientations keep their rest-pose offset from the parent.
+ */
+export function solveSkeletonFrames(
+  orientations: Record<string, number[][] | undefined>,
+  numFrames: number,
+  options: PoseSolveOptions = {}
+): number[][][] {
+  const {
+    heightM = 1.75,
+    centerMode = DEFAULT_CENTERING.anchor,
+    emaAlpha = DEFAULT_CENTERING.emaAlpha,
+    verticalLock = DEFAULT_CENTERING.verticalLock,
+  } = options
+  const frames = solvePositions(orientations, numFrames, heightM)
+  centerFrames(frames, SENSOR_NAMES, { anchor: centerMode, emaAlpha, verticalLock })
+  return frames
+}
@@ -0,0 +1,17 @@
+import type { ButterworthFilter, NormalizeMode, Stats } from '@/lib/processing'
+
+/** Messages exchanged with the processing worker; series travel as transferable Float32Arrays */
+export interface ProcessingRequest {
+  id: number
+  length: number
+  dims: number
+  data: Float32Array
+  normalizeMode: NormalizeMode
+  smoothWindow: number
+  filter: ButterworthFilter | null
+  frameRate: number
+}
+
+export type ProcessingResponse =
+  | { id: number, ok: true, length: number, dims: number, data: Float32Array, stats: Stats }
+  | { id: number, ok: false, error: string }
@@ -0,0 +1,112 @@
+/**
+ * Promise API over the processing worker. Only one job runs at a time: starting a new job or
+ * aborting the current one terminates the busy worker, so stale computations never block.
+ * Falls back to the main thread where workers are unavailable.
+ */
+
+import { computeStats, processSeries, type SeriesProcessingOptions, type Stats } from '@/lib/processing'
+import type { ProcessingRequest, ProcessingResponse } from '@/lib/processing-protocol'
+import { isPackedSeries, packSeries, type PackedSeries, type Series } from '@/lib/series'
+
+export interface ProcessingOptions extends SeriesProcessingOptions {
+  signal?: AbortSignal
+}
+
+export interface ProcessingResult {
+  series: PackedSeries
+  stats: Stats
+}
+
+function abortError(): Error {
+  const err = new Error('Processing was cancelled')
+  err.name = 'AbortError'
+  return err
+}
+
+// Copy into a fresh buffer we can transfer; packed dataset series are views we must not detach
+function toTransferable(series: Series): PackedSeries {
+  if (isPackedSeries(series)) return { length: series.length, dims: series.dims, data: series.data.slice() }
+  return packSeries(series)
+}
+
+export class ProcessingService {
+  private worker: Worker | null = null
+  private nextId = 1
+  private pending: {
+    id: number
+    resolve: (r: ProcessingResult) => void
+    reject: (e: Error) => void
+    cleanup: () => void
+  } | null = null
+
+  private getWorker(): Worker | null {
+    if (typeof window === 'undefined' || typeof Worker === 'undefined') return null
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./processing.worker.ts', import.meta.url))
+      this.worker.onmessage = (e: MessageEvent<ProcessingResponse>) => this.handleMessage(e.data)
+      this.worker.onerror = (e) => {
+        const job = this.pending
+        this.resetWorker()
+        job?.reject(new Error(e.message || 'Processing worker failed'))
+      }
+    }
+    return this.worker
+  }
+
+  private resetWorker() {
+    this.worker?.terminate()
+    this.worker = null
+    this.pending?.cleanup()
+    this.pending = null
+  }
+
+  private handleMessage(msg: ProcessingResponse) {
+    const job = this.pending
+    if (!job || job.id !== msg.id) return
+    job.cleanup()
+    this.pending = null
+    if (msg.ok) job.resolve({ series: { length: msg.length, dims: msg.dims, data: msg.data }, stats: msg.stats })
+    else job.reject(new Error(msg.error))
+  }
+
+  /** Cancel the in-flight job, if any (its promise rejects with an AbortError). */
+  cancel() {
+    const job = this.pending
+    if (!job) return
+    this.resetWorker()
+    job.reject(abortError())
+  }
+
+  process(series: Series, options: ProcessingOptions): Promise<ProcessingResult> {
+    const { normalizeMode, smoothWindow, filter = null, frameRate = NaN, signal } = options
+    this.cancel()
+    if (signal?.aborted) return Promise.reject(abortError())
+
+    const input = toTransferable(series)
+    const worker = this.getWorker()
+    if (!worker) {
+      try {
+        const s = processSeries(input, { normalizeMode, smoothWindow, filter, frameRate }) as PackedSeries
+        return Promise.resolve({ series: s, stats: computeStats(s) })
+      } catch (e: any) {
+        return Promise.reject(e instanceof Error ? e : new Error(String(e)))
+      }
+    }
+
+    return new Promise<ProcessingResult>((resolve, reject) => {
+      const id = this.nextId++
+      const onAbort = () => {
+        if (this.pending?.id === id) this.cancel()
+      }
+      signal?.addEventListener('abort', onAbort)
+      this.pending = { id, resolve, reject, cleanup: () => signal?.removeEventListener('abort', onAbort) }
+      const request: ProcessingRequest = { id, length: input.length, dims: input.dims, data: input.data, normalizeMode, smoothWindow, filter, frameRate }
+      worker.postMessage(request, [input.data.buffer])
+    })
+  }
+
+  dispose() {
+    this.cancel()
+    this.resetWorker()
+  }
+}
@@ -1,3 +1,5 @@
+import { createPackedSeries, isPackedSeries, seriesDims, seriesLength, seriesValue, type Series } from '@/lib/series'
+
 export interface Stats {
   min: number[]
   max: number[]
@@ -5,90 +7,426 @@ export interface Stats {
   std: number[]
 }
 
-export function computeStats(series: number[][]): Stats {
-  if (!series || series.length === 0) return { min: [], max: [], mean: [], std: [] }
-  const dims = series[0].length
-  const n = series.length
+// Missing samples (absent rows, null, NaN) read as NaN so they are skipped, never counted as 0
+function sampleAt(series: Series, i: number, d: number): number {
+  const v = seriesValue(series, i, d)
+  return typeof v === 'number' && Number.isFinite(v) ? v : NaN
+}
+
+/** Per-component stats over the finite samples (NaN for a component without any). */
+export function computeStats(series: Series): Stats {
+  if (!series || seriesLength(series) === 0) return { min: [], max: [], mean: [], std: [] }
+  const dims = seriesDims(series)
+  const n = seriesLength(series)
   const min = new Array(dims).fill(Infinity)
   const max = new Array(dims).fill(-Infinity)
   const sum = new Array(dims).fill(0)
+  const count = new Array(dims).fill(0)
   for (let i = 0; i < n; i++) {
-    const row = series[i]
     for (let d = 0; d < dims; d++) {
-      const v = row[d] ?? 0
+      const v = sampleAt(series, i, d)
+      if (Number.isNaN(v)) continue
       if (v < min[d]) min[d] = v
       if (v > max[d]) max[d] = v
       sum[d] += v
+      count[d]++
     }
   }
-  const mean = sum.map(s => s / n)
+  const mean = sum.map((s, d) => (count[d] > 0 ? s / count[d] : NaN))
   const varSum = new Array(dims).fill(0)
   for (let i = 0; i < n; i++) {
-    const row = series[i]
     for (let d = 0; d < dims; d++) {
-      const v = row[d] ?? 0
+      const v = sampleAt(series, i, d)
+      if (Number.isNaN(v)) continue
       const diff = v - mean[d]
       varSum[d] += diff * diff
     }
   }
-  const std = varSum.map(v => Math.sqrt(v / Math.max(1, n - 1)))
-  return { min, max, mean, std }
+  const std = varSum.map((v, d) => (count[d] > 0 ? Math.sqrt(v / Math.max(1, count[d] - 1)) : NaN))
+  return {
+    min: min.map((v, d) => (count[d] > 0 ? v : NaN)),
+    max: max.map((v, d) => (count[d] > 0 ? v : NaN)),
+    mean,
+    std,
+  }
+}
+
+/**
+ * Build a series of the same storage kind as `like` (packed in, packed out),
+ * filling each row through `fill(i, row)`.
+ */
+function mapSeries(like: Series, dims: number, fill: (i: number, row: number[]) => void): Series {
+  const n = seriesLength(like)
+  const row = new Array(dims).fill(0)
+  if (isPackedSeries(like)) {
+    const out = createPackedSeries(n, dims)
+    for (let i = 0; i < n; i++) {
+      fill(i, row)
+      out.data.set(row, i * dims)
+    }
+    return out
+  }
+  const out: number[][] = new Array(n)
+  for (let i = 0; i < n; i++) {
+    fill(i, row)
+    out[i] = row.slice()
+  }
+  return out
 }
 
 export type NormalizeMode = 'none' | 'minmax' | 'zscore' | 'vector-unit' | 'quaternion-unit'
 
-export function normalizeSeries(series: number[][], mode: NormalizeMode): number[][] {
-  if (!series || series.length === 0 || mode === 'none') return series
-  const dims = series[0].length
+/** Mode actually applied for a signal: orientation is always unit-normalized unless another mode is chosen */
+export function resolveNormalizeMode(mode: NormalizeMode, signal: string | null): NormalizeMode {
+  return mode === 'none' && signal === 'orientation' ? 'quaternion-unit' : mode
+}
+
+export function normalizeSeries(series: Series, mode: NormalizeMode): Series {
+  if (!series || seriesLength(series) === 0 || mode === 'none') return series
+  const dims = seriesDims(series)
+  const at = (i: number, d: number) => sampleAt(series, i, d)
   if (mode === 'vector-unit' && dims >= 3) {
-    return series.map(row => {
-      const x = row[0] ?? 0, y = row[1] ?? 0, z = row[2] ?? 0
+    return mapSeries(series, dims, (i, row) => {
+      const x = at(i, 0), y = at(i, 1), z = at(i, 2)
       const len = Math.hypot(x, y, z) || 1
-      return [x / len, y / len, z / len, ...row.slice(3)]
+      row[0] = x / len
+      row[1] = y / len
+      row[2] = z / len
+      for (let d = 3; d < dims; d++) row[d] = at(i, d)
     })
   }
   if (mode === 'quaternion-unit' && dims === 4) {
-    return series.map(row => {
-      const w = row[0] ?? 0, x = row[1] ?? 0, y = row[2] ?? 0, z = row[3] ?? 0
+    return mapSeries(series, 4, (i, row) => {
+      const w = at(i, 0), x = at(i, 1), y = at(i, 2), z = at(i, 3)
       const len = Math.hypot(w, x, y, z) || 1
-      return [w / len, x / len, y / len, z / len]
+      row[0] = w / len
+      row[1] = x / len
+      row[2] = y / len
+      row[3] = z / len
     })
   }
   if (mode === 'minmax') {
     const { min, max } = computeStats(series)
-    return series.map(row => row.map((v, i) => {
-      const denom = (max[i] - min[i]) || 1
-      return ((v ?? 0) - min[i]) / denom
-    }))
+    return mapSeries(series, dims, (i, row) => {
+      for (let d = 0; d < dims; d++) {
+        const denom = (max[d] - min[d]) || 1
+        row[d] = (at(i, d) - min[d]) / denom
+      }
+    })
   }
   if (mode === 'zscore') {
     const { mean, std } = computeStats(series)
-    return series.map(row => row.map((v, i) => ((v ?? 0) - mean[i]) / (std[i] || 1)))
+    return mapSeries(series, dims, (i, row) => {
+      for (let d = 0; d < dims; d++) row[d] = (at(i, d) - mean[d]) / (std[d] || 1)
+    })
   }
   return series
 }
 
-export function movingAverageSmooth(series: number[][], window: number): number[][] {
+/** Trailing moving average over the finite samples in the window; missing samples stay missing. */
+export function movingAverageSmooth(series: Series, window: number): Series {
   const w = Math.max(1, Math.floor(window))
-  if (!series || series.length === 0 || w === 1) return series
-  const n = series.length
-  const dims = series[0].length
-  const out: number[][] = new Array(n)
+  if (!series || seriesLength(series) === 0 || w === 1) return series
+  const dims = seriesDims(series)
   const acc = new Array(dims).fill(0)
-  const buf: number[][] = []
-  for (let i = 0; i < n; i++) {
-    const row = series[i]
-    buf.push(row)
-    for (let d = 0; d < dims; d++) acc[d] += row[d] ?? 0
-    if (buf.length > w) {
-      const old = buf.shift()!
-      for (let d = 0; d < dims; d++) acc[d] -= old[d] ?? 0
+  const count = new Array(dims).fill(0)
+  return mapSeries(series, dims, (i, row) => {
+    for (let d = 0; d < dims; d++) {
+      const v = sampleAt(series, i, d)
+      if (!Number.isNaN(v)) {
+        acc[d] += v
+        count[d]++
+      }
+      if (i >= w) {
+        const old = sampleAt(series, i - w, d)
+        if (!Number.isNaN(old)) {
+          acc[d] -= old
+          count[d]--
+        }
+      }
+      row[d] = Number.isNaN(v) ? NaN : acc[d] / count[d]
     }
-    const denom = buf.length
-    out[i] = new Array(dims)
-    for (let d = 0; d < dims; d++) out[i][d] = acc[d] / denom
+  })
+}
+
+export type FilterKind = 'lowpass' | 'highpass' | 'bandpass'
+
+export interface ButterworthFilter {
+  kind: FilterKind
+  /** Order of each pass (the forward-backward response has twice the attenuation) */
+  order: number
+  /** Cutoff (Hz); the lower edge for band-pass */
+  cutoffHz: number
+  /** Upper edge (Hz) for band-pass */
+  highCutoffHz?: number
+}
+
+/** Reason the filter cannot be applied at this frame rate, or null when it is valid. */
+export function validateFilter(filter: ButterworthFilter, frameRate: number): string | null {
+  const nyquist = frameRate / 2
+  if (!Number.isInteger(filter.order) || filter.order < 1 || filter.order > 8) return 'Order must be 1–8'
+  if (!(filter.cutoffHz > 0 && filter.cutoffHz < nyquist)) return `Cutoff must be between 0 and ${nyquist} Hz (Nyquist)`
+  if (filter.kind === 'bandpass') {
+    const high = filter.highCutoffHz ?? NaN
+    if (!(high > filter.cutoffHz && high < nyquist)) return `Upper cutoff must be between ${filter.cutoffHz} and ${nyquist} Hz`
   }
-  return out
+  return null
+}
+
+/** Short label such as "low-pass 4th order 6 Hz", for export headers */
+export function describeFilter(filter: ButterworthFilter): string {
+  const kind = filter.kind === 'lowpass' ? 'low-pass' : filter.kind === 'highpass' ? 'high-pass' : 'band-pass'
+  const n = filter.order
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th'
+  const band = filter.kind === 'bandpass' ? `${filter.cutoffHz}–${filter.highCutoffHz} Hz` : `${filter.cutoffHz} Hz`
+  return `Butterworth ${kind} ${n}${suffix} order ${band}`
+}
+
+// Direct form II transposed section: y = (b0 + b1 z^-1 + b2 z^-2) / (1 + a1 z^-1 + a2 z^-2)
+interface Section { b0: number, b1: number, b2: number, a1: number, a2: number }
+
+/**
+ * Digital Butterworth low/high-pass as second-order sections: the analog prototype's pole
+ * pairs (Q = 1 / (2 sin((2k - 1)π / 2N))) through the prewarped bilinear transform, plus a
+ * first-order section for odd orders.
+ */
+function butterworthSections(kind: 'lowpass' | 'highpass', order: number, cutoffHz: number, frameRate: number): Section[] {
+  const w0 = (2 * Math.PI * cutoffHz) / frameRate
+  const cos = Math.cos(w0)
+  const sin = Math.sin(w0)
+  const sections: Section[] = []
+  for (let k = 1; k <= Math.floor(order / 2); k++) {
+    const q = 1 / (2 * Math.sin(((2 * k - 1) * Math.PI) / (2 * order)))
+    const alpha = sin / (2 * q)
+    const a0 = 1 + alpha
+    const bScale = kind === 'lowpass' ? (1 - cos) / 2 : (1 + cos) / 2
+    sections.push({
+      b0: bScale / a0,
+      b1: (kind === 'lowpass' ? 2 * bScale : -2 * bScale) / a0,
+      b2: bScale / a0,
+      a1: (-2 * cos) / a0,
+      a2: (1 - alpha) / a0,
+    })
+  }
+  if (order % 2 === 1) {
+    const t = Math.tan(w0 / 2)
+    const b = kind === 'lowpass' ? t / (1 + t) : 1 / (1 + t)
+    sections.push({ b0: b, b1: kind === 'lowpass' ? b : -b, b2: 0, a1: (t - 1) / (t + 1), a2: 0 })
+  }
+  return sections
+}
+
+function filterSections(filter: ButterworthFilter, frameRate: number): Section[] {
+  if (filter.kind === 'bandpass') {
+    // High-pass at the lower edge followed by low-pass at the upper edge
+    return [
+      ...butterworthSections('highpass', filter.order, filter.cutoffHz, frameRate),
+      ...butterworthSections('lowpass', filter.order, filter.highCutoffHz ?? filter.cutoffHz, frameRate),
+    ]
+  }
+  return butterworthSections(filter.kind, filter.order, filter.cutoffHz, frameRate)
+}
+
+// Run the cascade over x in place, starting from the steady state for a constant input x[0]
+// (like scipy's sosfilt_zi) so the output does not ring in from zero
+function runSections(sections: Section[], x: Float64Array) {
+  let input0 = x[0]
+  for (const s of sections) {
+    const gain = (s.b0 + s.b1 + s.b2) / (1 + s.a1 + s.a2)
+    const y0 = gain * input0
+    let z2 = s.b2 * input0 - s.a2 * y0
+    let z1 = s.b1 * input0 - s.a1 * y0 + z2
+    for (let i = 0; i < x.length; i++) {
+      const xi = x[i]
+      const yi = s.b0 * xi + z1
+      z1 = s.b1 * xi - s.a1 * yi + z2
+      z2 = s.b2 * xi - s.a2 * yi
+      x[i] = yi
+    }
+    input0 = y0
+  }
+}
+
+// Zero-phase filtering of one finite segment: odd reflection padding, forward pass, backward pass
+function filtfiltSegment(sections: Section[], segment: Float64Array): Float64Array {
+  const n = segment.length
+  const pad = Math.min(n - 1, 3 * (2 * sections.length + 1))
+  const x = new Float64Array(n + 2 * pad)
+  for (let i = 0; i < pad; i++) {
+    x[i] = 2 * segment[0] - segment[pad - i]
+    x[n + pad + i] = 2 * segment[n - 1] - segment[n - 2 - i]
+  }
+  x.set(segment, pad)
+  runSections(sections, x)
+  x.reverse()
+  runSections(sections, x)
+  x.reverse()
+  return x.subarray(pad, pad + n)
+}
+
+/**
+ * Zero-phase Butterworth filter (forward-backward, as scipy's filtfilt) of every component.
+ * Runs of finite samples are filtered separately so gaps stay gaps instead of spreading NaN.
+ */
+export function butterworthFiltfilt(series: Series, filter: ButterworthFilter, frameRate: number): Series {
+  if (!series || seriesLength(series) === 0) return series
+  const invalid = validateFilter(filter, frameRate)
+  if (invalid) throw new Error(invalid)
+  const sections = filterSections(filter, frameRate)
+  const n = seriesLength(series)
+  const dims = seriesDims(series)
+  const columns: Float64Array[] = []
+  for (let d = 0; d < dims; d++) {
+    const col = new Float64Array(n)
+    for (let i = 0; i < n; i++) col[i] = sampleAt(series, i, d)
+    let i = 0
+    while (i < n) {
+      if (Number.isNaN(col[i])) {
+        i++
+        continue
+      }
+      let end = i
+      while (end < n && !Number.isNaN(col[end])) end++
+      // Single samples have nothing to filter against
+      if (end - i > 1) col.set(filtfiltSegment(sections, col.subarray(i, end)), i)
+      i = end
+    }
+    columns.push(col)
+  }
+  return mapSeries(series, dims, (i, row) => {
+    for (let d = 0; d < dims; d++) row[d] = columns[d][i]
+  })
+}
+
+export interface SeriesProcessingOptions {
+  normalizeMode: NormalizeMode
+  smoothWindow: number
+  filter?: ButterworthFilter | null
+  /** Needed with `filter` */
+  frameRate?: number
+}
+
+/** Chart pipeline: Butterworth filter (optional), normalization, moving average. */
+export function processSeries(series: Series, { normalizeMode, smoothWindow, filter, frameRate }: SeriesProcessingOptions): Series {
+  let s = series
+  if (filter) s = butterworthFiltfilt(s, filter, frameRate ?? NaN)
+  s = normalizeSeries(s, normalizeMode)
+  return movingAverageSmooth(s, smoothWindow)
 }
 
+/** In-place radix-2 FFT; `re.length` must be a power of two. */
+export function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t
+      t = im[i]; im[i] = im[j]; im[j] = t
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1
+    const step = (-2 * Math.PI) / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = Math.cos(step * k)
+        const wi = Math.sin(step * k)
+        const a = start + k
+        const b = a + half
+        const tr = re[b] * wr - im[b] * wi
+        const ti = re[b] * wi + im[b] * wr
+        re[b] = re[a] - tr
+        im[b] = im[a] - ti
+        re[a] += tr
+        im[a] += ti
+      }
+    }
+  }
+}
+
+export interface Spectrum {
+  /** Bin frequencies (Hz), 0 to Nyquist */
+  frequencies: Float64Array
+  /** One-sided power spectral density per component (units²/Hz) */
+  psd: Float64Array[]
+  /** Frequency of the largest non-DC bin per component (NaN without data) */
+  peakHz: number[]
+  segmentLength: number
+  /** Segments averaged (segments containing missing samples are skipped) */
+  segments: number
+}
+
+export interface WelchOptions {
+  /** Samples per segment, rounded down to a power of two (default 256, at most the series length) */
+  segmentLength?: number
+  /** Fraction of a segment shared with the next (default 0.5) */
+  overlap?: number
+}
 
+/**
+ * Welch power spectral density: mean-detrended Hann-windowed segments averaged, scaled like
+ * scipy.signal.welch(scaling='density'). With a single segment this is the windowed FFT
+ * periodogram. Returns null when no segment is free of missing samples.
+ */
+export function welchPsd(series: Series, frameRate: number, { segmentLength = 256, overlap = 0.5 }: WelchOptions = {}): Spectrum | null {
+  const n = seriesLength(series)
+  const dims = seriesDims(series)
+  if (n < 4 || dims === 0 || !(frameRate > 0)) return null
+  let m = 4
+  while (m * 2 <= Math.min(n, segmentLength)) m *= 2
+  const hop = Math.max(1, Math.round(m * (1 - Math.min(0.95, Math.max(0, overlap)))))
+  const window = new Float64Array(m)
+  let windowPower = 0
+  for (let i = 0; i < m; i++) {
+    // Periodic Hann, as scipy's default 'hann' window for spectral estimation
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / m)
+    windowPower += window[i] * window[i]
+  }
+  const bins = m / 2 + 1
+  const psd = Array.from({ length: dims }, () => new Float64Array(bins))
+  const re = new Float64Array(m)
+  const im = new Float64Array(m)
+  let segments = 0
+  for (let start = 0; start + m <= n; start += hop) {
+    let complete = true
+    for (let i = start; i < start + m && complete; i++) {
+      for (let d = 0; d < dims; d++) {
+        if (Number.isNaN(sampleAt(series, i, d))) {
+          complete = false
+          break
+        }
+      }
+    }
+    if (!complete) continue
+    segments++
+    for (let d = 0; d < dims; d++) {
+      let mean = 0
+      for (let i = 0; i < m; i++) mean += sampleAt(series, start + i, d)
+      mean /= m
+      for (let i = 0; i < m; i++) {
+        re[i] = (sampleAt(series, start + i, d) - mean) * window[i]
+        im[i] = 0
+      }
+      fft(re, im)
+      const out = psd[d]
+      for (let k = 0; k < bins; k++) out[k] += re[k] * re[k] + im[k] * im[k]
+    }
+  }
+  if (segments === 0) return null
+  const scale = 1 / (frameRate * windowPower * segments)
+  for (const out of psd) {
+    for (let k = 0; k < bins; k++) {
+      // One-sided: every bin except DC and Nyquist also carries the negative frequency
+      out[k] *= k === 0 || k === bins - 1 ? scale : 2 * scale
+    }
+  }
+  const frequencies = Float64Array.from({ length: bins }, (_, k) => (k * frameRate) / m)
+  const peakHz = psd.map(out => {
+    let best = 1
+    for (let k = 2; k < bins; k++) if (out[k] > out[best]) best = k
+    return bins > 1 && out[best] > 0 ? frequencies[best] : NaN
+  })
+  return { frequencies, psd, peakHz, segmentLength: m, segments }
+}
@@ -0,0 +1,20 @@
+import { computeStats, processSeries } from '@/lib/processing'
+import type { ProcessingRequest, ProcessingResponse } from '@/lib/processing-protocol'
+import type { PackedSeries } from '@/lib/series'
+
+// Minimal typing for the dedicated worker scope (tsconfig only includes the DOM lib)
+const ctx = self as unknown as {
+  onmessage: ((e: MessageEvent<ProcessingRequest>) => void) | null
+  postMessage: (msg: ProcessingResponse, transfer?: Transferable[]) => void
+}
+
+ctx.onmessage = (e) => {
+  const { id, length, dims, data, normalizeMode, smoothWindow, filter, frameRate } = e.data
+  try {
+    const s = processSeries({ length, dims, data }, { normalizeMode, smoothWindow, filter, frameRate }) as PackedSeries
+    const stats = computeStats(s)
+    ctx.postMessage({ id, ok: true, length: s.length, dims: s.dims, data: s.data, stats }, [s.data.buffer])
+  } catch (err: any) {
+    ctx.postMessage({ id, ok: false, error: err?.message || String(err) })
+  }
+}
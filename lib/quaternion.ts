@@ -0,0 +1,74 @@
+/**
+ * Minimal quaternion helpers for [w, x, y, z] tuples (scalar first, as exported
+ * by the analysis files and shown in the orientation chart).
+ */
+
+export type Quat = [number, number, number, number]
+export type Vec3 = [number, number, number]
+
+export const IDENTITY_QUAT: Quat = [1, 0, 0, 0]
+
+export function quatNormalize(q: ArrayLike<number>): Quat {
+  const w = q[0] ?? 1, x = q[1] ?? 0, y = q[2] ?? 0, z = q[3] ?? 0
+  const len = Math.hypot(w, x, y, z)
+  if (!len || !Number.isFinite(len)) return [1, 0, 0, 0]
+  return [w / len, x / len, y / len, z / len]
+}
+
+export function quatConjugate(q: ArrayLike<number>): Quat {
+  return [q[0], -q[1], -q[2], -q[3]]
+}
+
+export function quatMultiply(a: ArrayLike<number>, b: ArrayLike<number>): Quat {
+  const aw = a[0], ax = a[1], ay = a[2], az = a[3]
+  const bw = b[0], bx = b[1], by = b[2], bz = b[3]
+  return [
+    aw * bw - ax * bx - ay * by - az * bz,
+    aw * bx + ax * bw + ay * bz - az * by,
+    aw * by - ax * bz + ay * bw + az * bx,
+    aw * bz + ax * by - ay * bx + az * bw,
+  ]
+}
+
+/** Rotate vector v by unit quaternion q (q * v * q^-1). */
+export function quatRotateVector(q: ArrayLike<number>, v: ArrayLike<number>): Vec3 {
+  const w = q[0], x = q[1], y = q[2], z = q[3]
+  const vx = v[0], vy = v[1], vz = v[2]
+  // t = 2 * cross(q.xyz, v)
+  const tx = 2 * (y * vz - z * vy)
+  const ty = 2 * (z * vx - x * vz)
+  const tz = 2 * (x * vy - y * vx)
+  return [
+    vx + w * tx + (y * tz - z * ty),
+    vy + w * ty + (z * tx - x * tz),
+    vz + w * tz + (x * ty - y * tx),
+  ]
+}
+
+/** Spherical linear interpolation along the shorter arc; inputs need not be normalized. */
+export function quatSlerp(a: ArrayLike<number>, b: ArrayLike<number>, t: number): Quat {
+  const qa = quatNormalize(a)
+  let qb = quatNormalize(b)
+  let cos = qa[0] * qb[0] + qa[1] * qb[1] + qa[2] * qb[2] + qa[3] * qb[3]
+  if (cos < 0) {
+    qb = [-qb[0], -qb[1], -qb[2], -qb[3]]
+    cos = -cos
+  }
+  let ka: number, kb: number
+  if (cos > 0.9995) {
+    // Nearly parallel: lerp is accurate and avoids dividing by sin(~0)
+    ka = 1 - t
+    kb = t
+  } else {
+    const theta = Math.acos(cos)
+    const sin = Math.sin(theta)
+    ka = Math.sin((1 - t) * theta) / sin
+    kb = Math.sin(t * theta) / sin
+  }
+  return quatNormalize([
+    ka * qa[0] + kb * qb[0],
+    ka * qa[1] + kb * qb[1],
+    ka * qa[2] + kb * qb[2],
+    ka * qa[3] + kb * qb[3],
+  ])
+}
@@ -0,0 +1,116 @@
+/**
+ * Frame-rate conversion for whole datasets, e.g. to compare recordings exported with
+ * different --frame-step values. Frame i of the result sits at time i / targetRate on the
+ * source clock; positions and vector signals are interpolated linearly, orientations by slerp.
+ */
+
+import { SIGNAL_NAMES, type DatasetPayload, type RawSensorEntry } from '@/lib/dataset'
+import { quatSlerp } from '@/lib/quaternion'
+import { createPackedSeries, framesLength, readFramePosition, readSeriesRow, seriesDims, seriesLength, type Frames, type PackedFrames, type PackedSeries, type Series } from '@/lib/series'
+
+/** Frames covering the same duration at `toRate` (the last source frame is never extrapolated). */
+export function resampledLength(numFrames: number, fromRate: number, toRate: number): number {
+  if (numFrames <= 0) return 0
+  // Small tolerance so e.g. 64 → 128 Hz lands exactly on the last source frame
+  return Math.floor(((numFrames - 1) * toRate) / fromRate + 1e-9) + 1
+}
+
+// Source index and blend weight for each output frame
+function samplePoints(length: number, ratio: number) {
+  const index = new Int32Array(length)
+  const weight = new Float64Array(length)
+  for (let i = 0; i < length; i++) {
+    const u = i * ratio
+    index[i] = Math.floor(u + 1e-9)
+    weight[i] = Math.max(0, u - index[i])
+  }
+  return { index, weight }
+}
+
+type SamplePoints = ReturnType<typeof samplePoints>
+
+function interpolateRow(a: number[], b: number[], u: number, isQuat: boolean, out: Float32Array, offset: number) {
+  const dims = a.length
+  let finite = true
+  for (let d = 0; d < dims; d++) {
+    if (!Number.isFinite(a[d]) || !Number.isFinite(b[d])) finite = false
+  }
+  if (!finite || u === 0) {
+    // Keep gaps visible instead of inventing data across them (nearest sample); nested rows
+    // hold null for gaps, which a Float32Array would store as 0
+    const src = u < 0.5 ? a : b
+    for (let d = 0; d < dims; d++) out[offset + d] = Number.isFinite(src[d]) ? src[d] : NaN
+  } else if (isQuat) {
+    const q = quatSlerp(a, b, u)
+    for (let d = 0; d < 4; d++) out[offset + d] = q[d]
+  } else {
+    for (let d = 0; d < dims; d++) out[offset + d] = a[d] + (b[d] - a[d]) * u
+  }
+}
+
+function resampleSeries(s: Series, points: SamplePoints, isQuat: boolean): PackedSeries {
+  const n = seriesLength(s)
+  const dims = seriesDims(s)
+  const length = points.index.length
+  const out = createPackedSeries(length, dims)
+  out.data.fill(NaN)
+  const a = new Array<number>(dims)
+  const b = new Array<number>(dims)
+  for (let i = 0; i < length; i++) {
+    const k = points.index[i]
+    // Short nested rows only fill their own length
+    a.fill(NaN)
+    b.fill(NaN)
+    if (k >= n || !readSeriesRow(s, k, a)) continue
+    if (!readSeriesRow(s, Math.min(k + 1, n - 1), b)) b.fill(NaN)
+    interpolateRow(a, b, points.weight[i], isQuat && dims === 4, out.data, i * dims)
+  }
+  return out
+}
+
+function resampleFrames(frames: Frames, numSensors: number, points: SamplePoints): PackedFrames {
+  const n = framesLength(frames)
+  const length = points.index.length
+  const data = new Float32Array(length * numSensors * 3).fill(NaN)
+  const a = [0, 0, 0]
+  const b = [0, 0, 0]
+  for (let i = 0; i < length; i++) {
+    const k = points.index[i]
+    if (k >= n) continue
+    for (let j = 0; j < numSensors; j++) {
+      if (!readFramePosition(frames, k, j, a)) continue
+      if (!readFramePosition(frames, Math.min(k + 1, n - 1), j, b)) b.fill(NaN)
+      interpolateRow(a, b, points.weight[i], false, data, (i * numSensors + j) * 3)
+    }
+  }
+  return { numFrames: length, numSensors, data }
+}
+
+/**
+ * Copy of the dataset at `targetRate` Hz with packed frames and series. Samples next to a
+ * gap (NaN) take the nearest source value rather than blending across it.
+ */
+export function resampleDataset(payload: DatasetPayload, targetRate: number): DatasetPayload {
+  if (!(targetRate > 0) || !(payload.frameRate > 0)) throw new Error('Frame rates must be positive')
+  const numFrames = resampledLength(payload.numFrames, payload.frameRate, targetRate)
+  const points = samplePoints(numFrames, payload.frameRate / targetRate)
+  const out: DatasetPayload = {
+    ...payload,
+    frameRate: targetRate,
+    numFrames,
+    frames: resampleFrames(payload.frames, payload.numSensors, points),
+  }
+  if (payload.rawSensorData) {
+    out.rawSensorData = {}
+    for (const joint of Object.keys(payload.rawSensorData)) {
+      const entry = payload.rawSensorData[joint]
+      const resampled: RawSensorEntry = {}
+      for (const signal of SIGNAL_NAMES) {
+        const series = entry[signal]
+        if (series) resampled[signal] = resampleSeries(series, points, signal === 'orientation')
+      }
+      out.rawSensorData[joint] = resampled
+    }
+  }
+  return out
+}
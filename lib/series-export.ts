@@ -0,0 +1,147 @@
+/**
+ * Export of processed chart series (filtered, normalized, smoothed) and their stats as CSV or JSON,
+ * for the selected joint/signal or every raw series and joint angle of a dataset.
+ *
+ * CSV layout: `# key: value` header lines (dataset, frame rate, filter, smoothing window,
+ * normalize mode per series), one `# <stat>,,<values>` line per statistic aligned with the data columns, then
+ * `frame,time_s,<joint>_<signal>_<component>...` and one row per frame.
+ */
+
+import { SIGNAL_COMPONENTS, SIGNAL_NAMES, type DatasetPayload, type SignalName } from '@/lib/dataset'
+import { describeFilter, resolveNormalizeMode, type ButterworthFilter, type NormalizeMode, type Stats } from '@/lib/processing'
+import { availableJointAngles, JOINT_ANGLE_COMPONENTS, jointAngleSeries } from '@/lib/joint-angles'
+import type { ProcessingService } from '@/lib/processing-service'
+import { seriesDims, seriesLength, seriesValue, type Series } from '@/lib/series'
+
+export interface ProcessedSeriesEntry {
+  joint: string
+  /** Raw signal name, or the name of a derived channel (e.g. `euler_zyx_deg`) */
+  signal: string
+  /** Column names per component; defaults to the raw signal's components */
+  components?: string[]
+  normalizeMode: NormalizeMode
+  series: Series
+  stats: Stats
+}
+
+export interface ProcessedSeriesExport {
+  dataset: string
+  frameRate: number
+  filter: ButterworthFilter | null
+  smoothWindow: number
+  entries: ProcessedSeriesEntry[]
+}
+
+const STAT_KEYS: (keyof Stats)[] = ['min', 'max', 'mean', 'std']
+
+function componentNames(entry: ProcessedSeriesEntry): string[] {
+  return entry.components ?? SIGNAL_COMPONENTS[entry.signal as SignalName] ?? []
+}
+
+function componentLabels(entry: ProcessedSeriesEntry): string[] {
+  const names = componentNames(entry)
+  const dims = seriesDims(entry.series)
+  return Array.from({ length: dims }, (_, d) => `${entry.joint}_${entry.signal}_${names[d] ?? d}`)
+}
+
+function csvNumber(v: number | undefined): string {
+  return v === undefined || !Number.isFinite(v) ? '' : String(Math.round(v * 1e6) / 1e6)
+}
+
+export function processedSeriesToCsv(exp: ProcessedSeriesExport): string {
+  const lines: string[] = [
+    `# dataset: ${exp.dataset}`,
+    `# frame rate (Hz): ${exp.frameRate}`,
+    `# filter: ${exp.filter ? describeFilter(exp.filter) : 'none'} (zero-phase)`,
+    `# smoothing window: ${exp.smoothWindow}`,
+  ]
+  for (const e of exp.entries) lines.push(`# ${e.joint}/${e.signal} normalize: ${e.normalizeMode}`)
+  for (const key of STAT_KEYS) {
+    lines.push(`# ${key},,${exp.entries.flatMap(e => e.stats[key].map(csvNumber)).join(',')}`)
+  }
+  lines.push(['frame', 'time_s', ...exp.entries.flatMap(componentLabels)].join(','))
+
+  const n = Math.max(0, ...exp.entries.map(e => seriesLength(e.series)))
+  for (let i = 0; i < n; i++) {
+    const cells = [String(i), csvNumber(i / exp.frameRate)]
+    for (const e of exp.entries) {
+      const dims = seriesDims(e.series)
+      for (let d = 0; d < dims; d++) cells.push(csvNumber(seriesValue(e.series, i, d)))
+    }
+    lines.push(cells.join(','))
+  }
+  return lines.join('\n') + '\n'
+}
+
+export function processedSeriesToJson(exp: ProcessedSeriesExport): string {
+  return JSON.stringify({
+    dataset: exp.dataset,
+    frameRate: exp.frameRate,
+    filter: exp.filter,
+    smoothWindow: exp.smoothWindow,
+    series: exp.entries.map(e => {
+      const n = seriesLength(e.series)
+      const dims = seriesDims(e.series)
+      const values: (number | null)[][] = new Array(n)
+      for (let i = 0; i < n; i++) {
+        values[i] = Array.from({ length: dims }, (_, d) => {
+          const v = seriesValue(e.series, i, d)
+          return v !== undefined && Number.isFinite(v) ? v : null
+        })
+      }
+      return {
+        joint: e.joint,
+        signal: e.signal,
+        normalizeMode: e.normalizeMode,
+        components: componentNames(e).slice(0, dims),
+        stats: e.stats,
+        values,
+      }
+    }),
+  })
+}
+
+/**
+ * Process every raw series of a dataset, then its joint angles (degrees, as `<joint>_angle_deg`),
+ * with the same settings as the chart (one job at a time on the given service). Rejects with an
+ * AbortError when `signal` aborts.
+ */
+export async function processAllSeries(
+  service: ProcessingService,
+  payload: DatasetPayload,
+  options: {
+    normalizeMode: NormalizeMode
+    smoothWindow: number
+    filter?: ButterworthFilter | null
+    signal?: AbortSignal
+    onProgress?: (done: number, total: number) => void
+  }
+): Promise<ProcessedSeriesEntry[]> {
+  const jobs: { joint: string, signal: string, components?: string[], series: Series }[] = []
+  for (const joint of payload.sensorNames) {
+    const entry = payload.rawSensorData?.[joint]
+    if (!entry) continue
+    for (const signal of SIGNAL_NAMES) {
+      const series = entry[signal]
+      if (series) jobs.push({ joint, signal, series })
+    }
+  }
+  for (const def of availableJointAngles(payload)) {
+    const series = jointAngleSeries(payload, def, { unit: 'deg', unwrap: true })
+    if (series) jobs.push({ joint: def.name, signal: 'angle_deg', components: JOINT_ANGLE_COMPONENTS, series })
+  }
+  const out: ProcessedSeriesEntry[] = []
+  for (const job of jobs) {
+    const normalizeMode = resolveNormalizeMode(options.normalizeMode, job.signal)
+    const result = await service.process(job.series, {
+      normalizeMode,
+      smoothWindow: options.smoothWindow,
+      filter: options.filter,
+      frameRate: payload.frameRate,
+      signal: options.signal,
+    })
+    out.push({ joint: job.joint, signal: job.signal, components: job.components, normalizeMode, series: result.series, stats: result.stats })
+    options.onProgress?.(out.length, jobs.length)
+  }
+  return out
+}
@@ -0,0 +1,173 @@
+/**
+ * Series storage shared by the viewer, charts and processing.
+ * A series is either nested rows (JSON exports) or a packed Float32Array (binary datasets);
+ * the accessors below read both without converting between them.
+ */
+
+export interface PackedSeries {
+  length: number
+  dims: number
+  data: Float32Array // row-major, length * dims
+}
+
+export type Series = number[][] | PackedSeries
+
+/** Joint positions packed as [frame][sensor][xyz] */
+export interface PackedFrames {
+  numFrames: number
+  numSensors: number
+  data: Float32Array // numFrames * numSensors * 3
+}
+
+export type Frames = number[][][] | PackedFrames
+
+export function isPackedSeries(s: Series): s is PackedSeries {
+  return !Array.isArray(s)
+}
+
+export function isPackedFrames(f: Frames): f is PackedFrames {
+  return !Array.isArray(f)
+}
+
+export function seriesLength(s: Series): number {
+  return Array.isArray(s) ? s.length : s.length
+}
+
+export function seriesDims(s: Series): number {
+  if (!Array.isArray(s)) return s.dims
+  return s.length > 0 ? s[0].length : 0
+}
+
+/** Value at row i, component d; undefined when a nested row is missing or short. */
+export function seriesValue(s: Series, i: number, d: number): number | undefined {
+  if (!Array.isArray(s)) return i >= 0 && i < s.length && d < s.dims ? s.data[i * s.dims + d] : undefined
+  return s[i]?.[d]
+}
+
+/** Copy row i into `out`; returns false when the row does not exist. */
+export function readSeriesRow(s: Series, i: number, out: number[] | Float32Array): boolean {
+  if (!Array.isArray(s)) {
+    if (i < 0 || i >= s.length) return false
+    const base = i * s.dims
+    for (let d = 0; d < s.dims; d++) out[d] = s.data[base + d]
+    return true
+  }
+  const row = s[i]
+  if (!row) return false
+  for (let d = 0; d < row.length; d++) out[d] = row[d]
+  return true
+}
+
+/** Row i as a plain array (allocates; prefer readSeriesRow in hot loops). */
+export function seriesRow(s: Series, i: number): number[] | null {
+  if (Array.isArray(s)) return s[i] ?? null
+  if (i < 0 || i >= s.length) return null
+  return Array.from(s.data.subarray(i * s.dims, (i + 1) * s.dims))
+}
+
+export function createPackedSeries(length: number, dims: number): PackedSeries {
+  return { length, dims, data: new Float32Array(length * dims) }
+}
+
+export function packSeries(rows: number[][], dims: number = rows[0]?.length ?? 0): PackedSeries {
+  const out = createPackedSeries(rows.length, dims)
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i]
+    for (let d = 0; d < dims; d++) out.data[i * dims + d] = row?.[d] ?? NaN
+  }
+  return out
+}
+
+export function toNestedSeries(s: Series): number[][] {
+  if (Array.isArray(s)) return s
+  const out: number[][] = new Array(s.length)
+  for (let i = 0; i < s.length; i++) out[i] = Array.from(s.data.subarray(i * s.dims, (i + 1) * s.dims))
+  return out
+}
+
+/** Copy joint j of frame f into `out`; returns false when the frame or joint is missing. */
+export function readFramePosition(frames: Frames, f: number, j: number, out: number[] | Float32Array): boolean {
+  if (!Array.isArray(frames)) {
+    if (f < 0 || f >= frames.numFrames || j < 0 || j >= frames.numSensors) return false
+    const base = (f * frames.numSensors + j) * 3
+    out[0] = frames.data[base]
+    out[1] = frames.data[base + 1]
+    out[2] = frames.data[base + 2]
+    return true
+  }
+  const p = frames[f]?.[j]
+  if (!p) return false
+  out[0] = p[0] ?? 0
+  out[1] = p[1] ?? 0
+  out[2] = p[2] ?? 0
+  return true
+}
+
+export function framesLength(frames: Frames): number {
+  return Array.isArray(frames) ? frames.length : frames.numFrames
+}
+
+export function packFrames(frames: number[][][], numSensors: number): PackedFrames {
+  const out: PackedFrames = { numFrames: frames.length, numSensors, data: new Float32Array(frames.length * numSensors * 3) }
+  for (let f = 0; f < frames.length; f++) {
+    for (let j = 0; j < numSensors; j++) {
+      const p = frames[f]?.[j]
+      const base = (f * numSensors + j) * 3
+      out.data[base] = p?.[0] ?? NaN
+      out.data[base + 1] = p?.[1] ?? NaN
+      out.data[base + 2] = p?.[2] ?? NaN
+    }
+  }
+  return out
+}
+
+export function toNestedFrames(frames: Frames): number[][][] {
+  if (Array.isArray(frames)) return frames
+  const out: number[][][] = new Array(frames.numFrames)
+  for (let f = 0; f < frames.numFrames; f++) {
+    const row: number[][] = new Array(frames.numSensors)
+    for (let j = 0; j < frames.numSensors; j++) {
+      const base = (f * frames.numSensors + j) * 3
+      row[j] = [frames.data[base], frames.data[base + 1], frames.data[base + 2]]
+    }
+    out[f] = row
+  }
+  return out
+}
+
+/** Rows [start, end) of a series; packed series are sliced as views (no copy). */
+export function sliceSeries(s: Series, start: number, end: number): Series {
+  if (Array.isArray(s)) return s.slice(start, end)
+  const a = Math.max(0, Math.min(start, s.length))
+  const b = Math.max(a, Math.min(end, s.length))
+  return { length: b - a, dims: s.dims, data: s.data.subarray(a * s.dims, b * s.dims) }
+}
+
+/** Frames [start, end); packed frames are sliced as views (no copy). */
+export function sliceFrames(frames: Frames, start: number, end: number): Frames {
+  if (Array.isArray(frames)) return frames.slice(start, end)
+  const a = Math.max(0, Math.min(start, frames.numFrames))
+  const b = Math.max(a, Math.min(end, frames.numFrames))
+  const stride = frames.numSensors * 3
+  return { numFrames: b - a, numSensors: frames.numSensors, data: frames.data.subarray(a * stride, b * stride) }
+}
+
+/** Every `step`-th row of a series, starting at row 0 (a copy; packed stays packed). */
+export function stepSeries(s: Series, step: number): Series {
+  const k = Math.max(1, Math.floor(step))
+  if (Array.isArray(s)) return s.filter((_, i) => i % k === 0)
+  const out = createPackedSeries(Math.ceil(s.length / k), s.dims)
+  for (let i = 0; i < out.length; i++) out.data.set(s.data.subarray(i * k * s.dims, (i * k + 1) * s.dims), i * s.dims)
+  return out
+}
+
+/** Every `step`-th frame, starting at frame 0 (a copy; packed stays packed). */
+export function stepFrames(frames: Frames, step: number): Frames {
+  const k = Math.max(1, Math.floor(step))
+  if (Array.isArray(frames)) return frames.filter((_, i) => i % k === 0)
+  const stride = frames.numSensors * 3
+  const numFrames = Math.ceil(frames.numFrames / k)
+  const out: PackedFrames = { numFrames, numSensors: frames.numSensors, data: new Float32Array(numFrames * stride) }
+  for (let f = 0; f < numFrames; f++) out.data.set(frames.data.subarray(f * k * stride, (f * k + 1) * stride), f * stride)
+  return out
+}
@@ -160,3 +160,38 @@ export function validateSkeletonStructure(data: {
     missingEdges
   }
 }
+
+export interface JointHierarchy {
+  root: string
+  /** Depth-first order, parents before children */
+  order: string[]
+  parent: Record<string, string | null>
+  children: Record<string, string[]>
+}
+
+/**
+ * Orient the undirected skeleton edges into a tree rooted at `root` (lumbar by default).
+ * Children keep the order in which their edges are listed.
+ */
+export function buildJointHierarchy(edges: [string, string][] = EDGES, root: string = "lumbar"): JointHierarchy {
+  const adjacency: Record<string, string[]> = {}
+  for (const [a, b] of edges) {
+    (adjacency[a] ??= []).push(b);
+    (adjacency[b] ??= []).push(a)
+  }
+  const parent: Record<string, string | null> = { [root]: null }
+  const children: Record<string, string[]> = {}
+  const order: string[] = []
+  const visit = (joint: string) => {
+    order.push(joint)
+    children[joint] = []
+    for (const next of adjacency[joint] ?? []) {
+      if (next in parent) continue
+      parent[next] = joint
+      children[joint].push(next)
+      visit(next)
+    }
+  }
+  visit(root)
+  return { root, order, parent, children }
+}
@@ -5,31 +5,143 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-// Simple in-memory JSON dataset cache with prefetch support
-const datasetCache: Map<string, Promise<any>> = new Map()
+/** Save a blob through a temporary download link */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
 
-export function getCachedJson(url: string, init?: RequestInit): Promise<any> {
+/** File-name-safe form of a dataset id or label */
+export function toFileStem(name: string, fallback: string = 'dataset'): string {
+  return name.replace(/^local:/, '').replace(/[^\w.-]+/g, '_') || fallback
+}
+
+// In-memory dataset cache (JSON, binary and chunk files) with prefetch support.
+// Settled entries are evicted least-recently-used once their total size exceeds the budget.
+interface CacheEntry {
+  promise: Promise<any>
+  bytes: number // 0 while pending
+  lastUsed: number
+}
+
+const datasetCache: Map<string, CacheEntry> = new Map()
+let cacheBudgetBytes = 512 * 1024 * 1024
+let cacheClock = 0
+
+export function setDatasetCacheBudget(bytes: number) {
+  cacheBudgetBytes = Math.max(0, bytes)
+  evictDatasetCache()
+}
+
+export function getDatasetCacheUsage(): { bytes: number, budget: number, entries: number } {
+  let bytes = 0
+  datasetCache.forEach(e => { bytes += e.bytes })
+  return { bytes, budget: cacheBudgetBytes, entries: datasetCache.size }
+}
+
+function evictDatasetCache(keep?: string) {
+  let total = 0
+  datasetCache.forEach(e => { total += e.bytes })
+  if (total <= cacheBudgetBytes) return
+  const settled = Array.from(datasetCache.entries())
+    .filter(([key, e]) => e.bytes > 0 && key !== keep)
+    .sort((a, b) => a[1].lastUsed - b[1].lastUsed)
+  for (const [key, e] of settled) {
+    if (total <= cacheBudgetBytes) break
+    datasetCache.delete(key)
+    total -= e.bytes
+  }
+}
+
+function getCached<T>(url: string, init: RequestInit | undefined, read: (res: Response) => Promise<{ value: T, bytes: number }>): Promise<T> {
   const key = url
   const existing = datasetCache.get(key)
-  if (existing) return existing
+  if (existing) {
+    existing.lastUsed = ++cacheClock
+    return existing.promise
+  }
 
   const controller = (init?.signal as AbortSignal | undefined) ?? undefined
-  const promise = fetch(url, { 
+  const entry: CacheEntry = { promise: Promise.resolve(), bytes: 0, lastUsed: ++cacheClock }
+  entry.promise = fetch(url, { 
     ...init, 
     cache: 'default', // Changed from 'force-cache' for better mobile compatibility
     signal: controller 
   })
     .then(res => {
       if (!res.ok) throw new Error(`Failed to fetch ${url} (${res.status})`)
-      return res.json()
+      return read(res)
+    })
+    .then(({ value, bytes }) => {
+      if (datasetCache.get(key) === entry) {
+        entry.bytes = Math.max(1, bytes)
+        evictDatasetCache(key)
+      }
+      return value
     })
     .catch(err => {
-      datasetCache.delete(key)
+      if (datasetCache.get(key) === entry) datasetCache.delete(key)
       throw err
     })
 
-  datasetCache.set(key, promise)
-  return promise
+  datasetCache.set(key, entry)
+  return entry.promise
+}
+
+// Approximate V8 heap sizes, used to size parsed JSON entries by what they keep alive: the
+// cache holds the whole object graph, not Float32Array copies of its numbers
+const HEAP_NUMBER_BYTES = 8
+const HEAP_ARRAY_BYTES = 48 // JSArray plus its backing store header
+const HEAP_OBJECT_BYTES = 56
+const HEAP_PROPERTY_BYTES = 16
+const HEAP_STRING_BYTES = 24
+
+// Estimated heap footprint of a parsed JSON value
+function retainedByteLength(value: unknown): number {
+  let bytes = 0
+  const stack: unknown[] = [value]
+  while (stack.length > 0) {
+    const v = stack.pop()
+    if (Array.isArray(v)) {
+      bytes += HEAP_ARRAY_BYTES
+      for (const item of v) {
+        if (typeof item === 'number' || item === null) bytes += HEAP_NUMBER_BYTES
+        else stack.push(item)
+      }
+    } else if (v && typeof v === 'object') {
+      const values = Object.values(v)
+      bytes += HEAP_OBJECT_BYTES + values.length * HEAP_PROPERTY_BYTES
+      for (const item of values) stack.push(item)
+    } else if (typeof v === 'string') {
+      bytes += HEAP_STRING_BYTES + v.length * 2
+    } else {
+      bytes += HEAP_NUMBER_BYTES
+    }
+  }
+  return bytes
+}
+
+export function getCachedJson(url: string, init?: RequestInit): Promise<any> {
+  return getCached(url, init, async res => {
+    const value = await res.json()
+    return { value, bytes: retainedByteLength(value) }
+  })
+}
+
+export function getCachedArrayBuffer(url: string, init?: RequestInit): Promise<ArrayBuffer> {
+  return getCached(url, init, async res => {
+    const buffer = await res.arrayBuffer()
+    return { value: buffer, bytes: buffer.byteLength }
+  })
+}
+
+/** Drop an entry whose value has been copied elsewhere, so it is not held twice */
+export function releaseCached(url: string) {
+  datasetCache.delete(url)
 }
 
 export function prefetchJson(urls: string[]) {
@@ -0,0 +1,278 @@
+/**
+ * Command-line dataset tool built on the viewer's lib/ code, for pipeline scripts that need to
+ * check or convert an export without the web UI.
+ *
+ *   npm run dataset-tool -- inspect <file> [--json]
+ *   npm run dataset-tool -- convert <in> <out.json|out.pjds> [--step N]
+ *   npm run dataset-tool -- downsample <in> <out.json|out.pjds> --step N
+ *   npm run dataset-tool -- resample <in> <out.json|out.pjds> --rate Hz
+ *   npm run dataset-tool -- stats <file> [--joint name] [--signal name] [--json]
+ *   npm run dataset-tool -- summary <file> [--out summary.json]
+ *
+ * Inputs: JSON exports, .pjds, .h5 recordings and chunked dataset indexes. Every input is
+ * migrated and validated like in the viewer; validation errors exit with status 1 (`inspect`
+ * still describes the dataset when it can), usage errors with status 2.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises'
+import { basename, extname, resolve } from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import { BINARY_DATASET_EXTENSION, decodeBinaryDataset, encodeBinaryDataset } from '@/lib/binary-dataset'
+import { isChunkedIndex, openChunkedDataset } from '@/lib/chunked-dataset'
+import { downsampleDataset, SIGNAL_NAMES, toNestedDataset, type DatasetPayload, type SignalName } from '@/lib/dataset'
+import type { LoadedDataset } from '@/lib/dataset-files'
+import { DatasetValidationError, formatValidationIssue, migrateDataset, prepareDataset, validateDataset, type ValidationIssue, type ValidationReport } from '@/lib/dataset-schema'
+import { loadH5Dataset } from '@/lib/h5-dataset'
+import { computeStats, type Stats } from '@/lib/processing'
+import { resampleDataset } from '@/lib/resample'
+import { validateSkeletonStructure } from '@/lib/skeleton-constants'
+
+class UsageError extends Error {}
+
+const USAGE = `Usage:
+  dataset-tool inspect <file> [--json]
+  dataset-tool convert <in> <out.json|out${BINARY_DATASET_EXTENSION}> [--step N]
+  dataset-tool downsample <in> <out.json|out${BINARY_DATASET_EXTENSION}> --step N
+  dataset-tool resample <in> <out.json|out${BINARY_DATASET_EXTENSION}> --rate Hz
+  dataset-tool stats <file> [--joint name] [--signal name] [--json]
+  dataset-tool summary <file> [--out summary.json]`
+
+interface Args {
+  command: string
+  positional: string[]
+  flags: { [name: string]: string | true }
+}
+
+function parseArgs(argv: string[]): Args {
+  const [command, ...rest] = argv
+  if (!command || command === '--help' || command === '-h') throw new UsageError(USAGE)
+  const positional: string[] = []
+  const flags: Args['flags'] = {}
+  for (let i = 0; i < rest.length; i++) {
+    const a = rest[i]
+    if (!a.startsWith('--')) {
+      positional.push(a)
+      continue
+    }
+    const name = a.slice(2)
+    if (name === 'json') flags.json = true
+    else if (i + 1 < rest.length) flags[name] = rest[++i]
+    else throw new UsageError(`--${name} needs a value`)
+  }
+  return { command, positional, flags }
+}
+
+function stepFlag(args: Args, required: boolean): number {
+  const raw = args.flags.step
+  if (raw === undefined) {
+    if (required) throw new UsageError('--step is required')
+    return 1
+  }
+  const step = Number(raw)
+  if (!Number.isInteger(step) || step < 1) throw new UsageError('--step must be a positive integer')
+  return step
+}
+
+async function loadChunked(path: string, index: unknown): Promise<LoadedDataset> {
+  if (!isChunkedIndex(index)) throw new Error(`${path}: not a chunked index`)
+  let warnings: ValidationReport['warnings'] = []
+  const loader = await openChunkedDataset(pathToFileURL(resolve(path)).toString(), index, {
+    fetchChunk: async (url) => {
+      const file = fileURLToPath(url)
+      const bytes = await readFile(file)
+      const raw = file.toLowerCase().endsWith(BINARY_DATASET_EXTENSION)
+        ? decodeBinaryDataset(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength))
+        : JSON.parse(bytes.toString('utf8'))
+      const { payload, report } = prepareDataset(raw, basename(file))
+      warnings = warnings.concat(report.warnings.map(w => ({ ...w, path: `${basename(file)}: ${w.path}` })))
+      return payload
+    },
+  })
+  await loader.done
+  return { payload: loader.payload, report: { version: loader.payload.version ?? 1, migrated: false, errors: [], warnings } }
+}
+
+/** Parsed file plus any warnings from the format reader (only the .h5 reader has some) */
+async function readRaw(path: string): Promise<{ raw: unknown; warnings: ValidationIssue[] }> {
+  const bytes = await readFile(path)
+  const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+  const ext = extname(path).toLowerCase()
+  if (ext === BINARY_DATASET_EXTENSION) return { raw: decodeBinaryDataset(buffer), warnings: [] }
+  if (ext === '.h5' || ext === '.hdf5') {
+    const { payload, warnings } = await loadH5Dataset(buffer)
+    return { raw: payload, warnings }
+  }
+  if (ext === '.json') return { raw: JSON.parse(bytes.toString('utf8')), warnings: [] }
+  throw new UsageError(`Unsupported input format "${ext}" (expected .json, ${BINARY_DATASET_EXTENSION} or .h5)`)
+}
+
+/**
+ * Read any supported dataset file, migrated and validated. Unless `strict` is false,
+ * validation errors throw DatasetValidationError.
+ */
+async function loadDataset(path: string, { strict = true } = {}): Promise<LoadedDataset> {
+  const { raw, warnings } = await readRaw(path)
+  if (isChunkedIndex(raw)) return loadChunked(path, raw)
+  let loaded: LoadedDataset
+  if (strict) {
+    loaded = prepareDataset(raw, basename(path))
+  } else {
+    const { payload, fromVersion } = migrateDataset(raw)
+    // May be malformed when the report has errors; `inspect` checks what it describes
+    loaded = { payload: payload as DatasetPayload, report: validateDataset(payload, fromVersion) }
+  }
+  loaded.report.warnings.unshift(...warnings)
+  return loaded
+}
+
+async function writeDataset(path: string, payload: DatasetPayload) {
+  const ext = extname(path).toLowerCase()
+  if (ext === BINARY_DATASET_EXTENSION) await writeFile(path, new Uint8Array(encodeBinaryDataset(payload)))
+  else if (ext === '.json') await writeFile(path, JSON.stringify(toNestedDataset(payload)))
+  else throw new UsageError(`Unsupported output format "${ext}" (expected .json or ${BINARY_DATASET_EXTENSION})`)
+}
+
+function seriesStats(payload: DatasetPayload, joint?: string, signal?: string) {
+  if (signal !== undefined && !(SIGNAL_NAMES as readonly string[]).includes(signal)) {
+    throw new UsageError(`Unknown signal "${signal}" (expected one of ${SIGNAL_NAMES.join(', ')})`)
+  }
+  const out: { [joint: string]: { [K in SignalName]?: Stats } } = {}
+  for (const name of Object.keys(payload.rawSensorData ?? {})) {
+    if (joint !== undefined && name !== joint) continue
+    const entry = payload.rawSensorData![name]
+    for (const s of SIGNAL_NAMES) {
+      if (signal !== undefined && s !== signal) continue
+      const series = entry[s]
+      if (series) (out[name] ??= {})[s] = computeStats(series)
+    }
+  }
+  if (joint !== undefined && !out[joint]) throw new UsageError(`No raw data for joint "${joint}"${signal ? ` and signal "${signal}"` : ''}`)
+  return out
+}
+
+function describe(path: string, { payload, report }: LoadedDataset) {
+  return {
+    file: basename(path),
+    schemaVersion: payload.version ?? report.version,
+    migratedFrom: report.migrated ? report.version : undefined,
+    frameRate: payload.frameRate,
+    numFrames: payload.numFrames,
+    numSensors: payload.numSensors,
+    durationSec: payload.numFrames / Math.max(payload.frameRate, 1e-9),
+    sensorNames: payload.sensorNames,
+    rawSignals: Object.fromEntries(Object.entries(payload.rawSensorData ?? {}).map(([joint, entry]) => [joint, SIGNAL_NAMES.filter(s => entry[s])])),
+    skeleton: validateSkeletonStructure(payload),
+    validation: { errors: report.errors, warnings: report.warnings },
+    derivedFrom: payload.derivedFrom,
+    recording: payload.recording,
+  }
+}
+
+function printDescription(d: ReturnType<typeof describe>) {
+  const lines = [
+    `${d.file}`,
+    `  schema       v${d.schemaVersion}${d.migratedFrom !== undefined ? ` (migrated from v${d.migratedFrom})` : ''}`,
+    `  frames       ${d.numFrames} at ${d.frameRate} Hz (${d.durationSec.toFixed(2)} s)`,
+    `  sensors      ${d.numSensors}: ${d.sensorNames.join(', ')}`,
+    `  raw signals  ${Object.keys(d.rawSignals).length} joints${Object.keys(d.rawSignals).length ? `: ${Object.entries(d.rawSignals).map(([j, s]) => `${j} [${s.join(', ')}]`).join('; ')}` : ''}`,
+    `  skeleton     ${d.skeleton.isValid ? 'valid' : 'INVALID'}`,
+  ]
+  if (d.skeleton.missingSensors.length) lines.push(`    missing sensors: ${d.skeleton.missingSensors.join(', ')}`)
+  if (d.skeleton.missingEdges.length) lines.push(`    missing connections: ${d.skeleton.missingEdges.map(([a, b]) => `${a}-${b}`).join(', ')}`)
+  if (d.recording) lines.push(`  recording    ${d.recording.startTime}, ${d.recording.droppedFrames} dropped, nominal ${d.recording.nominalFrameRate} Hz`)
+  if (d.derivedFrom) lines.push(`  derived from ${d.derivedFrom.source} [${d.derivedFrom.start}, ${d.derivedFrom.end})`)
+  if (d.validation.errors.length) lines.push(`  errors       ${d.validation.errors.length}`)
+  for (const e of d.validation.errors) lines.push(`    ${formatValidationIssue(e)}`)
+  lines.push(`  warnings     ${d.validation.warnings.length}`)
+  for (const w of d.validation.warnings) lines.push(`    ${formatValidationIssue(w)}`)
+  console.log(lines.join('\n'))
+}
+
+function printStats(stats: ReturnType<typeof seriesStats>) {
+  const fmt = (v: number[]) => v.map(x => x.toFixed(4)).join(', ')
+  for (const [joint, signals] of Object.entries(stats)) {
+    for (const [signal, s] of Object.entries(signals)) {
+      console.log(`${joint}/${signal}`)
+      console.log(`  min  ${fmt(s!.min)}\n  max  ${fmt(s!.max)}\n  mean ${fmt(s!.mean)}\n  std  ${fmt(s!.std)}`)
+    }
+  }
+}
+
+async function main(argv: string[]) {
+  const args = parseArgs(argv)
+  const [input, output] = args.positional
+  if (!input) throw new UsageError(USAGE)
+
+  switch (args.command) {
+    case 'inspect': {
+      const loaded = await loadDataset(input, { strict: false })
+      const { payload, report } = loaded
+      // Too malformed to describe (e.g. no sensor list): report the errors only
+      if (report.errors.length > 0 && !(Array.isArray(payload.sensorNames) && Array.isArray(payload.edges) && typeof payload.numFrames === 'number')) {
+        throw new DatasetValidationError(basename(input), report)
+      }
+      if (report.errors.length > 0) process.exitCode = 1
+      const d = describe(input, loaded)
+      if (args.flags.json) console.log(JSON.stringify(d, null, 2))
+      else printDescription(d)
+      break
+    }
+    case 'convert':
+    case 'downsample': {
+      if (!output) throw new UsageError(USAGE)
+      const step = stepFlag(args, args.command === 'downsample')
+      const { payload } = await loadDataset(input)
+      const out = step > 1 ? downsampleDataset(payload, step) : payload
+      await writeDataset(output, out)
+      console.log(`Wrote ${output}: ${out.numFrames} frames at ${out.frameRate} Hz`)
+      break
+    }
+    case 'resample': {
+      if (!output) throw new UsageError(USAGE)
+      const rate = Number(args.flags.rate)
+      if (args.flags.rate === undefined || !(rate > 0)) throw new UsageError('--rate must be a positive number')
+      const { payload } = await loadDataset(input)
+      const out = resampleDataset(payload, rate)
+      await writeDataset(output, out)
+      console.log(`Wrote ${output}: ${out.numFrames} frames at ${out.frameRate} Hz (from ${payload.numFrames} at ${payload.frameRate} Hz)`)
+      break
+    }
+    case 'stats': {
+      const { payload } = await loadDataset(input)
+      const joint = typeof args.flags.joint === 'string' ? args.flags.joint : undefined
+      const signal = typeof args.flags.signal === 'string' ? args.flags.signal : undefined
+      const stats = seriesStats(payload, joint, signal)
+      if (args.flags.json) console.log(JSON.stringify(stats, null, 2))
+      else printStats(stats)
+      break
+    }
+    case 'summary': {
+      const loaded = await loadDataset(input)
+      const summary = { ...describe(input, loaded), stats: seriesStats(loaded.payload) }
+      const text = JSON.stringify(summary, null, 2)
+      if (typeof args.flags.out === 'string') {
+        await writeFile(args.flags.out, text + '\n')
+        console.log(`Wrote ${args.flags.out}`)
+      } else {
+        console.log(text)
+      }
+      break
+    }
+    default:
+      throw new UsageError(`Unknown command "${args.command}"\n${USAGE}`)
+  }
+}
+
+main(process.argv.slice(2)).catch((e: any) => {
+  if (e instanceof UsageError) {
+    console.error(e.message)
+    process.exit(2)
+  }
+  if (e instanceof DatasetValidationError) {
+    console.error(e.message)
+    for (const issue of e.report.errors) console.error(`  ${formatValidationIssue(issue)}`)
+    process.exit(1)
+  }
+  console.error(e?.message || e)
+  process.exit(1)
+})
@@ -0,0 +1,224 @@
+#!/usr/bin/env node
+/**
+ * Mock live sender: replays an exported JSON dataset over WebSocket using the live protocol
+ * documented in lib/live-stream.ts, so live mode can be tried without hardware.
+ *
+ *   node scripts/mock-stream-server.mjs public/datasets/speed6kmh.json [--port 8765]
+ *     [--rate <Hz>] [--drop <0..1>] [--once]
+ *
+ * --rate  send rate (defaults to the dataset frame rate; frames are not resampled)
+ * --drop  probability of skipping a frame, to exercise the drop statistics
+ * --once  stop after the last frame instead of looping
+ *
+ * Only single-file JSON exports are read (the viewer's loaders are not shared); convert .pjds,
+ * .h5 or chunked datasets first with `npm run dataset-tool -- convert <in> <out.json>`.
+ *
+ * Every client gets its own replay from the first frame. Dependency-free: implements just
+ * enough of RFC 6455 (handshake, unmasked server text frames, client close/ping).
+ */
+
+import { createServer } from 'node:http'
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+const SIGNAL_NAMES = ['orientation', 'gyroscope', 'accelerometer', 'magnetometer']
+// Signal names used by exports before schema version 2
+const LEGACY_SIGNAL_KEYS = { quaternion: 'orientation', quat: 'orientation', gyro: 'gyroscope', acc: 'accelerometer', accel: 'accelerometer', mag: 'magnetometer' }
+
+function parseArgs(argv) {
+  const opts = { file: null, port: 8765, rate: null, drop: 0, loop: true }
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]
+    if (a === '--port') opts.port = Number(argv[++i])
+    else if (a === '--rate') opts.rate = Number(argv[++i])
+    else if (a === '--drop') opts.drop = Number(argv[++i])
+    else if (a === '--once') opts.loop = false
+    else if (!a.startsWith('--') && !opts.file) opts.file = a
+    else throw new Error(`Unknown argument: ${a}`)
+  }
+  if (!opts.file) throw new Error('Usage: mock-stream-server.mjs <dataset.json> [--port 8765] [--rate Hz] [--drop p] [--once]\n(single-file JSON exports only; convert other formats with npm run dataset-tool -- convert)')
+  if (!(opts.port > 0)) throw new Error('--port must be a positive number')
+  if (opts.rate !== null && !(opts.rate > 0)) throw new Error('--rate must be a positive number')
+  if (!(opts.drop >= 0 && opts.drop < 1)) throw new Error('--drop must be in [0, 1)')
+  return opts
+}
+
+function loadDataset(file) {
+  if (!file.toLowerCase().endsWith('.json')) {
+    throw new Error(`${file}: only JSON exports can be replayed; convert it first with npm run dataset-tool -- convert ${file} <out.json>`)
+  }
+  const raw = JSON.parse(readFileSync(file, 'utf8'))
+  if (!Array.isArray(raw.frames) || !Array.isArray(raw.sensorNames)) {
+    throw new Error(`${file}: expected a single-file JSON dataset export with frames and sensorNames (chunked indexes need npm run dataset-tool -- convert ${file} <out.json>)`)
+  }
+  const raws = {}
+  for (const [joint, entry] of Object.entries(raw.rawSensorData ?? {})) {
+    const out = {}
+    for (const [key, series] of Object.entries(entry ?? {})) {
+      const signal = LEGACY_SIGNAL_KEYS[key] ?? key
+      if (SIGNAL_NAMES.includes(signal) && Array.isArray(series)) out[signal] = series
+    }
+    if (Object.keys(out).length > 0) raws[joint] = out
+  }
+  return {
+    frameRate: typeof raw.frameRate === 'number' && raw.frameRate > 0 ? raw.frameRate : 60,
+    sensorNames: raw.sensorNames,
+    edges: Array.isArray(raw.edges) ? raw.edges : undefined,
+    frames: raw.frames,
+    raw: raws,
+  }
+}
+
+function encodeTextFrame(text) {
+  const payload = Buffer.from(text, 'utf8')
+  const n = payload.length
+  let header
+  if (n < 126) {
+    header = Buffer.from([0x81, n])
+  } else if (n < 65536) {
+    header = Buffer.alloc(4)
+    header[0] = 0x81
+    header[1] = 126
+    header.writeUInt16BE(n, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[0] = 0x81
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(n), 2)
+  }
+  return Buffer.concat([header, payload])
+}
+
+function encodeControlFrame(opcode, payload = Buffer.alloc(0)) {
+  return Buffer.concat([Buffer.from([0x80 | opcode, payload.length]), payload])
+}
+
+// Handle client frames (always masked): answer pings; on close, stop the replay and close
+function handleClientData(state, chunk, socket, stop) {
+  state.pending = Buffer.concat([state.pending, chunk])
+  for (;;) {
+    const buf = state.pending
+    if (buf.length < 2) return
+    const opcode = buf[0] & 0x0f
+    let len = buf[1] & 0x7f
+    let offset = 2
+    if (len === 126) {
+      if (buf.length < 4) return
+      len = buf.readUInt16BE(2)
+      offset = 4
+    } else if (len === 127) {
+      if (buf.length < 10) return
+      len = Number(buf.readBigUInt64BE(2))
+      offset = 10
+    }
+    if (buf.length < offset + 4 + len) return
+    const mask = buf.subarray(offset, offset + 4)
+    const data = Buffer.from(buf.subarray(offset + 4, offset + 4 + len))
+    for (let i = 0; i < data.length; i++) data[i] ^= mask[i % 4]
+    state.pending = buf.subarray(offset + 4 + len)
+    if (opcode === 0x8) {
+      stop()
+      socket.end(encodeControlFrame(0x8, data.subarray(0, 2)))
+      return
+    }
+    if (opcode === 0x9) socket.write(encodeControlFrame(0xa, data.subarray(0, 125)))
+  }
+}
+
+function frameMessage(dataset, index, seq) {
+  const raw = {}
+  for (const [joint, entry] of Object.entries(dataset.raw)) {
+    const out = {}
+    for (const signal of SIGNAL_NAMES) {
+      const row = entry[signal]?.[index]
+      if (row) out[signal] = row
+    }
+    raw[joint] = out
+  }
+  return JSON.stringify({ type: 'frame', seq, t: Date.now(), positions: dataset.frames[index], raw })
+}
+
+function startReplay(socket, dataset, opts) {
+  const rate = opts.rate ?? dataset.frameRate
+  const signals = {}
+  for (const [joint, entry] of Object.entries(dataset.raw)) signals[joint] = Object.keys(entry)
+  socket.write(encodeTextFrame(JSON.stringify({
+    type: 'hello',
+    version: 1,
+    frameRate: rate,
+    sensorNames: dataset.sensorNames,
+    edges: dataset.edges,
+    signals,
+  })))
+
+  const start = performance.now()
+  let seq = 0
+  let dropped = 0
+  // Timers are coarse; send every frame that is due on each tick to hold the average rate
+  const timer = setInterval(() => {
+    const due = Math.floor(((performance.now() - start) * rate) / 1000)
+    while (seq <= due) {
+      const index = seq % dataset.frames.length
+      if (!opts.loop && seq >= dataset.frames.length) {
+        stop()
+        socket.end(encodeControlFrame(0x8, Buffer.from([0x03, 0xe8])))
+        console.log(`Replay finished (${seq} frames, ${dropped} dropped)`)
+        return
+      }
+      if (opts.drop > 0 && Math.random() < opts.drop) dropped++
+      else socket.write(encodeTextFrame(frameMessage(dataset, index, seq)))
+      seq++
+    }
+  }, 4)
+  const stop = () => clearInterval(timer)
+  return stop
+}
+
+function main() {
+  const opts = parseArgs(process.argv.slice(2))
+  const dataset = loadDataset(opts.file)
+  console.log(`Loaded ${opts.file}: ${dataset.frames.length} frames at ${dataset.frameRate} Hz, ${Object.keys(dataset.raw).length} sensors with raw data`)
+
+  const server = createServer((_req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' })
+    res.end('WebSocket endpoint: connect with ws://\n')
+  })
+
+  server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key']
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+      return
+    }
+    const accept = createHash('sha1').update(key + WS_GUID).digest('base64')
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '', '',
+    ].join('\r\n'))
+    socket.setNoDelay(true)
+
+    const peer = `${req.socket.remoteAddress}:${req.socket.remotePort}`
+    console.log(`Client connected: ${peer}`)
+    const state = { pending: Buffer.alloc(0) }
+    const stop = startReplay(socket, dataset, opts)
+    socket.on('data', (chunk) => handleClientData(state, chunk, socket, stop))
+    socket.on('close', () => {
+      stop()
+      console.log(`Client disconnected: ${peer}`)
+    })
+    socket.on('error', () => stop())
+  })
+
+  server.listen(opts.port, () => console.log(`Streaming on ws://localhost:${opts.port}`))
+}
+
+try {
+  main()
+} catch (e) {
+  console.error(e.message)
+  process.exit(1)
+}
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { DATASET_SCHEMA_VERSION, DatasetValidationError, prepareDataset, validateDataset } from '@/lib/dataset-schema'
+import { EDGES, SENSOR_NAMES } from '@/lib/skeleton-constants'
+
+// Smallest valid dataset as parsed JSON: the full skeleton at the origin for a few frames
+function rawDataset(extra: Record<string, unknown> = {}) {
+  return {
+    version: DATASET_SCHEMA_VERSION,
+    frameRate: 100,
+    sensorNames: [...SENSOR_NAMES],
+    edges: EDGES.map(([a, b]) => [a, b]),
+    numFrames: 3,
+    numSensors: SENSOR_NAMES.length,
+    frames: Array.from({ length: 3 }, () => SENSOR_NAMES.map(() => [0, 0, 0])),
+    ...extra,
+  }
+}
+
+test('invalid optional fields are reported and dropped without modifying the input', () => {
+  const raw = rawDataset({
+    calibration: { head: { positionOffset: [1, 2] }, lumbar: { positionOffset: [0, 1, 0] } },
+    recording: { startTime: 5 },
+  })
+  const before = JSON.stringify(raw)
+  const { payload, report } = prepareDataset(raw, 'test.json')
+  assert.equal(JSON.stringify(raw), before)
+  assert.deepEqual(report.warnings.map(w => w.path).sort(), ['calibration.head.positionOffset', 'recording'])
+  assert.deepEqual(payload.calibration, { head: {}, lumbar: { positionOffset: [0, 1, 0] } })
+  assert.equal('recording' in payload, false)
+
+  validateDataset(raw)
+  assert.equal(JSON.stringify(raw), before)
+})
+
+test('version 1 input is migrated and non-objects are rejected', () => {
+  const { version: _, ...legacy } = rawDataset()
+  const { payload, report } = prepareDataset({ ...legacy, rawSensorData: { head: { gyro: [[0, 0, 0], [0, 0, 0], [0, 0, 0]] } } }, 'v1.json')
+  assert.equal(report.migrated, true)
+  assert.deepEqual(Object.keys(payload.rawSensorData!.head), ['gyroscope'])
+  assert.throws(() => prepareDataset([1, 2, 3], 'array.json'), DatasetValidationError)
+})
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { EULER_SEQUENCES, eulerSeries, quatToEuler, type EulerSequence } from '@/lib/euler'
+import { quatMultiply, type Quat } from '@/lib/quaternion'
+import { seriesValue } from '@/lib/series'
+
+const AXES: Record<string, [number, number, number]> = { X: [1, 0, 0], Y: [0, 1, 0], Z: [0, 0, 1] }
+
+function axisAngle(axis: string, angle: number): Quat {
+  const [x, y, z] = AXES[axis]
+  const s = Math.sin(angle / 2)
+  return [Math.cos(angle / 2), x * s, y * s, z * s]
+}
+
+// Intrinsic sequence: rotate about the first axis, then the new second, then the new third
+function eulerToQuat(angles: [number, number, number], sequence: EulerSequence): Quat {
+  const index = { X: 0, Y: 1, Z: 2 } as const
+  return [...sequence].reduce<Quat>((q, axis) => quatMultiply(q, axisAngle(axis, angles[index[axis as 'X' | 'Y' | 'Z']])), [1, 0, 0, 0])
+}
+
+test('quatToEuler inverts the intrinsic rotation for every sequence', () => {
+  // [first, middle, last] rotation in sequence order; the middle one within ±90°
+  const cases: [number, number, number][] = [[0.3, -0.5, 1.2], [-2.5, 1.1, -0.2], [0, 0, 0], [3, -1.4, -3]]
+  const index = { X: 0, Y: 1, Z: 2 } as const
+  for (const sequence of EULER_SEQUENCES) {
+    for (const ordered of cases) {
+      const angles: [number, number, number] = [0, 0, 0]
+      ordered.forEach((a, n) => { angles[index[sequence[n] as 'X' | 'Y' | 'Z']] = a })
+      const back = quatToEuler(eulerToQuat(angles, sequence), sequence)
+      for (let d = 0; d < 3; d++) assert.ok(Math.abs(back[d] - angles[d]) < 1e-9, `${sequence} ${angles} → ${back}`)
+    }
+  }
+})
+
+test('quatToEuler ignores quaternion sign and scale', () => {
+  const q = eulerToQuat([0.2, 0.4, -0.6], 'ZYX')
+  const back = quatToEuler(q.map(v => -3 * v), 'ZYX')
+  assert.deepEqual(back.map(v => v.toFixed(9)), ['0.200000000', '0.400000000', '-0.600000000'])
+})
+
+test('at gimbal lock the orientation is kept with the last rotation at 0', () => {
+  const q = eulerToQuat([0.3, Math.PI / 2, 0.5], 'ZYX')
+  const back = quatToEuler(q, 'ZYX')
+  assert.equal(back[0], 0)
+  const again = eulerToQuat(back, 'ZYX')
+  const dot = Math.abs(q.reduce((sum, v, i) => sum + v * again[i], 0))
+  assert.ok(Math.abs(dot - 1) < 1e-9)
+})
+
+test('eulerSeries marks missing quaternions as NaN and unwraps across ±180°', () => {
+  const yaws = [170, 179, 181, 190].map(d => (d * Math.PI) / 180)
+  const rows: (number[] | null)[] = yaws.map(y => eulerToQuat([0, 0, y], 'ZYX'))
+  rows.splice(2, 0, [0, 0, 0, 0])
+  const out = eulerSeries(rows as number[][], { sequence: 'ZYX', unit: 'deg', unwrap: true })
+  assert.ok(Number.isNaN(seriesValue(out, 2, 2)))
+  const unwrapped = [0, 1, 3, 4].map(i => seriesValue(out, i, 2)!)
+  assert.deepEqual(unwrapped.map(v => Math.round(v * 1e6) / 1e6), [170, 179, 181, 190])
+})
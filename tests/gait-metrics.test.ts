@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import type { GaitEvents } from '@/lib/gait'
+import { computeGaitMetrics, gaitMetricsToCsv } from '@/lib/gait-metrics'
+
+const FS = 100
+
+// Symmetric walking at 1 s strides: left heel strikes every 100 frames from 0, right ones half
+// a stride later; toe off at 60% of each stride, so each double-support phase lasts 10%
+function walking(strides: number): GaitEvents {
+  const hs = (offset: number) => Array.from({ length: strides + 1 }, (_, k) => offset + 100 * k)
+  const to = (offset: number) => Array.from({ length: strides }, (_, k) => offset + 100 * k + 60)
+  return {
+    left: { heelStrike: hs(0), toeOff: to(0) },
+    right: { heelStrike: hs(50), toeOff: [10, ...to(50)] },
+  }
+}
+
+function close(actual: number, expected: number, message?: string) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${message ?? ''} expected ${expected}, got ${actual}`)
+}
+
+test('synthetic strides give the expected temporal metrics', () => {
+  const report = computeGaitMetrics(walking(4), FS)
+  assert.equal(report.strides.filter(s => s.side === 'left').length, 4)
+  assert.equal(report.strides.filter(s => s.side === 'right').length, 4)
+  assert.equal(report.skippedStrides, 0)
+  for (const s of report.strides) {
+    close(s.strideTime, 1)
+    close(s.stanceTime, 0.6)
+    close(s.swingTime, 0.4)
+    close(s.stancePercent, 60)
+    close(s.cadence, 120)
+    close(s.doubleSupportTime, 0.2, `${s.side} ${s.index}`)
+    close(s.doubleSupportPercent, 20)
+  }
+  const left = report.summary.stepTime.left
+  close(left.mean, 0.5)
+  close(left.sd, 0)
+  // The first left stride has no earlier right heel strike
+  assert.ok(Number.isNaN(report.strides[0].stepTime))
+  close(report.symmetry.strideTime, 0)
+})
+
+test('strides longer than maxStrideTime are skipped', () => {
+  const events = walking(3)
+  events.left.heelStrike.push(events.left.heelStrike.at(-1)! + 500)
+  const report = computeGaitMetrics(events, FS, { maxStrideTime: 3 })
+  assert.equal(report.skippedStrides, 1)
+  assert.equal(report.summary.strideTime.left.n, 3)
+})
+
+test('double support is NaN when a contralateral event is missing', () => {
+  const events = walking(2)
+  // No right toe off during the first left stance; no right heel strike during the second
+  events.right.toeOff = events.right.toeOff.filter(f => f !== 10)
+  events.right.heelStrike = events.right.heelStrike.filter(f => f !== 150)
+  const left = computeGaitMetrics(events, FS).strides.filter(s => s.side === 'left')
+  assert.ok(Number.isNaN(left[0].doubleSupportTime))
+  assert.ok(Number.isNaN(left[1].doubleSupportTime))
+  close(left[0].stanceTime, 0.6)
+})
+
+test('running strides have zero double support', () => {
+  // Stance at 30% of each stride: each foot lands after the other one has taken off
+  const hs = (offset: number) => [0, 100, 200, 300].map(f => f + offset)
+  const to = (offset: number) => [30, 130, 230].map(f => f + offset)
+  const events: GaitEvents = { left: { heelStrike: hs(0), toeOff: to(0) }, right: { heelStrike: hs(50), toeOff: to(50) } }
+  const report = computeGaitMetrics(events, FS)
+  for (const s of report.strides) {
+    close(s.stancePercent, 30)
+    // The first left stance has no earlier right toe off, so it stays unknown
+    if (s.side === 'left' && s.index === 1) assert.ok(Number.isNaN(s.doubleSupportTime))
+    else close(s.doubleSupportTime, 0, `${s.side} ${s.index}`)
+  }
+})
+
+test('step time only looks back to the previous heel strike of the same side', () => {
+  const events = walking(3)
+  // Missed right heel strike before the third left stride
+  events.right.heelStrike = events.right.heelStrike.filter(f => f !== 150)
+  const left = computeGaitMetrics(events, FS).strides.filter(s => s.side === 'left')
+  close(left[1].stepTime, 0.5)
+  assert.ok(Number.isNaN(left[2].stepTime))
+})
+
+test('CSV has the summary header and one row per stride with 1-based frames', () => {
+  const report = computeGaitMetrics(walking(2), FS)
+  const lines = gaitMetricsToCsv(report, { dataset: 'Live window', frameRate: FS }).trim().split('\n')
+  assert.equal(lines[0], '# dataset: Live window')
+  const header = lines.findIndex(l => l.startsWith('side,'))
+  assert.equal(lines.length - header - 1, report.strides.length)
+  assert.ok(lines[header + 1].startsWith('left,1,1,61,101,1,,0.6,0.4,60,40,0.2,20,120'))
+})
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { butterworthFiltfilt, type ButterworthFilter } from '@/lib/processing'
+import { createPackedSeries, seriesLength, seriesValue, type PackedSeries, type Series } from '@/lib/series'
+
+const FS = 100
+
+function sine(freqHz: number, seconds = 20): PackedSeries {
+  const n = seconds * FS
+  const out = createPackedSeries(n, 1)
+  for (let i = 0; i < n; i++) out.data[i] = Math.sin((2 * Math.PI * freqHz * i) / FS)
+  return out
+}
+
+// Peak amplitude away from the edges, where padding no longer matters
+function amplitude(s: Series): number {
+  const n = seriesLength(s)
+  let peak = 0
+  for (let i = Math.floor(n / 4); i < Math.floor((3 * n) / 4); i++) peak = Math.max(peak, Math.abs(seriesValue(s, i, 0) ?? 0))
+  return peak
+}
+
+test('filtfilt has gain 0.5 at the cutoff (−3 dB per pass)', () => {
+  for (const kind of ['lowpass', 'highpass'] as const) {
+    for (const order of [2, 4]) {
+      const filter: ButterworthFilter = { kind, order, cutoffHz: 5 }
+      assert.ok(Math.abs(amplitude(butterworthFiltfilt(sine(5), filter, FS)) - 0.5) < 0.01, `${kind} order ${order}`)
+    }
+  }
+})
+
+test('low-pass keeps the passband and attenuates the stopband', () => {
+  const filter: ButterworthFilter = { kind: 'lowpass', order: 4, cutoffHz: 5 }
+  assert.ok(Math.abs(amplitude(butterworthFiltfilt(sine(0.5), filter, FS)) - 1) < 0.01)
+  assert.ok(amplitude(butterworthFiltfilt(sine(20), filter, FS)) < 0.001)
+})
+
+test('band-pass (high-pass then low-pass) has gain about 0.5 at both edges', () => {
+  const filter: ButterworthFilter = { kind: 'bandpass', order: 2, cutoffHz: 2, highCutoffHz: 10 }
+  assert.ok(amplitude(butterworthFiltfilt(sine(Math.sqrt(20)), filter, FS)) > 0.9)
+  // Each edge also sees a little of the other section's roll-off
+  assert.ok(Math.abs(amplitude(butterworthFiltfilt(sine(2), filter, FS)) - 0.5) < 0.05)
+  assert.ok(Math.abs(amplitude(butterworthFiltfilt(sine(10), filter, FS)) - 0.5) < 0.05)
+})
+
+test('gaps stay NaN and do not spread', () => {
+  const s = sine(1, 4)
+  s.data.fill(NaN, 150, 160)
+  const out = butterworthFiltfilt(s, { kind: 'lowpass', order: 2, cutoffHz: 5 }, FS)
+  for (let i = 0; i < s.length; i++) {
+    assert.equal(Number.isNaN(seriesValue(out, i, 0)), i >= 150 && i < 160, `sample ${i}`)
+  }
+})
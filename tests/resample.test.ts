@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import type { DatasetPayload } from '@/lib/dataset'
+import { resampleDataset, resampledLength } from '@/lib/resample'
+import { readFramePosition, seriesLength, seriesValue } from '@/lib/series'
+
+// One sensor at 10 Hz: a position ramp and a gyroscope ramp, both with the gaps given
+function payload(numFrames: number, gaps: number[], nested = false): DatasetPayload {
+  const frames = Array.from({ length: numFrames }, (_, f) => [gaps.includes(f) ? [NaN, NaN, NaN] : [f, 2 * f, 3 * f]])
+  const gyro = Array.from({ length: numFrames }, (_, f) => (gaps.includes(f) ? (nested ? [null, null, null] : [NaN, NaN, NaN]) : [f, -f, 0.5 * f]))
+  return {
+    frameRate: 10,
+    sensorNames: ['lumbar'],
+    edges: [],
+    numFrames,
+    numSensors: 1,
+    frames,
+    rawSensorData: { lumbar: { gyroscope: gyro as number[][] } },
+  }
+}
+
+test('resampledLength covers the same duration without extrapolating', () => {
+  assert.equal(resampledLength(11, 10, 20), 21)
+  assert.equal(resampledLength(11, 10, 5), 6)
+  assert.equal(resampledLength(10, 10, 3), 3)
+  assert.equal(resampledLength(0, 10, 20), 0)
+})
+
+test('upsampling interpolates between finite samples', () => {
+  const out = resampleDataset(payload(11, []), 20)
+  assert.equal(out.frameRate, 20)
+  assert.equal(out.numFrames, 21)
+  const gyro = out.rawSensorData!.lumbar.gyroscope!
+  assert.equal(seriesLength(gyro), 21)
+  assert.equal(seriesValue(gyro, 3, 0), 1.5)
+  assert.equal(seriesValue(gyro, 3, 1), -1.5)
+  const pos = [0, 0, 0]
+  assert.ok(readFramePosition(out.frames, 5, 0, pos))
+  assert.deepEqual(pos, [2.5, 5, 7.5])
+})
+
+test('gaps survive resampling instead of being blended across', () => {
+  // Nested exports hold null for missing samples, packed ones NaN
+  for (const nested of [false, true]) {
+    const out = resampleDataset(payload(11, [5], nested), 30)
+    const gyro = out.rawSensorData!.lumbar.gyroscope!
+    // Output frames 13..17 sit at source frames 4⅓..5⅔: next to the gap they take the nearest
+    // sample, which is the gap itself from 4⅔ to 5⅓
+    const around = [13, 14, 15, 16, 17].map(i => seriesValue(gyro, i, 0))
+    assert.deepEqual(around, [4, NaN, NaN, NaN, 6], `nested=${nested}`)
+    for (let i = 14; i <= 16; i++) {
+      for (const d of [1, 2]) assert.ok(Number.isNaN(seriesValue(gyro, i, d)), `nested=${nested} frame ${i} component ${d}`)
+    }
+    const pos = [0, 0, 0]
+    readFramePosition(out.frames, 15, 0, pos)
+    assert.ok(pos.every(Number.isNaN))
+  }
+})
+
+test('downsampling keeps a gap that falls on an output frame', () => {
+  const out = resampleDataset(payload(11, [4]), 5)
+  const gyro = out.rawSensorData!.lumbar.gyroscope!
+  assert.deepEqual([0, 1, 2, 3].map(i => seriesValue(gyro, i, 0)), [0, 2, NaN, 6])
+})